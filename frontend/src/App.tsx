@@ -1,22 +1,42 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, lazy, Suspense } from 'react'
 import { onAuthStateChanged } from 'firebase/auth'
 import type { User } from 'firebase/auth'
-import { auth } from './firebase'
-import Login from './components/Login'
 import Dashboard from './components/Dashboard'
+import SharedDeckPreview from './components/SharedDeckPreview'
+import { dataBackend, LOCAL_USER } from './services/repository'
+import { clearSharedDeckIdFromUrl, getSharedDeckIdFromUrl } from './utils/share'
 import './App.css'
 
+// Sign-in loads Firebase, which local backends run without
+const Login = lazy(() => import('./components/Login'))
+
 function App() {
   const [user, setUser] = useState<User | null>(null)
   const [loading, setLoading] = useState(true)
+  // A share link opens the deck's preview before the dashboard
+  const [sharedDeckId, setSharedDeckId] = useState(getSharedDeckIdFromUrl)
+  const [isSigningInToClone, setIsSigningInToClone] = useState(false)
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (user) => {
-      setUser(user)
+    if (dataBackend !== 'firestore') return
+
+    let isCurrent = true
+    let unsubscribe = () => {}
+    import('./firebase').then(({ auth }) => {
+      if (!isCurrent) return
+      unsubscribe = onAuthStateChanged(auth, (user) => {
+        setUser(user)
+        setLoading(false)
+      })
+    }).catch((error) => {
+      console.error('Error loading Firebase:', error)
       setLoading(false)
     })
 
-    return () => unsubscribe()
+    return () => {
+      isCurrent = false
+      unsubscribe()
+    }
   }, [])
 
   const handleLogin = (user: User) => {
@@ -27,7 +47,16 @@ function App() {
     setUser(null)
   }
 
-  if (loading) {
+  const handleCloseSharedDeck = () => {
+    clearSharedDeckIdFromUrl()
+    setSharedDeckId(null)
+    setIsSigningInToClone(false)
+  }
+
+  // Local data backends skip Firebase sign-in
+  const currentUser = dataBackend === 'firestore' ? user : LOCAL_USER
+
+  if (dataBackend === 'firestore' && loading) {
     return (
       <div className="loading-container">
         <div className="loading-spinner"></div>
@@ -36,11 +65,27 @@ function App() {
     )
   }
 
-  if (!user) {
-    return <Login onLogin={handleLogin} />
+  // Previews don't need an account; cloning asks the visitor to sign in first
+  if (sharedDeckId && (currentUser || !isSigningInToClone)) {
+    return (
+      <SharedDeckPreview
+        sharedDeckId={sharedDeckId}
+        userId={currentUser?.uid ?? null}
+        onSignIn={() => setIsSigningInToClone(true)}
+        onClose={handleCloseSharedDeck}
+      />
+    )
+  }
+
+  if (!currentUser) {
+    return (
+      <Suspense fallback={<div className="loading-container"><div className="loading-spinner"></div></div>}>
+        <Login onLogin={handleLogin} />
+      </Suspense>
+    )
   }
 
-  return <Dashboard user={user} onSignOut={handleSignOut} />
+  return <Dashboard user={currentUser} onSignOut={dataBackend === 'firestore' ? handleSignOut : undefined} />
 }
 
 export default App
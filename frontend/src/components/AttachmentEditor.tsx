@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import type { CardAttachment, CardSide } from '../types/flashcard';
+import { ATTACHMENT_ACCEPT, MAX_ATTACHMENT_BYTES, formatFileSize, prepareAttachmentFile } from '../utils/attachments';
+import { uploadAttachment } from '../services/storageService';
+import './AttachmentEditor.css';
+
+interface AttachmentEditorProps {
+  userId: string;
+  side: CardSide;
+  attachments: CardAttachment[]; // all of the card's attachments; only this side's are listed
+  onChange: (attachments: CardAttachment[]) => void;
+}
+
+// Upload and remove the images and audio on one side of a card.
+// Files are uploaded as soon as they're picked; the caller decides what to delete on save or cancel.
+const AttachmentEditor: React.FC<AttachmentEditorProps> = ({ userId, side, attachments, onChange }) => {
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sideAttachments = attachments.filter(attachment => attachment.side === side);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsUploading(true);
+    setError(null);
+    const uploaded: CardAttachment[] = [];
+    const problems: string[] = [];
+    for (const file of files) {
+      const { blob, kind, error: problem } = await prepareAttachmentFile(file);
+      if (!blob || !kind) {
+        problems.push(problem || `${file.name} could not be attached`);
+        continue;
+      }
+      try {
+        uploaded.push(await uploadAttachment(userId, side, kind, blob, file.name));
+      } catch {
+        problems.push(`${file.name} failed to upload`);
+      }
+    }
+    if (uploaded.length > 0) {
+      onChange([...attachments, ...uploaded]);
+    }
+    setError(problems.length > 0 ? problems.join('. ') : null);
+    setIsUploading(false);
+  };
+
+  return (
+    <div className="attachment-editor" onClick={(e) => e.stopPropagation()}>
+      {sideAttachments.length > 0 && (
+        <ul className="attachment-list">
+          {sideAttachments.map(attachment => (
+            <li key={attachment.id} className="attachment-item">
+              <span className="attachment-name" title={attachment.name}>
+                {attachment.kind === 'image' ? '🖼' : '🔊'} {attachment.name}
+              </span>
+              <span className="attachment-size">{formatFileSize(attachment.size)}</span>
+              <button
+                type="button"
+                onClick={() => onChange(attachments.filter(item => item.id !== attachment.id))}
+                className="attachment-remove-btn"
+                aria-label={`Remove ${attachment.name}`}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <label className={`attachment-add ${isUploading ? 'uploading' : ''}`}>
+        {isUploading ? 'Uploading...' : '+ Image or audio'}
+        <input
+          type="file"
+          accept={ATTACHMENT_ACCEPT}
+          multiple
+          onChange={handleFileChange}
+          disabled={isUploading}
+          className="attachment-file-input"
+          title={`Images are resized; files up to ${formatFileSize(MAX_ATTACHMENT_BYTES)}`}
+        />
+      </label>
+      {error && <p className="attachment-error">{error}</p>}
+    </div>
+  );
+};
+
+export default AttachmentEditor;
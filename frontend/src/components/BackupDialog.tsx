@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import type { FlashcardData } from '../types/flashcard';
+import type { Deck } from '../types/deck';
+import type { AccountBackup, RestoreConflictStrategy, RestoreMode } from '../types/backup';
+import { getBackupConflicts, parseBackup } from '../utils/backup';
+import './BackupDialog.css';
+
+interface BackupDialogProps {
+  userId: string;
+  flashcards: FlashcardData[];
+  decks: Deck[];
+  onExport: () => Promise<void>;
+  onRestore: (backup: AccountBackup, mode: RestoreMode, conflictStrategy: RestoreConflictStrategy) => Promise<void>;
+  onClose: () => void;
+}
+
+const BackupDialog: React.FC<BackupDialogProps> = ({ userId, flashcards, decks, onExport, onRestore, onClose }) => {
+  const [backup, setBackup] = useState<AccountBackup | null>(null);
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [conflictStrategy, setConflictStrategy] = useState<RestoreConflictStrategy>('keep-existing');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const conflicts = backup ? getBackupConflicts(backup, userId, flashcards, decks) : null;
+  const conflictCount = conflicts ? conflicts.flashcardIds.length + conflicts.deckIds.length : 0;
+
+  const handleExport = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await onExport();
+    } catch (err) {
+      console.error('Error exporting backup:', err);
+      setError('Failed to create a backup. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setBackup(null);
+    setValidationErrors([]);
+    setError(null);
+    if (!file) return;
+
+    const result = parseBackup(await file.text());
+    setBackup(result.backup ?? null);
+    setValidationErrors(result.errors);
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      await onRestore(backup, mode, conflictStrategy);
+    } catch (err) {
+      console.error('Error restoring backup:', err);
+      setError('Restore failed. Some data may have been written; check your cards before trying again.');
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="backup-dialog">
+      <section className="backup-section">
+        <h3>Download a backup</h3>
+        <p className="backup-hint">
+          Saves all your cards, decks, review history, Rapid Fire rounds and settings to a JSON file.
+        </p>
+        <button onClick={handleExport} className="save-new-btn" disabled={isWorking}>
+          Download Backup
+        </button>
+      </section>
+
+      <section className="backup-section">
+        <h3>Restore from a backup</h3>
+        <div className="form-group">
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={handleFileChange}
+            className="backup-file-input"
+            aria-label="Backup file"
+            disabled={isWorking}
+          />
+        </div>
+
+        {validationErrors.length > 0 && (
+          <div className="backup-errors">
+            <p>This file can't be restored:</p>
+            <ul>
+              {validationErrors.map(message => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {backup && conflicts && (
+          <>
+            <p className="backup-hint">
+              Backup from {backup.exportedAt.toLocaleString()}: {backup.flashcards.length} cards,{' '}
+              {backup.decks.length} decks, {backup.reviews.length} reviews, {backup.quizRounds.length} Rapid Fire rounds.
+            </p>
+            {backup.userId !== userId && (
+              <p className="backup-hint">This backup comes from another account, so its cards are restored as copies.</p>
+            )}
+
+            <fieldset className="backup-options">
+              <legend>Restore mode</legend>
+              <label>
+                <input type="radio" name="restore-mode" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                Merge into my current data
+              </label>
+              <label>
+                <input type="radio" name="restore-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                Replace my current data
+              </label>
+            </fieldset>
+
+            {mode === 'replace' ? (
+              <p className="backup-warning">
+                All {flashcards.length} current cards, {decks.length} decks and their history will be deleted first.
+              </p>
+            ) : conflictCount > 0 ? (
+              <fieldset className="backup-options">
+                <legend>
+                  {conflicts.flashcardIds.length} cards and {conflicts.deckIds.length} decks already exist
+                </legend>
+                <label>
+                  <input
+                    type="radio"
+                    name="restore-conflicts"
+                    checked={conflictStrategy === 'keep-existing'}
+                    onChange={() => setConflictStrategy('keep-existing')}
+                  />
+                  Keep my current versions
+                </label>
+                <label>
+                  <input
+                    type="radio"
+                    name="restore-conflicts"
+                    checked={conflictStrategy === 'use-backup'}
+                    onChange={() => setConflictStrategy('use-backup')}
+                  />
+                  Overwrite them with the backup
+                </label>
+              </fieldset>
+            ) : (
+              <p className="backup-hint">No conflicts with your current cards or decks.</p>
+            )}
+          </>
+        )}
+
+        {error && <p className="backup-warning">{error}</p>}
+
+        <div className="form-actions">
+          <button
+            onClick={handleRestore}
+            className={`save-new-btn ${mode === 'replace' ? 'backup-replace-btn' : ''}`}
+            disabled={!backup || isWorking}
+          >
+            {isWorking ? 'Working...' : mode === 'replace' ? 'Replace Everything' : 'Restore'}
+          </button>
+          <button onClick={onClose} className="cancel-new-btn">
+            Close
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default BackupDialog;
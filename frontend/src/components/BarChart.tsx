@@ -0,0 +1,67 @@
+import React from 'react';
+import './BarChart.css';
+
+export interface BarChartDatum {
+  label: string;
+  value: number;
+  title?: string;
+}
+
+interface BarChartProps {
+  data: BarChartDatum[];
+  maxValue?: number;
+  height?: number;
+  valueSuffix?: string;
+  variant?: 'green' | 'blue' | 'yellow';
+}
+
+const BAR_WIDTH = 20;
+const BAR_GAP = 4;
+const LABEL_HEIGHT = 16;
+
+const BarChart: React.FC<BarChartProps> = ({ data, maxValue, height = 120, valueSuffix = '', variant = 'green' }) => {
+  const max = Math.max(maxValue ?? 0, ...data.map(d => d.value), 1);
+  const chartHeight = height - LABEL_HEIGHT;
+  const width = data.length * (BAR_WIDTH + BAR_GAP);
+  // Thin out axis labels so they don't overlap on long series
+  const labelEvery = Math.max(1, Math.ceil(data.length / 10));
+
+  return (
+    <svg
+      className={`bar-chart bar-chart-${variant}`}
+      viewBox={`0 0 ${width} ${height}`}
+      role="img"
+    >
+      {data.map((datum, i) => {
+        const barHeight = (datum.value / max) * chartHeight;
+        const x = i * (BAR_WIDTH + BAR_GAP);
+        return (
+          <g key={i}>
+            <title>{datum.title ?? `${datum.label}: ${datum.value}${valueSuffix}`}</title>
+            <rect
+              className="bar-chart-track"
+              x={x}
+              y={0}
+              width={BAR_WIDTH}
+              height={chartHeight}
+            />
+            <rect
+              className="bar-chart-bar"
+              x={x}
+              y={chartHeight - barHeight}
+              width={BAR_WIDTH}
+              height={barHeight}
+            />
+            {i % labelEvery === 0 && (
+              <text className="bar-chart-label" x={x + BAR_WIDTH / 2} y={height - 3}>
+                {datum.label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default BarChart;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import type { Deck } from '../types/deck';
+import { parseTags } from '../utils/flashcardFilters';
+import './BulkActionBar.css';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  matchingCount: number; // cards matching the current deck and filters, loaded or not
+  decks: Deck[];
+  disabled?: boolean;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onDelete: () => void;
+  onMove: (deckId?: string) => void;
+  onUpdateTags: (add: string[], remove: string[]) => void;
+  onReschedule: (nextRevision: Date) => void;
+}
+
+// Value for a date input, in local time
+const toDateInputValue = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount,
+  matchingCount,
+  decks,
+  disabled = false,
+  onSelectAll,
+  onClearSelection,
+  onDelete,
+  onMove,
+  onUpdateTags,
+  onReschedule
+}) => {
+  const [tagInput, setTagInput] = useState('');
+  const [rescheduleDate, setRescheduleDate] = useState(() => toDateInputValue(new Date()));
+  const tags = parseTags(tagInput);
+  const noun = (count: number) => `flashcard${count === 1 ? '' : 's'}`;
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete ${selectedCount} ${noun(selectedCount)}? This cannot be undone.`)) {
+      onDelete();
+    }
+  };
+
+  const handleMove = (value: string) => {
+    if (value === '') return;
+    // The "no deck" option can't use an empty value, which stands for the placeholder
+    onMove(value === '-' ? undefined : value);
+  };
+
+  const handleUpdateTags = (isAdding: boolean) => {
+    onUpdateTags(isAdding ? tags : [], isAdding ? [] : tags);
+    setTagInput('');
+  };
+
+  return (
+    <div className="bulk-action-bar">
+      <span className="bulk-selection-count">
+        {selectedCount > 0 ? `${selectedCount} selected` : 'Shift-click checkboxes to select a range'}
+      </span>
+      {selectedCount < matchingCount && (
+        <button onClick={onSelectAll} className="bulk-btn" disabled={disabled}>
+          Select all {matchingCount} matching
+        </button>
+      )}
+      {selectedCount > 0 && (
+        <>
+          <button onClick={onClearSelection} className="bulk-btn" disabled={disabled}>
+            Clear selection
+          </button>
+          <select
+            value=""
+            onChange={(e) => handleMove(e.target.value)}
+            className="bulk-select"
+            aria-label="Move selected flashcards to a deck"
+            disabled={disabled}
+          >
+            <option value="">Move to deck...</option>
+            <option value="-">No deck</option>
+            {decks.map(deck => (
+              <option key={deck.id} value={deck.id}>{deck.name}</option>
+            ))}
+          </select>
+          <div className="bulk-group">
+            <input
+              type="text"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              placeholder="Tags, comma separated"
+              className="bulk-input"
+              aria-label="Tags to add or remove"
+              disabled={disabled}
+            />
+            <button onClick={() => handleUpdateTags(true)} className="bulk-btn" disabled={disabled || tags.length === 0}>
+              Add tags
+            </button>
+            <button onClick={() => handleUpdateTags(false)} className="bulk-btn" disabled={disabled || tags.length === 0}>
+              Remove tags
+            </button>
+          </div>
+          <div className="bulk-group">
+            <input
+              type="date"
+              value={rescheduleDate}
+              onChange={(e) => setRescheduleDate(e.target.value)}
+              className="bulk-input"
+              aria-label="Next review date"
+              disabled={disabled}
+            />
+            <button
+              onClick={() => onReschedule(new Date(`${rescheduleDate}T00:00`))}
+              className="bulk-btn"
+              disabled={disabled || rescheduleDate === ''}
+            >
+              Reschedule
+            </button>
+          </div>
+          <button onClick={handleDelete} className="bulk-btn bulk-delete-btn" disabled={disabled}>
+            Delete {selectedCount}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
@@ -0,0 +1,34 @@
+import React, { useMemo } from 'react';
+import type { CardFormat } from '../types/flashcard';
+import { renderCardHtml } from '../utils/cardRendering';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/base16/gruvbox-dark-medium.css';
+import './CardContent.css';
+
+interface CardContentProps {
+  text: string;
+  format?: CardFormat;
+  className?: string;
+  as?: 'p' | 'h3' | 'span';
+}
+
+// A card face: plain text as-is, markdown rendered to sanitized HTML (inline when shown as a span)
+const CardContent: React.FC<CardContentProps> = ({ text, format, className = '', as: Tag = 'p' }) => {
+  const isInline = Tag === 'span';
+  const html = useMemo(
+    () => (format === 'markdown' ? renderCardHtml(text, isInline) : null),
+    [text, format, isInline]
+  );
+
+  if (html === null) {
+    return <Tag className={className}>{text}</Tag>;
+  }
+
+  if (isInline) {
+    return <span className={`${className} markdown-content markdown-content-inline`} dangerouslySetInnerHTML={{ __html: html }} />;
+  }
+
+  return <div className={`${className} markdown-content`} dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+export default CardContent;
@@ -0,0 +1,34 @@
+import React from 'react';
+import type { CardAttachment } from '../types/flashcard';
+import './CardMedia.css';
+
+interface CardMediaProps {
+  attachments: CardAttachment[];
+  className?: string;
+}
+
+// Images and audio players for one side of a card
+const CardMedia: React.FC<CardMediaProps> = ({ attachments, className = '' }) => {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className={`card-media ${className}`}>
+      {attachments.map(attachment =>
+        attachment.kind === 'image' ? (
+          <img key={attachment.id} src={attachment.url} alt={attachment.name} className="card-media-image" loading="lazy" />
+        ) : (
+          <audio
+            key={attachment.id}
+            src={attachment.url}
+            controls
+            preload="none"
+            className="card-media-audio"
+            onClick={(e) => e.stopPropagation()}
+          />
+        )
+      )}
+    </div>
+  );
+};
+
+export default CardMedia;
@@ -1,32 +1,134 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback, lazy, Suspense } from 'react';
 import { signOut } from 'firebase/auth';
 import type { User } from 'firebase/auth';
-import { auth } from '../firebase';
 import Flashcard from './Flashcard';
 import Modal from './Modal';
 import RapidFire from './RapidFire';
-import type { FlashcardData, RevisionSettings, TimeUnit } from '../types/flashcard';
+import DeckSidebar from './DeckSidebar';
+import FilterBar from './FilterBar';
+import StudySession from './StudySession';
+import ReviewHistory from './ReviewHistory';
+import StatsView from './StatsView';
+import ImportDialog from './ImportDialog';
+import BackupDialog from './BackupDialog';
+import CardContent from './CardContent';
+import AttachmentEditor from './AttachmentEditor';
+import VirtualGrid from './VirtualGrid';
+import SyncStatusIndicator from './SyncStatusIndicator';
+import BulkActionBar from './BulkActionBar';
+import ShareDialog from './ShareDialog';
+import DeckMembersDialog from './DeckMembersDialog';
+import type { CardAttachment, CardFormat, CardType, FlashcardData, ReviewGrade, RevisionSettings, TimeUnit } from '../types/flashcard';
+import type { Deck, DeckCardAction, DeckRole } from '../types/deck';
+import type { ReviewSource } from '../types/review';
+import type { AccountBackup, RestoreConflictStrategy, RestoreMode } from '../types/backup';
 import { getNextRevisionDate, formatTimeInterval } from '../utils/timeUtils';
+import { scheduleReview, getDueFlashcards } from '../utils/scheduler';
+import {
+  ALL_DECKS,
+  UNASSIGNED_DECK,
+  canEditDeckCards,
+  canEditFlashcard,
+  filterFlashcardsByDeck,
+  getDeckRole,
+  getDeckSelectionName,
+  isTeamDeck
+} from '../utils/deckUtils';
+import { DEFAULT_FILTERS, applyFlashcardFilters, getAllTags, parseTags } from '../utils/flashcardFilters';
+import type { FlashcardFilters } from '../utils/flashcardFilters';
+import { parseAcceptedAnswers } from '../utils/answerMatching';
+import type { ImportRow } from '../utils/csvImport';
+import { createAnkiPackage } from '../utils/ankiPackage';
+import { downloadBlob, toFileName } from '../utils/fileDownload';
+import { createBackup, serializeBackup } from '../utils/backup';
+import { getClozeIndices, isClozeCard } from '../utils/cloze';
+import { isReverseCard } from '../utils/cardFaces';
+import { toggleSelection } from '../utils/selection';
 import { 
   addFlashcard, 
+  importFlashcards,
+  getAccountData,
+  restoreAccountData,
   updateFlashcard, 
+  updateNoteCards,
+  addReverseCard,
   deleteFlashcard, 
+  subscribeToUserFlashcards,
   getUserFlashcards,
-  updateFlashcardRevision
-} from '../services/firestoreService';
+  getUserFlashcardsCount,
+  recordFlashcardReview,
+  subscribeToUserDecks,
+  addDeck,
+  updateDeck,
+  deleteDeck,
+  shareDeck,
+  subscribeToTeamFlashcards,
+  subscribeToDeckInvites,
+  answerDeckInvite,
+  applyBulkAction,
+  dataBackend
+} from '../services/repository';
+import type { BulkAction, DeckUser, FlashcardFeed, NoteUpdates } from '../services/flashcardRepository';
+import { deleteAttachments } from '../services/storageService';
 import './Dashboard.css';
 
+// Rooms are played through Firestore, so they are only loaded when opened
+const RapidFireRoom = lazy(() => import('./RapidFireRoom'));
+
+// Card size in the grid: the card's height plus its vertical margins, and the space between cards
+const CARD_MIN_WIDTH = 300;
+const CARD_ROW_HEIGHT = 260;
+const CARD_GAP = 20;
+
+// Keep a listener's unsubscribe in `stops` while it is live; returns the effect cleanup
+const trackListener = (stops: Set<() => void>, unsubscribe: () => void): (() => void) => {
+  stops.add(unsubscribe);
+  return () => {
+    stops.delete(unsubscribe);
+    unsubscribe();
+  };
+};
+
 interface DashboardProps {
-  user: User;
-  onSignOut: () => void;
+  user: Pick<User, 'uid' | 'displayName' | 'email'>;
+  // Omitted for local data backends, which have no sign-in
+  onSignOut?: () => void;
 }
 
 const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
-  const [flashcards, setFlashcards] = useState<FlashcardData[]>([]);
+  const [ownFlashcards, setOwnFlashcards] = useState<FlashcardData[]>([]);
+  const [teamFlashcards, setTeamFlashcards] = useState<FlashcardData[]>([]);
+  const [hasMoreFlashcards, setHasMoreFlashcards] = useState(false);
+  const [serverCounts, setServerCounts] = useState<Record<string, number> | null>(null);
+  // Bumped by writes that add, move or remove cards, so the server counts are taken again
+  const [cardWrites, setCardWrites] = useState(0);
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [deckInvites, setDeckInvites] = useState<Deck[]>([]);
+  const [membersDeckId, setMembersDeckId] = useState<string | null>(null);
+  const [selectedDeck, setSelectedDeck] = useState<string>(ALL_DECKS);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isRapidFireOpen, setIsRapidFireOpen] = useState(false);
+  const [isRoomOpen, setIsRoomOpen] = useState(false);
+  const [isStudyOpen, setIsStudyOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [sharedDeckId, setSharedDeckId] = useState<string | null>(null);
+  const [historyFlashcardId, setHistoryFlashcardId] = useState<string | null>(null);
+  const [view, setView] = useState<'cards' | 'stats'>('cards');
   const [newFront, setNewFront] = useState('');
   const [newBack, setNewBack] = useState('');
+  const [newDeckId, setNewDeckId] = useState('');
+  const [newTags, setNewTags] = useState('');
+  const [newAccepted, setNewAccepted] = useState('');
+  const [newIsMarkdown, setNewIsMarkdown] = useState(false);
+  const [newCardType, setNewCardType] = useState<CardType>('basic');
+  const [newWithReverse, setNewWithReverse] = useState(false);
+  const [newAttachments, setNewAttachments] = useState<CardAttachment[]>([]);
+  const [filters, setFilters] = useState<FlashcardFilters>(DEFAULT_FILTERS);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+  const [isSelectingAll, setIsSelectingAll] = useState(false);
   const [revisionInterval] = useState(7); // Default 7 days (legacy)
   const [revisionSettings, setRevisionSettings] = useState<RevisionSettings>({
     interval: 7,
@@ -35,65 +137,270 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Load flashcards from Firestore on component mount
+  // Other members' cards in the user's team decks are studied alongside the user's own
+  const flashcards = useMemo(() => [...ownFlashcards, ...teamFlashcards], [ownFlashcards, teamFlashcards]);
+  const teamDeckKey = decks.filter(isTeamDeck).map(deck => deck.id).join(',');
+  // Decks the user can add cards to or move cards into
+  const editableDecks = useMemo(
+    () => decks.filter(deck => canEditDeckCards(getDeckRole(deck, user.uid))),
+    [decks, user.uid]
+  );
+  const membersDeck = decks.find(deck => deck.id === membersDeckId);
+  const getInvitedRole = (deck: Deck): DeckRole => deck.invites?.[(user.email || '').toLowerCase()] ?? 'viewer';
+  const deckUser: DeckUser = {
+    userId: user.uid,
+    displayName: user.displayName || user.email || 'A flashcards user',
+    email: user.email
+  };
+  const visibleFlashcards = useMemo(
+    () => filterFlashcardsByDeck(flashcards, selectedDeck),
+    [flashcards, selectedDeck]
+  );
+  const displayedFlashcards = useMemo(
+    () => applyFlashcardFilters(visibleFlashcards, filters),
+    [visibleFlashcards, filters]
+  );
+  const dueFlashcards = getDueFlashcards(visibleFlashcards);
+  const reverseNoteIds = useMemo(
+    () => new Set(flashcards.filter(isReverseCard).map(card => card.noteId)),
+    [flashcards]
+  );
+  const canAddReverseCard = (flashcard: FlashcardData) =>
+    (flashcard.cardType ?? 'basic') === 'basic' && !(flashcard.noteId && reverseNoteIds.has(flashcard.noteId));
+  const historyFlashcard = flashcards.find(card => card.id === historyFlashcardId);
+  // Cards hidden by the deck or filters stay selected but aren't acted on
+  const selectedFlashcards = useMemo(
+    () => displayedFlashcards.filter(card => selectedIds.has(card.id)),
+    [displayedFlashcards, selectedIds]
+  );
+
+  // Deck views, search, filters, sorting and the study modes need the whole collection
+  const needsAllFlashcards = selectedDeck !== ALL_DECKS
+    || (Object.keys(DEFAULT_FILTERS) as Array<keyof FlashcardFilters>).some(key => filters[key] !== DEFAULT_FILTERS[key])
+    || isStudyOpen
+    || isRapidFireOpen
+    || isRoomOpen
+    || isBackupOpen
+    || isSelectingAll
+    || view === 'stats';
+  // Until every card is loaded, counts come from the server rather than the loaded cards
+  const deckCounts = hasMoreFlashcards ? serverCounts : null;
+  const matchingCount = deckCounts?.[selectedDeck] ?? displayedFlashcards.length;
+
+  const feedRef = useRef<FlashcardFeed | null>(null);
+  // Every live listener, so signing out can stop them all at once
+  const listenersRef = useRef(new Set<() => void>());
+
+  // Keep flashcards and decks in sync with Firestore. Changes made here, in other tabs or on other
+  // devices all arrive through these subscriptions, so handlers below only write and never patch state.
+  // Cards arrive a page at a time as the grid is scrolled.
   useEffect(() => {
-    const loadFlashcards = async () => {
-      if (!user?.uid) return;
-      
-      setLoading(true);
-      setError(null);
-      
-      try {
-        const userFlashcards = await getUserFlashcards(user.uid);
-        console.log('Loaded flashcards:', userFlashcards);
-        setFlashcards(userFlashcards);
-      } catch (err) {
-        console.error('Error loading flashcards:', err);
-        setError('Failed to load flashcards. Please try again.');
-      } finally {
-        setLoading(false);
-      }
+    if (!user?.uid) return;
+    
+    const handleSyncError = () => {
+      setError('Failed to load flashcards. Please try again.');
+      setLoading(false);
     };
-
-    loadFlashcards();
+    const feed = subscribeToUserFlashcards(user.uid, ({ flashcards: userFlashcards, hasMore }) => {
+      setOwnFlashcards(userFlashcards);
+      setHasMoreFlashcards(hasMore);
+      setLoading(false);
+    }, handleSyncError);
+    const unsubscribeDecks = subscribeToUserDecks(user.uid, setDecks, handleSyncError);
+    
+    feedRef.current = feed;
+    return trackListener(listenersRef.current, () => {
+      feed.unsubscribe();
+      unsubscribeDecks();
+    });
   }, [user?.uid]);
 
+  // Follow the cards other members add to the user's team decks
+  useEffect(() => {
+    return trackListener(listenersRef.current, subscribeToTeamFlashcards(
+      user.uid,
+      teamDeckKey ? teamDeckKey.split(',') : [],
+      setTeamFlashcards,
+      () => setError('Failed to load the cards of your team decks. Please try again.')
+    ));
+  }, [user.uid, teamDeckKey]);
+
+  // Invites are found by the email the user signed in with
+  useEffect(() => {
+    if (!user.email) return;
+    // Without a verified email the rules refuse the query, and there are no invites to show
+    return trackListener(listenersRef.current, subscribeToDeckInvites(user.email, setDeckInvites, () => setDeckInvites([])));
+  }, [user.email]);
+
+  useEffect(() => {
+    if (needsAllFlashcards && hasMoreFlashcards) {
+      feedRef.current?.loadAll();
+    }
+  }, [needsAllFlashcards, hasMoreFlashcards]);
+
+  // Count cards per deck with aggregate queries while the collection is only partly loaded.
+  // Loading more pages doesn't change the counts, so they are only taken again when decks change or after writes.
+  useEffect(() => {
+    if (!hasMoreFlashcards) return;
+    
+    let isCurrent = true;
+    Promise.all([
+      getUserFlashcardsCount(user.uid),
+      ...decks.map(deck => getUserFlashcardsCount(user.uid, deck.id))
+    ])
+      .then(([total, ...perDeck]) => {
+        if (!isCurrent) return;
+        const counts: Record<string, number> = {
+          [ALL_DECKS]: total,
+          [UNASSIGNED_DECK]: total - perDeck.reduce((sum, count) => sum + count, 0)
+        };
+        decks.forEach((deck, index) => {
+          counts[deck.id] = perDeck[index];
+        });
+        setServerCounts(counts);
+      })
+      // The sidebar falls back to counting the loaded cards
+      .catch(() => {});
+    return () => {
+      isCurrent = false;
+    };
+  }, [user.uid, decks, hasMoreFlashcards, cardWrites]);
+
+  const recountFlashcards = () => setCardWrites(count => count + 1);
+
+  const handleLoadMoreFlashcards = useCallback(() => {
+    feedRef.current?.loadMore();
+  }, []);
+
+  // Selecting every matching card waits for the rest of the collection to load
+  useEffect(() => {
+    if (isSelectingAll && !hasMoreFlashcards) {
+      setSelectedIds(new Set(displayedFlashcards.map(card => card.id)));
+      setIsSelectingAll(false);
+    }
+  }, [isSelectingAll, hasMoreFlashcards, displayedFlashcards]);
+
+  const handleSelectFlashcard = (id: string, extendRange: boolean) => {
+    setSelectedIds(prev => toggleSelection(prev, displayedFlashcards.map(card => card.id), id, selectionAnchor, extendRange));
+    setSelectionAnchor(id);
+  };
+
+  const handleClearSelection = () => {
+    setSelectedIds(new Set());
+    setSelectionAnchor(null);
+  };
+
+  // Apply a change to the selected cards. It shows up at once; batches the server later refuses
+  // are undone by Firestore, and their cards are reported and left selected so they can be retried.
+  // Anyone can reschedule the cards they study, but only cards the user can edit are changed otherwise.
+  const handleBulkAction = async (action: BulkAction, verb: string) => {
+    const targets = action.type === 'reschedule'
+      ? selectedFlashcards
+      : selectedFlashcards.filter(card => canEditFlashcard(card, decks, user.uid));
+    const skippedCount = selectedFlashcards.length - targets.length;
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const chunks = await applyBulkAction(user.uid, targets, action);
+      if (action.type === 'delete' || action.type === 'move') {
+        recountFlashcards();
+      }
+      handleClearSelection();
+      setLoading(false);
+      if (skippedCount > 0) {
+        setError(`${skippedCount} of the selected flashcards are in decks you can only view, so they were left unchanged.`);
+      }
+      const results = await Promise.allSettled(chunks.map(chunk => chunk.acknowledged));
+      const failedIds = chunks.flatMap((chunk, index) => (results[index].status === 'rejected' ? chunk.flashcardIds : []));
+      if (failedIds.length > 0) {
+        setSelectedIds(new Set(failedIds));
+        setError(`Failed to ${verb} ${failedIds.length} of ${targets.length} flashcards. They were left unchanged and are still selected.`);
+      }
+    } catch (err) {
+      console.error(`Error trying to ${verb} flashcards:`, err);
+      setError(`Failed to ${verb} flashcards. Please try again.`);
+      setLoading(false);
+    }
+  };
+
+  const newClozeIndices = newCardType === 'cloze' ? getClozeIndices(newFront) : [];
+  const canCreateFlashcard = newCardType === 'cloze'
+    ? newClozeIndices.length > 0
+    : newFront.trim() !== '' && newBack.trim() !== '';
+
   const handleAddFlashcard = async () => {
-    if (!newFront.trim() || !newBack.trim() || !user?.uid) return;
+    if (!canCreateFlashcard || !user?.uid) return;
     
     setLoading(true);
     setError(null);
     
     try {
       const nextRevision = getNextRevisionDate(revisionSettings.interval, revisionSettings.unit);
+      const tags = parseTags(newTags);
+      const acceptedAnswers = parseAcceptedAnswers(newAccepted);
       
-      const flashcardId = await addFlashcard(
-        {
+      if (newCardType === 'cloze') {
+        // One card per cloze deletion, all sharing the note's text and files
+        const noteId = crypto.randomUUID();
+        const cards = newClozeIndices.map(clozeIndex => ({
           front: newFront.trim(),
           back: newBack.trim(),
+          cardType: 'cloze' as const,
+          clozeIndex,
+          noteId,
+          ...(newIsMarkdown ? { format: 'markdown' as const } : {}),
+          ...(newAttachments.length > 0 ? { attachments: newAttachments } : {}),
           userId: user.uid,
-          revisionInterval: revisionInterval, // Legacy support
-          revisionSettings: revisionSettings, // New flexible settings
+          ...(newDeckId ? { deckId: newDeckId } : {}),
+          tags,
+          revisionInterval: revisionInterval,
+          revisionSettings: revisionSettings,
           nextRevision: nextRevision
-        },
-        user.uid
-      );
-      
-      const newFlashcard: FlashcardData = {
-        id: flashcardId,
-        front: newFront.trim(),
-        back: newBack.trim(),
-        createdAt: new Date(),
-        userId: user.uid,
-        revisionInterval: revisionInterval, // Legacy support
-        revisionSettings: revisionSettings, // New flexible settings
-        nextRevision: nextRevision,
-        reviewCount: 0
-      };
-      
-      setFlashcards(prev => [newFlashcard, ...prev]);
+        }));
+        await importFlashcards(cards, user.uid);
+      } else {
+        const flashcardId = await addFlashcard(
+          {
+            front: newFront.trim(),
+            back: newBack.trim(),
+            ...(newIsMarkdown ? { format: 'markdown' as const } : {}),
+            ...(newAttachments.length > 0 ? { attachments: newAttachments } : {}),
+            ...(acceptedAnswers.length > 0 ? { acceptedAnswers } : {}),
+            userId: user.uid,
+            ...(newDeckId ? { deckId: newDeckId } : {}),
+            tags,
+            revisionInterval: revisionInterval, // Legacy support
+            revisionSettings: revisionSettings, // New flexible settings
+            nextRevision: nextRevision
+          },
+          user.uid
+        );
+        
+        if (newWithReverse) {
+          await handleAddReverseCard({
+            id: flashcardId,
+            front: newFront.trim(),
+            back: newBack.trim(),
+            format: newIsMarkdown ? 'markdown' : undefined,
+            attachments: newAttachments.length > 0 ? newAttachments : undefined,
+            acceptedAnswers: acceptedAnswers.length > 0 ? acceptedAnswers : undefined,
+            createdAt: new Date(),
+            userId: user.uid,
+            deckId: newDeckId || undefined,
+            tags,
+            revisionSettings: revisionSettings,
+            nextRevision: nextRevision
+          });
+        }
+      }
+      recountFlashcards();
       setNewFront('');
       setNewBack('');
+      setNewTags('');
+      setNewAccepted('');
+      setNewIsMarkdown(false);
+      setNewAttachments([]);
       setIsModalOpen(false);
     } catch (err) {
       console.error('Error adding flashcard:', err);
@@ -103,17 +410,184 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
     }
   };
 
-  const handleUpdateFlashcard = async (id: string, front: string, back: string) => {
+  // Create any decks named in the import, then add all rows in batched writes
+  const handleImportFlashcards = async (rows: ImportRow[], fallbackDeckId: string) => {
+    if (!user?.uid) return;
+    
+    const deckIdsByName = new Map(editableDecks.map(deck => [deck.name.toLowerCase(), deck.id]));
+    for (const row of rows) {
+      if (!row.deckName || deckIdsByName.has(row.deckName.toLowerCase())) continue;
+      const deckId = await addDeck({ name: row.deckName, userId: user.uid }, user.uid);
+      deckIdsByName.set(row.deckName.toLowerCase(), deckId);
+    }
+    
+    const cards = rows.map(row => {
+      const deckId = row.deckName ? deckIdsByName.get(row.deckName.toLowerCase()) : fallbackDeckId;
+      const settings = decks.find(deck => deck.id === deckId)?.revisionSettings || { interval: 7, unit: 'days' as TimeUnit };
+      return {
+        front: row.front,
+        back: row.back,
+        userId: user.uid,
+        ...(deckId ? { deckId } : {}),
+        tags: row.tags,
+        revisionSettings: settings,
+        nextRevision: getNextRevisionDate(settings.interval, settings.unit),
+        // Scheduling brought over from Anki replaces the deck default
+        ...row.schedule
+      };
+    });
+    
+    await importFlashcards(cards, user.uid);
+    recountFlashcards();
+    setIsImportOpen(false);
+  };
+
+  const handleExportDeck = async () => {
+    setError(null);
+    
+    try {
+      const exported = hasMoreFlashcards
+        ? filterFlashcardsByDeck([...await getUserFlashcards(user.uid), ...teamFlashcards], selectedDeck)
+        : visibleFlashcards;
+      const packageBlob = await createAnkiPackage(exported, decks);
+      downloadBlob(packageBlob, toFileName(getDeckSelectionName(decks, selectedDeck), 'apkg'));
+    } catch (err) {
+      console.error('Error exporting deck:', err);
+      setError('Failed to export deck. Please try again.');
+    }
+  };
+
+  const handleExportBackup = async () => {
+    const backup = createBackup(user.uid, await getAccountData(user.uid));
+    const stamp = backup.exportedAt.toISOString().slice(0, 10);
+    downloadBlob(
+      new Blob([serializeBackup(backup)], { type: 'application/json' }),
+      toFileName(`flashcards-backup-${stamp}`, 'json')
+    );
+  };
+
+  const handleRestoreBackup = async (
+    backup: AccountBackup,
+    mode: RestoreMode,
+    conflictStrategy: RestoreConflictStrategy
+  ) => {
+    await restoreAccountData(user.uid, backup, mode, conflictStrategy);
+    recountFlashcards();
+    setIsBackupOpen(false);
+    setSelectedDeck(ALL_DECKS);
+  };
+
+  const handleCreateDeck = async (name: string, deckRevisionSettings: RevisionSettings) => {
+    if (!user?.uid) return;
+    
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const deckId = await addDeck({ name, userId: user.uid, revisionSettings: deckRevisionSettings }, user.uid);
+      setSelectedDeck(deckId);
+    } catch (err) {
+      console.error('Error creating deck:', err);
+      setError('Failed to create deck. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpdateDeck = async (deckId: string, name: string, deckRevisionSettings: RevisionSettings) => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      await updateDeck(deckId, { name, revisionSettings: deckRevisionSettings });
+    } catch (err) {
+      console.error('Error updating deck:', err);
+      setError('Failed to update deck. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteDeck = async (deckId: string, cardAction: DeckCardAction, targetDeckId?: string) => {
+    if (!user?.uid) return;
+    
     setLoading(true);
     setError(null);
     
     try {
-      await updateFlashcard(id, { front, back });
-      setFlashcards(prev => 
-        prev.map(card => 
-          card.id === id ? { ...card, front, back } : card
-        )
+      await deleteDeck(deckId, user.uid, cardAction, targetDeckId);
+      if (selectedDeck === deckId || decks.length === 1) {
+        setSelectedDeck(ALL_DECKS);
+      }
+    } catch (err) {
+      console.error('Error deleting deck:', err);
+      setError('Failed to delete deck. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Publish a snapshot of every card in the deck and show its link
+  const handleShareDeck = async (deckId: string) => {
+    const deck = decks.find(d => d.id === deckId);
+    if (!deck) return;
+    
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const cards = filterFlashcardsByDeck(
+        hasMoreFlashcards ? [...await getUserFlashcards(user.uid), ...teamFlashcards] : flashcards,
+        deckId
       );
+      const id = await shareDeck(deck, cards, deckUser);
+      setSharedDeckId(id);
+      setIsShareOpen(true);
+    } catch (err) {
+      console.error('Error sharing deck:', err);
+      setError('Failed to share deck. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAnswerInvite = async (deck: Deck, accept: boolean) => {
+    setError(null);
+    
+    try {
+      await answerDeckInvite(deck, deckUser, accept);
+    } catch (err) {
+      console.error('Error answering deck invite:', err);
+      setError('Failed to answer the invite. Please try again.');
+    }
+  };
+
+  const handleUpdateFlashcard = async (
+    id: string,
+    front: string,
+    back: string,
+    tags: string[],
+    acceptedAnswers: string[],
+    format: CardFormat,
+    attachments: CardAttachment[],
+    addReverse: boolean
+  ) => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const previous = flashcards.find(card => card.id === id);
+      if (previous?.noteId && isClozeCard(previous)) {
+        await updateClozeNote(previous, { front, back, tags, format, attachments });
+        return;
+      }
+      const content = { front, back, tags, acceptedAnswers, format, attachments };
+      // The service copies content to linked cards, such as the reverse of this one,
+      // and deletes removed files once the edit is accepted
+      await updateFlashcard(id, content);
+      if (addReverse && previous) {
+        await handleAddReverseCard({ ...previous, ...content });
+      }
     } catch (err) {
       console.error('Error updating flashcard:', err);
       setError('Failed to update flashcard. Please try again.');
@@ -122,13 +596,59 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
     }
   };
 
+  // Link a new reverse card to a basic card; it starts with the deck's interval like a new card
+  const handleAddReverseCard = async (source: FlashcardData) => {
+    const deck = decks.find(d => d.id === source.deckId);
+    const settings = deck?.revisionSettings || source.revisionSettings || { interval: 7, unit: 'days' as TimeUnit };
+    const schedule = {
+      revisionSettings: settings,
+      nextRevision: getNextRevisionDate(settings.interval, settings.unit)
+    };
+    await addReverseCard(source, schedule, user.uid);
+    recountFlashcards();
+  };
+
+  // Save an edited cloze note to all of its cards, adding and removing cards as deletions change
+  const updateClozeNote = async (edited: FlashcardData, updates: NoteUpdates & Pick<FlashcardData, 'front' | 'back'>) => {
+    const siblings = flashcards.filter(card => card.noteId === edited.noteId);
+    const indices = getClozeIndices(updates.front);
+    const existingIndices = new Set(siblings.map(card => card.clozeIndex));
+    const kept = siblings.filter(card => card.clozeIndex && indices.includes(card.clozeIndex));
+    const removed = siblings.filter(card => !kept.includes(card));
+    const deck = decks.find(d => d.id === edited.deckId);
+    const settings = deck?.revisionSettings || edited.revisionSettings || { interval: 7, unit: 'days' as TimeUnit };
+    const added = indices
+      .filter(index => !existingIndices.has(index))
+      .map(clozeIndex => ({
+        ...updates,
+        cardType: 'cloze' as const,
+        clozeIndex,
+        noteId: edited.noteId,
+        userId: user.uid,
+        deckId: edited.deckId,
+        revisionSettings: settings,
+        nextRevision: getNextRevisionDate(settings.interval, settings.unit)
+      }));
+    
+    await updateNoteCards(
+      kept.map(card => card.id),
+      updates,
+      removed.map(card => card.id),
+      added,
+      user.uid
+    );
+    if (added.length > 0 || removed.length > 0) {
+      recountFlashcards();
+    }
+  };
+
   const handleDeleteFlashcard = async (id: string) => {
     setLoading(true);
     setError(null);
     
     try {
       await deleteFlashcard(id);
-      setFlashcards(prev => prev.filter(card => card.id !== id));
+      recountFlashcards();
     } catch (err) {
       console.error('Error deleting flashcard:', err);
       setError('Failed to delete flashcard. Please try again.');
@@ -137,37 +657,28 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
     }
   };
 
-  const handleMarkReviewed = async (id: string) => {
+  // Reschedule a card from a recall grade and persist the result
+  const reviewFlashcard = async (
+    id: string,
+    grade: ReviewGrade,
+    source: ReviewSource = 'manual',
+    responseTimeMs?: number
+  ) => {
+    const flashcard = flashcards.find(card => card.id === id);
+    if (!flashcard || !user?.uid) return;
+    
+    const now = new Date();
+    const result = scheduleReview(flashcard, grade, now);
+    
+    await recordFlashcardReview(flashcard, result, { userId: user.uid, source, outcome: grade, responseTimeMs }, now);
+  };
+
+  const handleMarkReviewed = async (id: string, grade: ReviewGrade) => {
     setLoading(true);
     setError(null);
     
     try {
-      const flashcard = flashcards.find(card => card.id === id);
-      if (!flashcard) return;
-      
-      const now = new Date();
-      let nextRevision: Date;
-      
-      if (flashcard.revisionSettings) {
-        nextRevision = getNextRevisionDate(flashcard.revisionSettings.interval, flashcard.revisionSettings.unit);
-      } else {
-        // Legacy support
-        nextRevision = new Date();
-        nextRevision.setDate(now.getDate() + (flashcard.revisionInterval || 7));
-      }
-      
-      await updateFlashcardRevision(id, flashcard.revisionInterval || 7, nextRevision);
-      
-      setFlashcards(prev => 
-        prev.map(card => 
-          card.id === id ? { 
-            ...card, 
-            lastReviewed: now,
-            nextRevision: nextRevision,
-            reviewCount: (card.reviewCount || 0) + 1
-          } : card
-        )
-      );
+      await reviewFlashcard(id, grade);
     } catch (err) {
       console.error('Error marking flashcard as reviewed:', err);
       setError('Failed to mark flashcard as reviewed. Please try again.');
@@ -178,8 +689,11 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
 
   const handleSignOut = async () => {
     try {
+      // Stop listening first; the listeners would fail once the user is signed out
+      listenersRef.current.forEach((unsubscribe) => unsubscribe());
+      const { auth } = await import('../firebase');
       await signOut(auth);
-      onSignOut();
+      onSignOut?.();
     } catch (error) {
       console.error('Error signing out:', error);
     }
@@ -188,13 +702,32 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
   const handleCloseModal = () => {
     setNewFront('');
     setNewBack('');
+    setNewTags('');
+    setNewAccepted('');
+    setNewIsMarkdown(false);
+    // The card was never created, so its uploads are orphans
+    deleteAttachments(newAttachments);
+    setNewAttachments([]);
     setIsModalOpen(false);
   };
 
   const handleOpenModal = () => {
+    const deck = editableDecks.find(d => d.id === selectedDeck);
+    setNewDeckId(deck?.id || '');
+    if (deck?.revisionSettings) {
+      setRevisionSettings(deck.revisionSettings);
+    }
     setIsModalOpen(true);
   };
 
+  const handleNewDeckChange = (deckId: string) => {
+    setNewDeckId(deckId);
+    const deck = decks.find(d => d.id === deckId);
+    if (deck?.revisionSettings) {
+      setRevisionSettings(deck.revisionSettings);
+    }
+  };
+
   return (
     <div className="dashboard">
       <header className="dashboard-header">
@@ -202,81 +735,244 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
           <h1>FLASHCARDS DASHBOARD</h1>
           <div className="user-info">
             <span>Welcome, {user.displayName || user.email}!</span>
-            <button onClick={handleSignOut} className="sign-out-btn">
-              Sign Out
+            <SyncStatusIndicator />
+            <button 
+              onClick={() => setView(view === 'stats' ? 'cards' : 'stats')}
+              className="stats-toggle-btn"
+            >
+              {view === 'stats' ? 'Cards' : 'Statistics'}
+            </button>
+            <button 
+              onClick={() => setIsBackupOpen(true)}
+              className="stats-toggle-btn"
+            >
+              Backup
+            </button>
+            <button 
+              onClick={() => setIsShareOpen(true)}
+              className="stats-toggle-btn"
+            >
+              Shared
             </button>
+            {onSignOut && (
+              <button onClick={handleSignOut} className="sign-out-btn">
+                Sign Out
+              </button>
+            )}
           </div>
         </div>
       </header>
 
       <main className="dashboard-main">
+        <DeckSidebar
+          decks={decks}
+          userId={user.uid}
+          flashcards={flashcards}
+          counts={deckCounts ?? undefined}
+          selectedDeck={selectedDeck}
+          onSelectDeck={setSelectedDeck}
+          onCreateDeck={handleCreateDeck}
+          onUpdateDeck={handleUpdateDeck}
+          onDeleteDeck={handleDeleteDeck}
+          onShareDeck={handleShareDeck}
+          // Team decks are kept in sync through Firestore, so local backends have no members
+          onManageMembers={dataBackend === 'firestore' ? setMembersDeckId : undefined}
+          disabled={loading}
+        />
         <div className="dashboard-content">
-          <div className="flashcards-header">
-            <h2>Your Flashcards ({flashcards.length})</h2>
-            <div className="header-actions">
-              {flashcards.length > 0 && (
+          {view === 'stats' ? (
+            <>
+              <div className="flashcards-header">
+                <h2>Statistics</h2>
+                <div className="header-actions">
+                  <button 
+                    onClick={() => setView('cards')}
+                    className="stats-toggle-btn"
+                  >
+                    Back to Cards
+                  </button>
+                </div>
+              </div>
+              <StatsView flashcards={flashcards} userId={user.uid} />
+            </>
+          ) : (
+            <>
+            <div className="flashcards-header">
+              <h2>
+                {getDeckSelectionName(decks, selectedDeck)} ({deckCounts
+                  ? `${visibleFlashcards.length} of ${deckCounts[selectedDeck] ?? 0}`
+                  : visibleFlashcards.length})
+              </h2>
+              <div className="header-actions">
+                {visibleFlashcards.length > 0 && (
+                  <button 
+                    onClick={() => setIsStudyOpen(true)}
+                    className="study-due-btn"
+                    disabled={loading}
+                  >
+                    Review Due
+                    <span className={`due-badge ${dueFlashcards.length === 0 ? 'empty' : ''}`}>
+                      {dueFlashcards.length}{hasMoreFlashcards ? '+' : ''}
+                    </span>
+                  </button>
+                )}
+                {displayedFlashcards.length > 0 && (
+                  <button 
+                    onClick={() => setIsRapidFireOpen(true)}
+                    className="rapid-fire-btn"
+                    disabled={loading}
+                  >
+                    Rapid Fire
+                  </button>
+                )}
+                {/* Rooms are played live through Firestore, so local backends can't host them */}
+                {dataBackend === 'firestore' && (
+                  <button 
+                    onClick={() => setIsRoomOpen(true)}
+                    className="rapid-fire-btn"
+                    disabled={loading}
+                    title="Host or join a Rapid Fire room with others"
+                  >
+                    Multiplayer
+                  </button>
+                )}
                 <button 
-                  onClick={() => setIsRapidFireOpen(true)}
-                  className="rapid-fire-btn"
+                  onClick={() => setIsImportOpen(true)}
+                  className="import-btn"
                   disabled={loading}
                 >
-                  Rapid Fire
+                  Import
                 </button>
-              )}
-              <button 
-                onClick={handleOpenModal}
-                className="add-flashcard-btn"
-                disabled={loading}
-              >
-                {loading ? 'Loading...' : '+ Add New Flashcard'}
-              </button>
-            </div>
-          </div>
-
-          {error && (
-            <div className="error-banner">
-              <span>{error}</span>
-              <button onClick={() => setError(null)} className="error-close">
-                ×
-              </button>
-            </div>
-          )}
-
-          {loading && flashcards.length === 0 && (
-            <div className="loading-state">
-              <div className="loading-spinner"></div>
-              <p>Loading your flashcards...</p>
-            </div>
-          )}
-
-
-          {!loading && (
-            <div className="flashcards-grid">
-              {flashcards.length === 0 ? (
-                <div className="empty-state">
-                  <div className="empty-icon">📝</div>
-                  <h3>No flashcards yet</h3>
-                  <p>Create your first flashcard to get started!</p>
+                {visibleFlashcards.length > 0 && (
                   <button 
-                    onClick={handleOpenModal}
-                    className="create-first-btn"
+                    onClick={handleExportDeck}
+                    className="import-btn"
                     disabled={loading}
+                    title="Download these cards as an Anki package (.apkg)"
                   >
-                    Create Your First Flashcard
+                    Export
                   </button>
-                </div>
-              ) : (
-                flashcards.map(flashcard => (
-                  <Flashcard
-                    key={flashcard.id}
-                    flashcard={flashcard}
-                    onUpdate={handleUpdateFlashcard}
-                    onDelete={handleDeleteFlashcard}
-                    onMarkReviewed={handleMarkReviewed}
-                  />
-                ))
-              )}
+                )}
+                <button 
+                  onClick={handleOpenModal}
+                  className="add-flashcard-btn"
+                  disabled={loading}
+                >
+                  {loading ? 'Loading...' : '+ Add New Flashcard'}
+                </button>
+              </div>
             </div>
+
+            {deckInvites.map(deck => (
+              <div key={deck.id} className="invite-banner">
+                <span>
+                  {(deck.userId && deck.members?.[deck.userId]?.name) || 'Someone'} invited you to the team deck "{deck.name}"
+                  as {getInvitedRole(deck) === 'viewer' ? 'a viewer' : `an ${getInvitedRole(deck)}`}.
+                </span>
+                <button onClick={() => handleAnswerInvite(deck, true)} className="invite-btn">
+                  Accept
+                </button>
+                <button onClick={() => handleAnswerInvite(deck, false)} className="invite-btn decline">
+                  Decline
+                </button>
+              </div>
+            ))}
+
+            {error && (
+              <div className="error-banner">
+                <span>{error}</span>
+                <button onClick={() => setError(null)} className="error-close">
+                  ×
+                </button>
+              </div>
+            )}
+
+            {loading && flashcards.length === 0 && (
+              <div className="loading-state">
+                <div className="loading-spinner"></div>
+                <p>Loading your flashcards...</p>
+              </div>
+            )}
+
+
+            {visibleFlashcards.length > 0 && (
+              <FilterBar
+                filters={filters}
+                tags={getAllTags(visibleFlashcards)}
+                onChange={setFilters}
+              />
+            )}
+
+            {displayedFlashcards.length > 0 && (
+              <BulkActionBar
+                selectedCount={selectedFlashcards.length}
+                matchingCount={matchingCount}
+                decks={editableDecks}
+                disabled={loading || isSelectingAll}
+                onSelectAll={() => setIsSelectingAll(true)}
+                onClearSelection={handleClearSelection}
+                onDelete={() => handleBulkAction({ type: 'delete' }, 'delete')}
+                onMove={(deckId) => handleBulkAction({ type: 'move', deckId }, 'move')}
+                onUpdateTags={(add, remove) => handleBulkAction({ type: 'tags', add, remove }, 'retag')}
+                onReschedule={(nextRevision) => handleBulkAction({ type: 'reschedule', nextRevision }, 'reschedule')}
+              />
+            )}
+
+            {!loading && displayedFlashcards.length > 0 && (
+              <div className="flashcards-list">
+                <VirtualGrid
+                  items={displayedFlashcards}
+                  getKey={flashcard => flashcard.id}
+                  minColumnWidth={CARD_MIN_WIDTH}
+                  rowHeight={CARD_ROW_HEIGHT}
+                  gap={CARD_GAP}
+                  onEndReached={hasMoreFlashcards ? handleLoadMoreFlashcards : undefined}
+                  renderItem={flashcard => (
+                    <Flashcard
+                      flashcard={flashcard}
+                      onUpdate={handleUpdateFlashcard}
+                      canAddReverse={canAddReverseCard(flashcard)}
+                      canEdit={canEditFlashcard(flashcard, decks, user.uid)}
+                      onDelete={handleDeleteFlashcard}
+                      onMarkReviewed={handleMarkReviewed}
+                      onTagClick={(tag) => setFilters(prev => ({ ...prev, tag }))}
+                      onShowHistory={setHistoryFlashcardId}
+                      isSelected={selectedIds.has(flashcard.id)}
+                      onSelect={handleSelectFlashcard}
+                    />
+                  )}
+                />
+                {hasMoreFlashcards && (
+                  <p className="load-more-state">Loading more flashcards...</p>
+                )}
+              </div>
+            )}
+
+            {!loading && displayedFlashcards.length === 0 && (
+              <div className="flashcards-grid">
+                {visibleFlashcards.length > 0 ? (
+                  <div className="empty-state">
+                    <div className="empty-icon">🔍</div>
+                    <h3>No matching flashcards</h3>
+                    <p>Try a different search or clear the filters.</p>
+                  </div>
+                ) : (
+                  <div className="empty-state">
+                    <div className="empty-icon">📝</div>
+                    <h3>{selectedDeck === ALL_DECKS ? 'No flashcards yet' : 'This deck is empty'}</h3>
+                    <p>Create your first flashcard to get started!</p>
+                    <button 
+                      onClick={handleOpenModal}
+                      className="create-first-btn"
+                      disabled={loading}
+                    >
+                      Create Your First Flashcard
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+            </>
           )}
         </div>
       </main>
@@ -288,28 +984,127 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
       >
         <div className="modal-flashcard-form">
           <div className="form-group">
-            <label htmlFor="new-front">Front Side</label>
+            <label htmlFor="new-card-type">Card Type</label>
+            <select
+              id="new-card-type"
+              value={newCardType}
+              onChange={(e) => setNewCardType(e.target.value as CardType)}
+              className="form-select"
+            >
+              <option value="basic">Basic (front and back)</option>
+              <option value="cloze">Cloze deletion</option>
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="new-front">{newCardType === 'cloze' ? 'Text' : 'Front Side'}</label>
             <textarea
               id="new-front"
               value={newFront}
               onChange={(e) => setNewFront(e.target.value)}
-              placeholder="Enter the front side of your flashcard..."
+              placeholder={newCardType === 'cloze'
+                ? 'The capital of {{c1::France}} is {{c2::Paris}}'
+                : 'Enter the front side of your flashcard...'}
               className="form-textarea"
               rows={4}
               autoFocus
             />
+            {newCardType === 'cloze' && (
+              <p className="form-hint">
+                {newClozeIndices.length > 0
+                  ? `Creates ${newClozeIndices.length} card${newClozeIndices.length === 1 ? '' : 's'}, one per cloze number`
+                  : 'Wrap each answer in {{c1::...}}; use c2, c3... for separate cards, or {{c1::answer::hint}} for a hint'}
+              </p>
+            )}
           </div>
           <div className="form-group">
-            <label htmlFor="new-back">Back Side</label>
+            <label htmlFor="new-back">{newCardType === 'cloze' ? 'Extra (optional)' : 'Back Side'}</label>
             <textarea
               id="new-back"
               value={newBack}
               onChange={(e) => setNewBack(e.target.value)}
-              placeholder="Enter the back side of your flashcard..."
+              placeholder={newCardType === 'cloze'
+                ? 'Notes shown under the answer...'
+                : 'Enter the back side of your flashcard...'}
               className="form-textarea"
               rows={4}
             />
           </div>
+          <div className="form-group new-card-attachments">
+            <span className="new-card-attachments-label">Front attachments</span>
+            <AttachmentEditor userId={user.uid} side="front" attachments={newAttachments} onChange={setNewAttachments} />
+            <span className="new-card-attachments-label">Back attachments</span>
+            <AttachmentEditor userId={user.uid} side="back" attachments={newAttachments} onChange={setNewAttachments} />
+          </div>
+          <div className="form-group">
+            <label className="form-checkbox">
+              <input
+                type="checkbox"
+                checked={newIsMarkdown}
+                onChange={(e) => setNewIsMarkdown(e.target.checked)}
+              />
+              Format as Markdown (code blocks and $LaTeX$ supported)
+            </label>
+          </div>
+          {newIsMarkdown && (newFront.trim() || newBack.trim()) && (
+            <div className="new-card-preview">
+              <span className="new-card-preview-label">Preview</span>
+              <CardContent text={newFront} format="markdown" />
+              <hr />
+              <CardContent text={newBack} format="markdown" />
+            </div>
+          )}
+          {newCardType === 'basic' && (
+            <div className="form-group">
+              <label className="form-checkbox">
+                <input
+                  type="checkbox"
+                  checked={newWithReverse}
+                  onChange={(e) => setNewWithReverse(e.target.checked)}
+                />
+                Also create a reverse card (back → front), scheduled separately
+              </label>
+            </div>
+          )}
+          {newCardType === 'basic' && (
+            <div className="form-group">
+              <label htmlFor="new-accepted">Also Accept (optional)</label>
+              <input
+                type="text"
+                id="new-accepted"
+                value={newAccepted}
+                onChange={(e) => setNewAccepted(e.target.value)}
+                placeholder="Alternative answers for quizzes, separated by |"
+                className="form-input"
+              />
+            </div>
+          )}
+          <div className="form-group">
+            <label htmlFor="new-tags">Tags</label>
+            <input
+              type="text"
+              id="new-tags"
+              value={newTags}
+              onChange={(e) => setNewTags(e.target.value)}
+              placeholder="e.g. chemistry, exam-1"
+              className="form-input"
+            />
+          </div>
+          {editableDecks.length > 0 && (
+            <div className="form-group">
+              <label htmlFor="new-deck">Deck</label>
+              <select
+                id="new-deck"
+                value={newDeckId}
+                onChange={(e) => handleNewDeckChange(e.target.value)}
+                className="form-select"
+              >
+                <option value="">No deck</option>
+                {editableDecks.map(deck => (
+                  <option key={deck.id} value={deck.id}>{deck.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
           <div className="form-group">
             <label htmlFor="revision-settings">Revision Interval</label>
             <div className="revision-input-group">
@@ -345,7 +1140,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
             <button 
               onClick={handleAddFlashcard}
               className="save-new-btn"
-              disabled={!newFront.trim() || !newBack.trim()}
+              disabled={!canCreateFlashcard}
             >
               Create Flashcard
             </button>
@@ -359,14 +1154,103 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
         </div>
       </Modal>
 
+      <Modal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        title="Import Flashcards"
+      >
+        <ImportDialog
+          decks={editableDecks}
+          defaultDeckId={editableDecks.some(deck => deck.id === selectedDeck) ? selectedDeck : ''}
+          onImport={handleImportFlashcards}
+          onCancel={() => setIsImportOpen(false)}
+        />
+      </Modal>
+
+      <Modal
+        isOpen={isBackupOpen}
+        onClose={() => setIsBackupOpen(false)}
+        title="Backup & Restore"
+      >
+        <BackupDialog
+          userId={user.uid}
+          flashcards={flashcards}
+          decks={decks}
+          onExport={handleExportBackup}
+          onRestore={handleRestoreBackup}
+          onClose={() => setIsBackupOpen(false)}
+        />
+      </Modal>
+
+      <Modal
+        isOpen={isShareOpen}
+        onClose={() => {
+          setIsShareOpen(false);
+          setSharedDeckId(null);
+        }}
+        title="Shared Decks"
+      >
+        <ShareDialog userId={user.uid} highlightedId={sharedDeckId} />
+      </Modal>
+
+      <Modal
+        isOpen={membersDeck !== undefined}
+        onClose={() => setMembersDeckId(null)}
+        title={`Members of "${membersDeck?.name ?? ''}"`}
+      >
+        {membersDeck && (
+          <DeckMembersDialog
+            deck={membersDeck}
+            user={deckUser}
+            onLeave={() => {
+              setMembersDeckId(null);
+              setSelectedDeck(ALL_DECKS);
+            }}
+          />
+        )}
+      </Modal>
+
+      <Modal
+        isOpen={historyFlashcard !== undefined}
+        onClose={() => setHistoryFlashcardId(null)}
+        title="Review History"
+      >
+        {historyFlashcard && (
+          <ReviewHistory flashcard={historyFlashcard} userId={user.uid} />
+        )}
+      </Modal>
+
+      {/* Study Session Modal */}
+      {/* The study modes wait for the whole collection, which opening them starts loading */}
+      {isStudyOpen && !hasMoreFlashcards && (
+        <StudySession
+          flashcards={dueFlashcards}
+          onReview={(id, grade, responseTimeMs) => reviewFlashcard(id, grade, 'study-session', responseTimeMs)}
+          onClose={() => setIsStudyOpen(false)}
+        />
+      )}
+
       {/* Rapid Fire Modal */}
-      {isRapidFireOpen && (
+      {isRapidFireOpen && !hasMoreFlashcards && (
         <RapidFire 
-          flashcards={flashcards}
+          flashcards={displayedFlashcards}
+          userId={user.uid}
           onClose={() => setIsRapidFireOpen(false)}
         />
       )}
 
+      {/* Multiplayer Rapid Fire Modal */}
+      {isRoomOpen && !hasMoreFlashcards && (
+        <Suspense fallback={null}>
+          <RapidFireRoom
+            flashcards={displayedFlashcards}
+            deckName={getDeckSelectionName(decks, selectedDeck)}
+            user={deckUser}
+            onClose={() => setIsRoomOpen(false)}
+          />
+        </Suspense>
+      )}
+
     </div>
   );
 };
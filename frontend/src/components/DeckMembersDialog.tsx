@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import type { Deck, DeckMember, DeckRole } from '../types/deck';
+import type { DeckUser } from '../services/flashcardRepository';
+import { inviteDeckMember, cancelDeckInvite, setDeckMemberRole } from '../services/repository';
+import { getDeckRole } from '../utils/deckUtils';
+import './ShareDialog.css';
+import './DeckMembersDialog.css';
+
+interface DeckMembersDialogProps {
+  deck: Deck;
+  user: DeckUser;
+  onLeave: () => void;
+}
+
+const ROLE_LABELS: Record<DeckRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer'
+};
+
+const ROLE_ORDER: DeckRole[] = ['owner', 'editor', 'viewer'];
+
+const DeckMembersDialog: React.FC<DeckMembersDialogProps> = ({ deck, user, onLeave }) => {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<DeckRole>('editor');
+  const [error, setError] = useState<string | null>(null);
+
+  const isOwner = getDeckRole(deck, user.userId) === 'owner';
+  const creatorId = deck.userId ?? user.userId;
+  // A deck nobody has been invited to yet only has its creator
+  const members: Record<string, DeckMember> = deck.members || { [creatorId]: { name: user.displayName, role: 'owner' } };
+  const sortedMembers = Object.entries(members).sort(([, a], [, b]) =>
+    ROLE_ORDER.indexOf(a.role) - ROLE_ORDER.indexOf(b.role) || a.name.localeCompare(b.name)
+  );
+  const invites = Object.entries(deck.invites || {}).sort(([a], [b]) => a.localeCompare(b));
+  const inviteEmail = email.trim().toLowerCase();
+  const canInvite = inviteEmail.includes('@') && !deck.invites?.[inviteEmail] && inviteEmail !== user.email?.toLowerCase();
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canInvite) return;
+    setError(null);
+
+    try {
+      await inviteDeckMember(deck, inviteEmail, role, user);
+      setEmail('');
+    } catch (err) {
+      console.error('Error inviting deck member:', err);
+      setError('Failed to send the invite. Please try again.');
+    }
+  };
+
+  const handleCancelInvite = async (inviteKey: string) => {
+    setError(null);
+
+    try {
+      await cancelDeckInvite(deck.id, inviteKey);
+    } catch (err) {
+      console.error('Error cancelling deck invite:', err);
+      setError('Failed to cancel the invite. Please try again.');
+    }
+  };
+
+  const handleChangeRole = async (memberId: string, nextRole: DeckRole | null) => {
+    if (nextRole === null && !window.confirm(`Remove ${members[memberId]?.name} from "${deck.name}"? The cards they added stay in the deck.`)) {
+      return;
+    }
+    setError(null);
+
+    try {
+      await setDeckMemberRole(deck.id, memberId, nextRole);
+    } catch (err) {
+      console.error('Error updating deck member:', err);
+      setError('Failed to update the member. Please try again.');
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!window.confirm(`Leave "${deck.name}"? You'll need a new invite to rejoin.`)) {
+      return;
+    }
+    setError(null);
+
+    try {
+      await setDeckMemberRole(deck.id, user.userId, null);
+      onLeave();
+    } catch (err) {
+      console.error('Error leaving deck:', err);
+      setError('Failed to leave the deck. Please try again.');
+    }
+  };
+
+  return (
+    <div className="share-dialog">
+      <p className="share-dialog-hint">
+        Owners manage the deck and its members, editors add, edit and delete its cards, and viewers study them.
+        Everyone keeps their own review schedule.
+      </p>
+
+      {error && <p className="share-dialog-error">{error}</p>}
+
+      <ul className="share-list">
+        {sortedMembers.map(([memberId, member]) => (
+          <li key={memberId} className="member-item">
+            <span className="member-name">
+              {member.name}{memberId === user.userId ? ' (you)' : ''}
+            </span>
+            {/* The creator stays an owner so the deck always has one */}
+            {isOwner && memberId !== creatorId ? (
+              <>
+                <select
+                  value={member.role}
+                  onChange={(e) => handleChangeRole(memberId, e.target.value as DeckRole)}
+                  className="member-role-select"
+                  aria-label={`Role of ${member.name}`}
+                >
+                  {ROLE_ORDER.map(option => (
+                    <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+                  ))}
+                </select>
+                {memberId !== user.userId && (
+                  <button onClick={() => handleChangeRole(memberId, null)} className="share-btn revoke">
+                    Remove
+                  </button>
+                )}
+              </>
+            ) : (
+              <span className="member-role">{ROLE_LABELS[member.role]}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {isOwner && invites.length > 0 && (
+        <ul className="share-list">
+          {invites.map(([inviteKey, invitedRole]) => (
+            <li key={inviteKey} className="member-item pending">
+              <span className="member-name">{inviteKey}</span>
+              <span className="member-role">{ROLE_LABELS[invitedRole]}, invited</span>
+              <button onClick={() => handleCancelInvite(inviteKey)} className="share-btn revoke">
+                Cancel
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isOwner && (
+        <form onSubmit={handleInvite} className="member-invite-form">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email address"
+            className="share-link-input"
+            aria-label="Email address to invite"
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as DeckRole)}
+            className="member-role-select"
+            aria-label="Role to invite as"
+          >
+            {ROLE_ORDER.map(option => (
+              <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+            ))}
+          </select>
+          <button type="submit" className="share-btn" disabled={!canInvite}>
+            Invite
+          </button>
+        </form>
+      )}
+
+      {isOwner && (
+        <p className="share-dialog-hint">
+          Invites are matched to the email address people sign in with, once they have verified it.
+        </p>
+      )}
+
+      {creatorId !== user.userId && (
+        <div className="member-leave">
+          <button onClick={handleLeave} className="share-btn revoke">
+            Leave Deck
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeckMembersDialog;
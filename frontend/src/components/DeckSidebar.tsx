@@ -0,0 +1,296 @@
+import React, { useState } from 'react';
+import type { FlashcardData, RevisionSettings, TimeUnit } from '../types/flashcard';
+import type { Deck, DeckCardAction } from '../types/deck';
+import { ALL_DECKS, UNASSIGNED_DECK, canEditDeckCards, countFlashcardsByDeck, getDeckRole, isTeamDeck } from '../utils/deckUtils';
+import Modal from './Modal';
+import './DeckSidebar.css';
+
+interface DeckSidebarProps {
+  decks: Deck[];
+  userId: string; // decks the user only edits or views as a team member can't be changed here
+  flashcards: FlashcardData[];
+  // Counts per deck selection from the server, used while only some cards are loaded
+  counts?: Record<string, number>;
+  selectedDeck: string;
+  onSelectDeck: (deckSelection: string) => void;
+  onCreateDeck: (name: string, revisionSettings: RevisionSettings) => void;
+  onUpdateDeck: (deckId: string, name: string, revisionSettings: RevisionSettings) => void;
+  onDeleteDeck: (deckId: string, cardAction: DeckCardAction, targetDeckId?: string) => void;
+  onShareDeck?: (deckId: string) => void;
+  onManageMembers?: (deckId: string) => void;
+  disabled?: boolean;
+}
+
+const DEFAULT_DECK_SETTINGS: RevisionSettings = { interval: 7, unit: 'days' };
+
+const DeckSidebar: React.FC<DeckSidebarProps> = ({
+  decks,
+  userId,
+  flashcards,
+  counts: serverCounts,
+  selectedDeck,
+  onSelectDeck,
+  onCreateDeck,
+  onUpdateDeck,
+  onDeleteDeck,
+  onShareDeck,
+  onManageMembers,
+  disabled
+}) => {
+  const [editingDeck, setEditingDeck] = useState<Deck | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [deckName, setDeckName] = useState('');
+  const [deckSettings, setDeckSettings] = useState<RevisionSettings>(DEFAULT_DECK_SETTINGS);
+  const [deletingDeck, setDeletingDeck] = useState<Deck | null>(null);
+  const [cardAction, setCardAction] = useState<DeckCardAction>('move');
+  const [targetDeckId, setTargetDeckId] = useState('');
+
+  const counts = serverCounts || countFlashcardsByDeck(flashcards);
+
+  const openCreateForm = () => {
+    setEditingDeck(null);
+    setDeckName('');
+    setDeckSettings(DEFAULT_DECK_SETTINGS);
+    setIsFormOpen(true);
+  };
+
+  const openEditForm = (deck: Deck) => {
+    setEditingDeck(deck);
+    setDeckName(deck.name);
+    setDeckSettings(deck.revisionSettings || DEFAULT_DECK_SETTINGS);
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingDeck(null);
+  };
+
+  const handleSaveDeck = () => {
+    if (!deckName.trim()) return;
+
+    if (editingDeck) {
+      onUpdateDeck(editingDeck.id, deckName.trim(), deckSettings);
+    } else {
+      onCreateDeck(deckName.trim(), deckSettings);
+    }
+    closeForm();
+  };
+
+  const openDeleteDialog = (deck: Deck) => {
+    setDeletingDeck(deck);
+    setCardAction('move');
+    setTargetDeckId('');
+  };
+
+  const handleConfirmDelete = () => {
+    if (!deletingDeck) return;
+    onDeleteDeck(deletingDeck.id, cardAction, cardAction === 'move' ? targetDeckId || undefined : undefined);
+    setDeletingDeck(null);
+  };
+
+  const renderDeckItem = (deckSelection: string, name: string, deck?: Deck) => {
+    const isOwner = getDeckRole(deck, userId) === 'owner';
+    return (
+      <li
+        key={deckSelection}
+        className={`deck-item ${selectedDeck === deckSelection ? 'active' : ''}`}
+      >
+        <button
+          onClick={() => onSelectDeck(deckSelection)}
+          className="deck-select-btn"
+        >
+          <span className="deck-name">{name}</span>
+          {deck && isTeamDeck(deck) && <span className="deck-team-badge" title="Team deck">👥</span>}
+          <span className="deck-count">{counts[deckSelection] || 0}</span>
+        </button>
+        {deck && (
+          <div className="deck-item-actions">
+            {onManageMembers && (
+              <button
+                onClick={() => onManageMembers(deck.id)}
+                className="deck-action-btn"
+                title="Deck members"
+                disabled={disabled}
+              >
+                👥
+              </button>
+            )}
+            {isOwner && (
+              <button
+                onClick={() => openEditForm(deck)}
+                className="deck-action-btn"
+                title="Deck settings"
+                disabled={disabled}
+              >
+                ⚙
+              </button>
+            )}
+            {isOwner && onShareDeck && (
+              <button
+                onClick={() => onShareDeck(deck.id)}
+                className="deck-action-btn"
+                title="Share deck via link"
+                disabled={disabled}
+              >
+                🔗
+              </button>
+            )}
+            {isOwner && (
+              <button
+                onClick={() => openDeleteDialog(deck)}
+                className="deck-action-btn delete"
+                title="Delete deck"
+                disabled={disabled}
+              >
+                ×
+              </button>
+            )}
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <aside className="deck-sidebar">
+      <div className="deck-sidebar-header">
+        <h3>Decks</h3>
+        <button
+          onClick={openCreateForm}
+          className="new-deck-btn"
+          disabled={disabled}
+        >
+          + New
+        </button>
+      </div>
+
+      <ul className="deck-list">
+        {renderDeckItem(ALL_DECKS, 'All Flashcards')}
+        {decks.map(deck => renderDeckItem(deck.id, deck.name, deck))}
+        {counts[UNASSIGNED_DECK] > 0 && decks.length > 0 && renderDeckItem(UNASSIGNED_DECK, 'No Deck')}
+      </ul>
+
+      <Modal
+        isOpen={isFormOpen}
+        onClose={closeForm}
+        title={editingDeck ? 'Deck Settings' : 'Create New Deck'}
+      >
+        <div className="modal-flashcard-form">
+          <div className="form-group">
+            <label htmlFor="deck-name">Deck Name</label>
+            <input
+              type="text"
+              id="deck-name"
+              value={deckName}
+              onChange={(e) => setDeckName(e.target.value)}
+              placeholder="e.g. Biology, Spanish vocabulary..."
+              className="form-input"
+              autoFocus
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="deck-interval">Default Revision Interval</label>
+            <div className="revision-input-group">
+              <input
+                type="number"
+                id="deck-interval"
+                value={deckSettings.interval}
+                onChange={(e) => setDeckSettings(prev => ({ ...prev, interval: Number(e.target.value) }))}
+                className="form-input"
+                min="1"
+                max="999"
+              />
+              <select
+                value={deckSettings.unit}
+                onChange={(e) => setDeckSettings(prev => ({ ...prev, unit: e.target.value as TimeUnit }))}
+                className="form-select-unit"
+              >
+                <option value="seconds">seconds</option>
+                <option value="minutes">minutes</option>
+                <option value="hours">hours</option>
+                <option value="days">days</option>
+                <option value="weeks">weeks</option>
+                <option value="months">months</option>
+              </select>
+            </div>
+            <div className="revision-preview">
+              Used as the starting interval for new cards in this deck
+            </div>
+          </div>
+          {editingDeck?.clonedFrom && (
+            <p className="deck-provenance">
+              Cloned from {editingDeck.clonedFromOwner || 'someone'}'s shared deck
+              {editingDeck.clonedAt && ` on ${editingDeck.clonedAt.toLocaleDateString()}`}
+            </p>
+          )}
+          <div className="form-actions">
+            <button
+              onClick={handleSaveDeck}
+              className="save-new-btn"
+              disabled={!deckName.trim()}
+            >
+              {editingDeck ? 'Save Deck' : 'Create Deck'}
+            </button>
+            <button onClick={closeForm} className="cancel-new-btn">
+              Cancel
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      <Modal
+        isOpen={deletingDeck !== null}
+        onClose={() => setDeletingDeck(null)}
+        title={`Delete "${deletingDeck?.name ?? ''}"`}
+      >
+        <div className="modal-flashcard-form">
+          <p className="deck-delete-summary">
+            This deck contains {deletingDeck ? counts[deletingDeck.id] || 0 : 0} flashcard(s).
+          </p>
+          <label className="deck-delete-option">
+            <input
+              type="radio"
+              name="deck-card-action"
+              checked={cardAction === 'move'}
+              onChange={() => setCardAction('move')}
+            />
+            Move cards to
+            <select
+              value={targetDeckId}
+              onChange={(e) => setTargetDeckId(e.target.value)}
+              className="form-select"
+              disabled={cardAction !== 'move'}
+            >
+              <option value="">No deck</option>
+              {decks
+                .filter(deck => deck.id !== deletingDeck?.id && canEditDeckCards(getDeckRole(deck, userId)))
+                .map(deck => (
+                  <option key={deck.id} value={deck.id}>{deck.name}</option>
+                ))}
+            </select>
+          </label>
+          <label className="deck-delete-option">
+            <input
+              type="radio"
+              name="deck-card-action"
+              checked={cardAction === 'delete'}
+              onChange={() => setCardAction('delete')}
+            />
+            Delete the cards as well
+          </label>
+          <div className="form-actions">
+            <button onClick={handleConfirmDelete} className="save-new-btn delete-deck-btn">
+              Delete Deck
+            </button>
+            <button onClick={() => setDeletingDeck(null)} className="cancel-new-btn">
+              Cancel
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </aside>
+  );
+};
+
+export default DeckSidebar;
@@ -0,0 +1,77 @@
+import React from 'react';
+import type { FlashcardFilters, FlashcardSortOption, RevisionState } from '../utils/flashcardFilters';
+import { DEFAULT_FILTERS } from '../utils/flashcardFilters';
+import './FilterBar.css';
+
+interface FilterBarProps {
+  filters: FlashcardFilters;
+  tags: string[];
+  onChange: (filters: FlashcardFilters) => void;
+}
+
+const FilterBar: React.FC<FilterBarProps> = ({ filters, tags, onChange }) => {
+  const updateFilter = <K extends keyof FlashcardFilters>(key: K, value: FlashcardFilters[K]) => {
+    onChange({ ...filters, [key]: value });
+  };
+
+  const hasActiveFilters = filters.search !== '' || filters.revisionState !== 'all' || filters.tag !== '';
+
+  return (
+    <div className="filter-bar">
+      <input
+        type="search"
+        value={filters.search}
+        onChange={(e) => updateFilter('search', e.target.value)}
+        placeholder="Search cards and tags..."
+        className="filter-search"
+        aria-label="Search flashcards"
+      />
+      <select
+        value={filters.revisionState}
+        onChange={(e) => updateFilter('revisionState', e.target.value as RevisionState | 'all')}
+        className="filter-select"
+        aria-label="Filter by revision state"
+      >
+        <option value="all">Any status</option>
+        <option value="overdue">Overdue</option>
+        <option value="due-today">Due today</option>
+        <option value="upcoming">Upcoming</option>
+        <option value="never-reviewed">Never reviewed</option>
+      </select>
+      {tags.length > 0 && (
+        <select
+          value={filters.tag}
+          onChange={(e) => updateFilter('tag', e.target.value)}
+          className="filter-select"
+          aria-label="Filter by tag"
+        >
+          <option value="">All tags</option>
+          {tags.map(tag => (
+            <option key={tag} value={tag}>#{tag}</option>
+          ))}
+        </select>
+      )}
+      <select
+        value={filters.sort}
+        onChange={(e) => updateFilter('sort', e.target.value as FlashcardSortOption)}
+        className="filter-select"
+        aria-label="Sort flashcards"
+      >
+        <option value="created">Newest first</option>
+        <option value="due">Due date</option>
+        <option value="reviews">Most reviewed</option>
+        <option value="alphabetical">Alphabetical</option>
+      </select>
+      {hasActiveFilters && (
+        <button
+          onClick={() => onChange({ ...DEFAULT_FILTERS, sort: filters.sort })}
+          className="filter-clear-btn"
+        >
+          Clear
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default FilterBar;
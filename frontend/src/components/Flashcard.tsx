@@ -1,20 +1,63 @@
 import React, { useState } from 'react';
-import type { FlashcardData } from '../types/flashcard';
+import type { CardAttachment, CardFormat, CardSide, FlashcardData, ReviewGrade } from '../types/flashcard';
 import { getTimeUntilRevision } from '../utils/timeUtils';
+import { REVIEW_GRADES, scheduleReview, formatIntervalDays } from '../utils/scheduler';
+import { parseTags } from '../utils/flashcardFilters';
+import { parseAcceptedAnswers } from '../utils/answerMatching';
+import { getRemovedAttachments, getSideAttachments } from '../utils/attachments';
+import { getClozeIndices, isClozeCard } from '../utils/cloze';
+import { getCardFaces, getContentSide, isReverseCard } from '../utils/cardFaces';
+import { deleteAttachments } from '../services/storageService';
+import CardContent from './CardContent';
+import CardMedia from './CardMedia';
+import AttachmentEditor from './AttachmentEditor';
 import './Flashcard.css';
 
 interface FlashcardProps {
   flashcard: FlashcardData;
-  onUpdate: (id: string, front: string, back: string) => void;
+  onUpdate: (
+    id: string,
+    front: string,
+    back: string,
+    tags: string[],
+    acceptedAnswers: string[],
+    format: CardFormat,
+    attachments: CardAttachment[],
+    addReverse: boolean
+  ) => void;
+  canAddReverse?: boolean; // a basic card that has no linked reverse card yet
+  canEdit?: boolean; // false for cards in a team deck the user can only view
   onDelete: (id: string) => void;
-  onMarkReviewed?: (id: string) => void;
+  onMarkReviewed?: (id: string, grade: ReviewGrade) => void;
+  onTagClick?: (tag: string) => void;
+  onShowHistory?: (id: string) => void;
+  isSelected?: boolean;
+  // Shift-clicking the checkbox extends the selection from the last card clicked
+  onSelect?: (id: string, extendRange: boolean) => void;
 }
 
-const Flashcard: React.FC<FlashcardProps> = ({ flashcard, onUpdate, onDelete, onMarkReviewed }) => {
+const Flashcard: React.FC<FlashcardProps> = ({
+  flashcard,
+  onUpdate,
+  canAddReverse = false,
+  canEdit = true,
+  onDelete,
+  onMarkReviewed,
+  onTagClick,
+  onShowHistory,
+  isSelected = false,
+  onSelect
+}) => {
   const [isFlipped, setIsFlipped] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [editFront, setEditFront] = useState(flashcard.front);
   const [editBack, setEditBack] = useState(flashcard.back);
+  const [editTags, setEditTags] = useState((flashcard.tags || []).join(', '));
+  const [editAccepted, setEditAccepted] = useState((flashcard.acceptedAnswers || []).join(' | '));
+  const [editFormat, setEditFormat] = useState<CardFormat>(flashcard.format || 'plain');
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [editAttachments, setEditAttachments] = useState<CardAttachment[]>(flashcard.attachments || []);
+  const [addReverse, setAddReverse] = useState(false);
 
   const formatRevisionDate = (date: Date) => {
     const timeUntil = getTimeUntilRevision(date);
@@ -53,40 +96,151 @@ const Flashcard: React.FC<FlashcardProps> = ({ flashcard, onUpdate, onDelete, on
     };
   };
 
+  const gradeLabels: Record<ReviewGrade, string> = {
+    again: 'Again',
+    hard: 'Hard',
+    good: 'Good',
+    easy: 'Easy'
+  };
+
+  const renderReviewGrades = () => (
+    <div className="review-grades">
+      {REVIEW_GRADES.map(grade => (
+        <button
+          key={grade}
+          onClick={() => onMarkReviewed?.(flashcard.id, grade)}
+          className={`review-btn grade-${grade}`}
+          title={`Next review in ${formatIntervalDays(scheduleReview(flashcard, grade).interval)}`}
+        >
+          {gradeLabels[grade]}
+          <span className="grade-interval">{formatIntervalDays(scheduleReview(flashcard, grade).interval)}</span>
+        </button>
+      ))}
+    </div>
+  );
+
+  const isCloze = isClozeCard(flashcard);
+  const isReverse = isReverseCard(flashcard);
+  const faces = getCardFaces(flashcard);
+  const canSave = isCloze
+    ? getClozeIndices(editFront).length > 0
+    : editFront.trim() !== '' && editBack.trim() !== '';
+
+  // Start from the card as it is now; another card from the same note may have changed it
+  const handleStartEditing = () => {
+    setEditFront(flashcard.front);
+    setEditBack(flashcard.back);
+    setEditTags((flashcard.tags || []).join(', '));
+    setEditAccepted((flashcard.acceptedAnswers || []).join(' | '));
+    setEditFormat(flashcard.format || 'plain');
+    setEditAttachments(flashcard.attachments || []);
+    setAddReverse(false);
+    setIsEditing(true);
+  };
+
   const handleSave = () => {
-    if (editFront.trim() && editBack.trim()) {
-      onUpdate(flashcard.id, editFront.trim(), editBack.trim());
+    if (canSave) {
+      onUpdate(
+        flashcard.id,
+        editFront.trim(),
+        editBack.trim(),
+        parseTags(editTags),
+        parseAcceptedAnswers(editAccepted),
+        editFormat,
+        editAttachments,
+        canAddReverse && addReverse
+      );
       setIsEditing(false);
+      setIsPreviewing(false);
     }
   };
 
   const handleCancel = () => {
-    setEditFront(flashcard.front);
-    setEditBack(flashcard.back);
+    // Files uploaded during this edit are no longer needed
+    deleteAttachments(getRemovedAttachments(editAttachments, flashcard.attachments));
     setIsEditing(false);
+    setIsPreviewing(false);
+  };
+
+  const renderFormatControls = () => (
+    <div className="edit-format">
+      <label className="edit-format-toggle">
+        <input
+          type="checkbox"
+          checked={editFormat === 'markdown'}
+          onChange={(e) => {
+            setEditFormat(e.target.checked ? 'markdown' : 'plain');
+            setIsPreviewing(false);
+          }}
+        />
+        Markdown
+      </label>
+      {editFormat === 'markdown' && (
+        <button onClick={() => setIsPreviewing(!isPreviewing)} className="edit-preview-btn">
+          {isPreviewing ? 'Edit' : 'Preview'}
+        </button>
+      )}
+    </div>
+  );
+
+  // Edit the stored text for a face; a reverse card shows its stored back on the front
+  const renderTextEditor = (side: CardSide) => {
+    const contentSide = getContentSide(flashcard, side);
+    const value = contentSide === 'front' ? editFront : editBack;
+    if (isPreviewing) {
+      return <CardContent text={value} format={editFormat} className="card-text edit-preview" />;
+    }
+    const placeholder = isCloze
+      ? (contentSide === 'front' ? 'Text with {{c1::cloze}} deletions...' : 'Extra notes (optional)...')
+      : `${contentSide === 'front' ? 'Front' : 'Back'} side of the card...`;
+    return (
+      <textarea
+        value={value}
+        onChange={(e) => (contentSide === 'front' ? setEditFront : setEditBack)(e.target.value)}
+        placeholder={placeholder}
+        className="edit-textarea"
+        rows={4}
+      />
+    );
   };
 
+  const renderAttachmentEditor = (side: CardSide) =>
+    flashcard.userId && (
+      <AttachmentEditor
+        userId={flashcard.userId}
+        side={getContentSide(flashcard, side)}
+        attachments={editAttachments}
+        onChange={setEditAttachments}
+      />
+    );
+
   const handleDelete = () => {
-    if (window.confirm('Are you sure you want to delete this flashcard?')) {
+    const message = isCloze
+      ? `Delete cloze ${flashcard.clozeIndex} of this note? Its other cloze cards are kept.`
+      : 'Are you sure you want to delete this flashcard?';
+    if (window.confirm(message)) {
       onDelete(flashcard.id);
     }
   };
 
   return (
-    <div className={`flashcard ${isFlipped ? 'flipped' : ''}`}>
+    <div className={`flashcard ${isFlipped ? 'flipped' : ''} ${isSelected ? 'selected' : ''}`}>
       <div className="flashcard-inner">
         <div className="flashcard-front">
           {isEditing ? (
             <div className="edit-form">
-              <textarea
-                value={editFront}
-                onChange={(e) => setEditFront(e.target.value)}
-                placeholder="Front side of the card..."
-                className="edit-textarea"
-                rows={4}
+              {renderTextEditor('front')}
+              {renderFormatControls()}
+              {renderAttachmentEditor('front')}
+              <input
+                type="text"
+                value={editTags}
+                onChange={(e) => setEditTags(e.target.value)}
+                placeholder="Tags, comma separated"
+                className="edit-tags-input"
               />
               <div className="edit-actions">
-                <button onClick={handleSave} className="save-btn">
+                <button onClick={handleSave} className="save-btn" disabled={!canSave}>
                   Save
                 </button>
                 <button onClick={handleCancel} className="cancel-btn">
@@ -96,7 +250,32 @@ const Flashcard: React.FC<FlashcardProps> = ({ flashcard, onUpdate, onDelete, on
             </div>
           ) : (
             <div className="card-content">
-              <p className="card-text">{flashcard.front}</p>
+              {onSelect && (
+                <input
+                  type="checkbox"
+                  checked={isSelected}
+                  onChange={(e) => onSelect(flashcard.id, (e.nativeEvent as MouseEvent).shiftKey)}
+                  className="card-select"
+                  aria-label="Select flashcard"
+                />
+              )}
+              {isCloze && <span className="card-type-badge">Cloze {flashcard.clozeIndex}</span>}
+              {isReverse && <span className="card-type-badge">Reverse</span>}
+              <CardContent text={faces.front} format={flashcard.format} className="card-text" />
+              <CardMedia attachments={getSideAttachments(flashcard, 'front')} />
+              {flashcard.tags && flashcard.tags.length > 0 && (
+                <div className="card-tags">
+                  {flashcard.tags.map(tag => (
+                    <button
+                      key={tag}
+                      onClick={() => onTagClick?.(tag)}
+                      className="card-tag"
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                </div>
+              )}
               <div className="card-actions">
                 <button 
                   onClick={() => setIsFlipped(!isFlipped)}
@@ -104,27 +283,32 @@ const Flashcard: React.FC<FlashcardProps> = ({ flashcard, onUpdate, onDelete, on
                 >
                   {isFlipped ? 'Show Front' : 'Show Back'}
                 </button>
-                <button 
-                  onClick={() => setIsEditing(true)}
-                  className="edit-btn"
-                >
-                  Edit
-                </button>
-                <button 
-                  onClick={handleDelete}
-                  className="delete-btn"
-                >
-                  Delete
-                </button>
-                {onMarkReviewed && getRevisionStatus() && (
+                {canEdit && (
+                  <>
+                    <button 
+                      onClick={handleStartEditing}
+                      className="edit-btn"
+                    >
+                      Edit
+                    </button>
+                    <button 
+                      onClick={handleDelete}
+                      className="delete-btn"
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+                {onShowHistory && (
                   <button 
-                    onClick={() => onMarkReviewed(flashcard.id)}
-                    className="review-btn"
+                    onClick={() => onShowHistory(flashcard.id)}
+                    className="history-btn"
                   >
-                    Mark Reviewed
+                    History
                   </button>
                 )}
               </div>
+              {onMarkReviewed && getRevisionStatus() && renderReviewGrades()}
               {getRevisionStatus() && (
                 <div className={`revision-status ${getRevisionStatus()?.isOverdue ? 'overdue' : getRevisionStatus()?.isDueToday ? 'due-today' : ''}`}>
                   <span className="revision-label">Next Review:</span>
@@ -138,15 +322,26 @@ const Flashcard: React.FC<FlashcardProps> = ({ flashcard, onUpdate, onDelete, on
         <div className="flashcard-back">
           {isEditing ? (
             <div className="edit-form">
-              <textarea
-                value={editBack}
-                onChange={(e) => setEditBack(e.target.value)}
-                placeholder="Back side of the card..."
-                className="edit-textarea"
-                rows={4}
-              />
+              {renderTextEditor('back')}
+              {renderFormatControls()}
+              {renderAttachmentEditor('back')}
+              {!isCloze && !isReverse && (
+                <input
+                  type="text"
+                  value={editAccepted}
+                  onChange={(e) => setEditAccepted(e.target.value)}
+                  placeholder="Also accept (separate with |)"
+                  className="edit-tags-input"
+                />
+              )}
+              {canAddReverse && (
+                <label className="edit-format-toggle">
+                  <input type="checkbox" checked={addReverse} onChange={(e) => setAddReverse(e.target.checked)} />
+                  Add reverse card (back → front)
+                </label>
+              )}
               <div className="edit-actions">
-                <button onClick={handleSave} className="save-btn">
+                <button onClick={handleSave} className="save-btn" disabled={!canSave}>
                   Save
                 </button>
                 <button onClick={handleCancel} className="cancel-btn">
@@ -156,7 +351,8 @@ const Flashcard: React.FC<FlashcardProps> = ({ flashcard, onUpdate, onDelete, on
             </div>
           ) : (
             <div className="card-content">
-              <p className="card-text">{flashcard.back}</p>
+              <CardContent text={faces.back} format={flashcard.format} className="card-text" />
+              <CardMedia attachments={getSideAttachments(flashcard, 'back')} />
               <div className="card-actions">
                 <button 
                   onClick={() => setIsFlipped(!isFlipped)}
@@ -164,27 +360,32 @@ const Flashcard: React.FC<FlashcardProps> = ({ flashcard, onUpdate, onDelete, on
                 >
                   Show Front
                 </button>
-                <button 
-                  onClick={() => setIsEditing(true)}
-                  className="edit-btn"
-                >
-                  Edit
-                </button>
-                <button 
-                  onClick={handleDelete}
-                  className="delete-btn"
-                >
-                  Delete
-                </button>
-                {onMarkReviewed && getRevisionStatus() && (
+                {canEdit && (
+                  <>
+                    <button 
+                      onClick={handleStartEditing}
+                      className="edit-btn"
+                    >
+                      Edit
+                    </button>
+                    <button 
+                      onClick={handleDelete}
+                      className="delete-btn"
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+                {onShowHistory && (
                   <button 
-                    onClick={() => onMarkReviewed(flashcard.id)}
-                    className="review-btn"
+                    onClick={() => onShowHistory(flashcard.id)}
+                    className="history-btn"
                   >
-                    Mark Reviewed
+                    History
                   </button>
                 )}
               </div>
+              {onMarkReviewed && getRevisionStatus() && renderReviewGrades()}
               {getRevisionStatus() && (
                 <div className={`revision-status ${getRevisionStatus()?.isOverdue ? 'overdue' : getRevisionStatus()?.isDueToday ? 'due-today' : ''}`}>
                   <span className="revision-label">Next Review:</span>
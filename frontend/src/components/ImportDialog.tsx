@@ -0,0 +1,272 @@
+import React, { useMemo, useState } from 'react';
+import type { Deck } from '../types/deck';
+import {
+  DELIMITER_LABELS,
+  IMPORT_FIELD_LABELS,
+  buildImportRows,
+  detectDelimiter,
+  guessColumnMapping,
+  parseDelimitedText
+} from '../utils/csvImport';
+import type { ImportDelimiter, ImportField, ImportRow } from '../utils/csvImport';
+import { isAnkiPackage, readAnkiPackage } from '../utils/ankiPackage';
+import './ImportDialog.css';
+
+interface ImportDialogProps {
+  decks: Deck[];
+  defaultDeckId: string;
+  onImport: (rows: ImportRow[], fallbackDeckId: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+const PREVIEW_LIMIT = 50;
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ decks, defaultDeckId, onImport, onCancel }) => {
+  const [text, setText] = useState('');
+  const [delimiter, setDelimiter] = useState<ImportDelimiter>(',');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ImportField[]>([]);
+  const [packageRows, setPackageRows] = useState<ImportRow[] | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [fallbackDeckId, setFallbackDeckId] = useState(defaultDeckId);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsedRows = useMemo(() => parseDelimitedText(text, delimiter), [text, delimiter]);
+  const importRows = useMemo(
+    () => packageRows ?? buildImportRows(parsedRows, mapping, hasHeader),
+    [packageRows, parsedRows, mapping, hasHeader]
+  );
+  const validRows = importRows.filter(row => row.errors.length === 0);
+  const invalidCount = importRows.length - validRows.length;
+  const columnCount = parsedRows.reduce((max, cells) => Math.max(max, cells.length), 0);
+  const isMapped = packageRows !== null || (mapping.includes('front') && mapping.includes('back'));
+  const showDeckColumn = importRows.some(row => row.deckName);
+
+  const knownDeckNames = new Set(decks.map(deck => deck.name.toLowerCase()));
+  const newDeckNames = [...new Set(
+    validRows
+      .map(row => row.deckName)
+      .filter((name): name is string => !!name && !knownDeckNames.has(name.toLowerCase()))
+  )];
+
+  // Re-guess the column mapping whenever the shape of the input changes
+  const loadText = (nextText: string, nextDelimiter: ImportDelimiter, nextHasHeader: boolean) => {
+    const rows = parseDelimitedText(nextText, nextDelimiter);
+    const width = rows.reduce((max, cells) => Math.max(max, cells.length), 0);
+    const firstRow = Array.from({ length: width }, (_, column) => rows[0]?.[column] || '');
+    setText(nextText);
+    setDelimiter(nextDelimiter);
+    setHasHeader(nextHasHeader);
+    setMapping(guessColumnMapping(firstRow, nextHasHeader));
+    setPackageRows(null);
+    setError(null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (isAnkiPackage(file.name)) {
+      setIsReading(true);
+      setError(null);
+      try {
+        setPackageRows(await readAnkiPackage(await file.arrayBuffer()));
+        setText('');
+      } catch (err) {
+        console.error('Error reading Anki package:', err);
+        setPackageRows(null);
+        setError(err instanceof Error ? err.message : 'Could not read that Anki package.');
+      } finally {
+        setIsReading(false);
+      }
+      return;
+    }
+
+    try {
+      const fileText = await file.text();
+      const fileDelimiter = /\.tsv$/i.test(file.name) ? '\t' : detectDelimiter(fileText);
+      loadText(fileText, fileDelimiter, hasHeader);
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setError('Could not read that file.');
+    }
+  };
+
+  const updateMapping = (column: number, field: ImportField) => {
+    setMapping(prev => prev.map((current, index) => {
+      if (index === column) return field;
+      // Each card field can only come from one column
+      return field !== 'ignore' && current === field ? 'ignore' : current;
+    }));
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+
+    try {
+      await onImport(validRows, fallbackDeckId);
+    } catch (err) {
+      console.error('Error importing flashcards:', err);
+      setError('Import failed. No cards were added, please try again.');
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="import-dialog">
+      <div className="form-group">
+        <label htmlFor="import-file">File</label>
+        <input
+          type="file"
+          id="import-file"
+          accept=".csv,.tsv,.txt,.apkg,text/csv,text/tab-separated-values,text/plain"
+          onChange={handleFileChange}
+          className="import-file-input"
+          disabled={isReading}
+        />
+        {isReading && <p className="import-summary">Reading Anki package...</p>}
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="import-text">Or paste rows</label>
+        <textarea
+          id="import-text"
+          value={text}
+          onChange={(e) => loadText(e.target.value, text ? delimiter : detectDelimiter(e.target.value), hasHeader)}
+          placeholder={'front,back,tags\nbonjour,hello,french greetings'}
+          className="form-textarea import-textarea"
+          rows={6}
+        />
+      </div>
+
+      <div className="import-options">
+        <select
+          value={delimiter}
+          onChange={(e) => loadText(text, e.target.value as ImportDelimiter, hasHeader)}
+          className="form-select"
+          aria-label="Delimiter"
+        >
+          {(Object.keys(DELIMITER_LABELS) as ImportDelimiter[]).map(option => (
+            <option key={option} value={option}>{DELIMITER_LABELS[option]}</option>
+          ))}
+        </select>
+        <label className="import-header-toggle">
+          <input
+            type="checkbox"
+            checked={hasHeader}
+            onChange={(e) => loadText(text, delimiter, e.target.checked)}
+          />
+          First row is a header
+        </label>
+      </div>
+
+      {(columnCount > 0 || packageRows) && (
+        <>
+          {columnCount > 0 && (
+            <div className="import-mapping">
+              <h3>Columns</h3>
+              {Array.from({ length: columnCount }, (_, column) => (
+                <div key={column} className="import-mapping-row">
+                  <span className="import-column-name">
+                    {hasHeader && parsedRows[0][column] ? parsedRows[0][column] : `Column ${column + 1}`}
+                  </span>
+                  <select
+                    value={mapping[column] || 'ignore'}
+                    onChange={(e) => updateMapping(column, e.target.value as ImportField)}
+                    className="form-select"
+                  >
+                    {(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map(field => (
+                      <option key={field} value={field}>{IMPORT_FIELD_LABELS[field]}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {decks.length > 0 && (
+            <div className="form-group">
+              <label htmlFor="import-deck">
+                {packageRows || mapping.includes('deck') ? 'Deck for rows without one' : 'Deck'}
+              </label>
+              <select
+                id="import-deck"
+                value={fallbackDeckId}
+                onChange={(e) => setFallbackDeckId(e.target.value)}
+                className="form-select"
+              >
+                <option value="">No deck</option>
+                {decks.map(deck => (
+                  <option key={deck.id} value={deck.id}>{deck.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {!isMapped ? (
+            <p className="import-summary error">Choose which columns hold the front and back of each card.</p>
+          ) : (
+            <>
+              <div className="import-preview">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Row</th>
+                      <th>Front</th>
+                      <th>Back</th>
+                      <th>Tags</th>
+                      {showDeckColumn && <th>Deck</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {importRows.slice(0, PREVIEW_LIMIT).map(row => (
+                      <React.Fragment key={row.rowNumber}>
+                        <tr className={row.errors.length > 0 ? 'invalid' : ''}>
+                          <td>{row.rowNumber}</td>
+                          <td>{row.front}</td>
+                          <td>{row.back}</td>
+                          <td>{row.tags.join(', ')}</td>
+                          {showDeckColumn && <td>{row.deckName}</td>}
+                        </tr>
+                        {row.errors.length > 0 && (
+                          <tr className="import-row-errors">
+                            <td colSpan={showDeckColumn ? 5 : 4}>{row.errors.join(', ')}</td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="import-summary">
+                {validRows.length} card{validRows.length === 1 ? '' : 's'} ready
+                {invalidCount > 0 && `, ${invalidCount} row${invalidCount === 1 ? '' : 's'} with errors will be skipped`}
+                {importRows.length > PREVIEW_LIMIT && ` (showing first ${PREVIEW_LIMIT})`}
+                {newDeckNames.length > 0 && `. New decks: ${newDeckNames.join(', ')}`}
+              </p>
+            </>
+          )}
+        </>
+      )}
+
+      {error && <p className="import-summary error">{error}</p>}
+
+      <div className="form-actions">
+        <button
+          onClick={handleImport}
+          className="save-new-btn"
+          disabled={!isMapped || validRows.length === 0 || isImporting}
+        >
+          {isImporting ? 'Importing...' : `Import ${validRows.length} Card${validRows.length === 1 ? '' : 's'}`}
+        </button>
+        <button onClick={onCancel} className="cancel-new-btn">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
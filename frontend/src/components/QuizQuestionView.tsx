@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { QuizAnswerMode, QuizPrompt } from '../types/quiz';
+import type { AnswerMatchResult } from '../utils/answerMatching';
+import { getSideAttachments } from '../utils/attachments';
+import CardContent from './CardContent';
+import CardMedia from './CardMedia';
+import './RapidFire.css';
+
+interface QuizQuestionViewProps {
+  question: QuizPrompt;
+  answerMode: QuizAnswerMode;
+  onAnswer: (answer: string) => void; // the typed text or the chosen option
+  isLocked: boolean; // answered or out of time, so no more input
+  result: AnswerMatchResult | null; // reveals the correct answer with this feedback once set
+  waitingMessage?: string; // shown while locked before the result is known
+}
+
+// One Rapid Fire question with its typed or multiple-choice answer and the feedback after it.
+// Give it a new key for each question so the answer input starts empty.
+const QuizQuestionView: React.FC<QuizQuestionViewProps> = ({
+  question,
+  answerMode,
+  onAnswer,
+  isLocked,
+  result,
+  waitingMessage
+}) => {
+  const [userAnswer, setUserAnswer] = useState('');
+  const [chosenOption, setChosenOption] = useState<string | null>(null);
+
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  // Multiple choice answers with 1-4 wherever the focus is
+  useEffect(() => {
+    if (answerMode !== 'multiple-choice' || isLocked) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const option = question.options?.[Number(e.key) - 1];
+      if (option !== undefined) {
+        e.preventDefault();
+        setChosenOption(option);
+        onAnswer(option);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [answerMode, isLocked, question.options, onAnswer]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (userAnswer.trim() === '' || isLocked) return;
+    onAnswer(userAnswer);
+  };
+
+  const handleChooseOption = (option: string) => {
+    if (isLocked) return;
+    setChosenOption(option);
+    onAnswer(option);
+  };
+
+  const getOptionState = (option: string) => {
+    if (result === null) {
+      return option === chosenOption ? 'chosen' : '';
+    }
+    if (option === question.answer) return 'correct';
+    return option === chosenOption ? 'incorrect' : 'dimmed';
+  };
+
+  return (
+    <div className="question-container">
+      <div className="question-card">
+        <CardContent
+          as="h3"
+          text={question.prompt}
+          format={question.flashcard.format}
+          className="question-text"
+        />
+        <CardMedia attachments={getSideAttachments(question.flashcard, question.promptSide)} />
+      </div>
+
+      {answerMode === 'multiple-choice' ? (
+        <div className="choice-options" aria-label="Answer options, press 1 to 4 to choose">
+          {question.options?.map((option, index) => (
+            <button
+              key={option}
+              onClick={() => handleChooseOption(option)}
+              className={`choice-option ${getOptionState(option)}`}
+              disabled={isLocked}
+            >
+              <span className="choice-key">{index + 1}</span>
+              <CardContent
+                as="span"
+                text={option}
+                format={question.flashcard.format}
+                className="choice-text"
+              />
+            </button>
+          ))}
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="answer-form">
+          <input
+            ref={inputRef}
+            type="text"
+            value={userAnswer}
+            onChange={(e) => setUserAnswer(e.target.value)}
+            placeholder="Type your answer..."
+            className="answer-input"
+            disabled={isLocked}
+            autoComplete="off"
+          />
+          <button
+            type="submit"
+            className="submit-btn"
+            disabled={isLocked || userAnswer.trim() === ''}
+          >
+            Submit
+          </button>
+        </form>
+      )}
+
+      {isLocked && result === null && waitingMessage && (
+        <p className="answer-waiting">{waitingMessage}</p>
+      )}
+
+      {result !== null && (
+        <div className={`answer-feedback ${result}`}>
+          <div className="feedback-content">
+            <div className="feedback-icon">
+              {result === 'correct' ? '✓' : result === 'partial' ? '~' : '✗'}
+            </div>
+            <div className="feedback-text">
+              <div className="correct-answer">
+                Correct answer:{' '}
+                <CardContent
+                  as="span"
+                  text={question.answer}
+                  format={question.flashcard.format}
+                  className="correct-answer-text"
+                />
+              </div>
+              <CardMedia
+                attachments={getSideAttachments(
+                  question.flashcard,
+                  question.promptSide === 'front' ? 'back' : 'front'
+                )}
+                className="answer-media"
+              />
+              {result === 'correct' ? (
+                <p className="feedback-message">Great job!</p>
+              ) : result === 'partial' ? (
+                <p className="feedback-message">Partially correct - half a point!</p>
+              ) : (
+                <p className="feedback-message">Keep practicing!</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuizQuestionView;
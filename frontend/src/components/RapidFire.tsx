@@ -1,9 +1,32 @@
 import React, { useState, useEffect, useRef } from 'react';
 import type { FlashcardData } from '../types/flashcard';
+import type { QuizOutcome, QuizQuestion, QuizRound, RapidFireSettings } from '../types/quiz';
+import type { AnswerMatchResult } from '../utils/answerMatching';
+import {
+  DEFAULT_RAPID_FIRE_SETTINGS,
+  checkQuizAnswer,
+  getAccuracyByFlashcard,
+  getQuizPoints,
+  selectQuizCards,
+  toQuizQuestion,
+  withChoiceOptions
+} from '../utils/quizUtils';
+import { scheduleQuizOutcome } from '../utils/scheduler';
+import type { ScheduleResult } from '../utils/scheduler';
+import {
+  getUserSettings,
+  updateUserSettings,
+  getUserReviews,
+  saveQuizRound,
+  getUserQuizRounds
+} from '../services/repository';
+import RapidFireSetup from './RapidFireSetup';
+import QuizQuestionView from './QuizQuestionView';
 import './RapidFire.css';
 
 interface RapidFireProps {
   flashcards: FlashcardData[];
+  userId: string;
   onClose: () => void;
 }
 
@@ -14,32 +37,78 @@ interface QuizResult {
   accuracy: number;
 }
 
-const RapidFire: React.FC<RapidFireProps> = ({ flashcards, onClose }) => {
+const RapidFire: React.FC<RapidFireProps> = ({ flashcards, userId, onClose }) => {
   const [currentIndex, setCurrentIndex] = useState(0);
-  const [userAnswer, setUserAnswer] = useState('');
   const [showAnswer, setShowAnswer] = useState(false);
-  const [isCorrect, setIsCorrect] = useState<boolean | null>(null);
+  const [answerResult, setAnswerResult] = useState<AnswerMatchResult | null>(null);
   const [score, setScore] = useState(0);
-  const [timeLeft, setTimeLeft] = useState(30); // 30 seconds per question
-  const [gameState, setGameState] = useState<'playing' | 'finished'>('playing');
+  const [settings, setSettings] = useState<RapidFireSettings>(DEFAULT_RAPID_FIRE_SETTINGS);
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [timeLeft, setTimeLeft] = useState(DEFAULT_RAPID_FIRE_SETTINGS.timePerQuestion ?? 0);
+  const [gameState, setGameState] = useState<'setup' | 'playing' | 'finished'>('setup');
   const [result, setResult] = useState<QuizResult | null>(null);
   const [startTime, setStartTime] = useState<number>(Date.now());
+  const [pastRounds, setPastRounds] = useState<QuizRound[]>([]);
+  const [saveState, setSaveState] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [setupNotice, setSetupNotice] = useState<string | null>(null);
   
-  const inputRef = useRef<HTMLInputElement>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  // The pending advance past an answered question, cleared on quit so an abandoned round isn't saved
+  const advanceRef = useRef<NodeJS.Timeout | null>(null);
+  // Refs so the delayed advance to the next question sees every answer given so far
+  const outcomesRef = useRef<QuizOutcome[]>([]);
+  const questionStartRef = useRef<number>(Date.now());
 
-  // Shuffle flashcards for random order
-  const shuffledFlashcards = React.useMemo(() => {
-    return [...flashcards].sort(() => Math.random() - 0.5);
-  }, [flashcards]);
+  const isTimed = settings.timePerQuestion !== null;
+
+  // Load the user's last Rapid Fire settings
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const userSettings = await getUserSettings(userId);
+        if (userSettings.rapidFire) {
+          setSettings({ ...DEFAULT_RAPID_FIRE_SETTINGS, ...userSettings.rapidFire });
+        }
+      } catch (err) {
+        console.error('Error loading Rapid Fire settings:', err);
+      } finally {
+        setSettingsLoaded(true);
+      }
+    };
+
+    const loadPastRounds = async () => {
+      try {
+        setPastRounds(await getUserQuizRounds(userId));
+      } catch (err) {
+        console.error('Error loading past Rapid Fire rounds:', err);
+      }
+    };
+
+    loadSettings();
+    loadPastRounds();
+  }, [userId]);
+
+  useEffect(() => {
+    return () => {
+      if (advanceRef.current) {
+        clearTimeout(advanceRef.current);
+      }
+    };
+  }, []);
 
   // Timer effect
   useEffect(() => {
-    if (gameState === 'playing' && timeLeft > 0) {
+    if (gameState !== 'playing' || !isTimed || showAnswer) {
+      return;
+    }
+
+    if (timeLeft > 0) {
       timerRef.current = setTimeout(() => {
         setTimeLeft(timeLeft - 1);
       }, 1000);
-    } else if (timeLeft === 0) {
+    } else {
       handleTimeUp();
     }
 
@@ -48,85 +117,164 @@ const RapidFire: React.FC<RapidFireProps> = ({ flashcards, onClose }) => {
         clearTimeout(timerRef.current);
       }
     };
-  }, [timeLeft, gameState]);
+  }, [timeLeft, gameState, isTimed, showAnswer]);
 
-  // Focus input when component mounts or question changes
+  // Time each answer from when its question appears
   useEffect(() => {
-    if (inputRef.current && gameState === 'playing') {
-      inputRef.current.focus();
-    }
+    questionStartRef.current = Date.now();
   }, [currentIndex, gameState]);
 
+  const recordOutcome = (matchResult: AnswerMatchResult, timedOut: boolean = false) => {
+    outcomesRef.current.push({
+      flashcardId: questions[currentIndex].flashcard.id,
+      result: matchResult,
+      responseTimeMs: Date.now() - questionStartRef.current,
+      ...(timedOut ? { timedOut } : {})
+    });
+  };
+
   const handleTimeUp = () => {
     if (gameState === 'playing') {
+      recordOutcome('incorrect', true);
       setShowAnswer(true);
-      setIsCorrect(false);
-      setTimeout(() => {
+      setAnswerResult('incorrect');
+      advanceRef.current = setTimeout(() => {
         nextQuestion();
       }, 2000);
     }
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (userAnswer.trim() === '') return;
+  const handleAnswer = (answer: string) => {
+    if (showAnswer) return;
 
-    const correctAnswer = shuffledFlashcards[currentIndex].back.toLowerCase().trim();
-    const userAnswerLower = userAnswer.toLowerCase().trim();
-    
-    // Check if answer is correct (exact match or contains the answer)
-    const isAnswerCorrect = correctAnswer === userAnswerLower || 
-                           correctAnswer.includes(userAnswerLower) ||
-                           userAnswerLower.includes(correctAnswer);
+    const matchResult = checkQuizAnswer(questions[currentIndex], answer);
+    recordOutcome(matchResult);
 
     setShowAnswer(true);
-    setIsCorrect(isAnswerCorrect);
-    
-    if (isAnswerCorrect) {
-      setScore(score + 1);
-    }
+    setAnswerResult(matchResult);
+    setScore(score + getQuizPoints(matchResult));
 
     // Auto-advance after 2 seconds
-    setTimeout(() => {
+    advanceRef.current = setTimeout(() => {
       nextQuestion();
     }, 2000);
   };
 
+  // Persist the round and, if enabled, let the answers reschedule their cards
+  const saveRound = async (round: Omit<QuizRound, 'id'>) => {
+    const reschedules: Array<{ flashcard: FlashcardData; result: ScheduleResult }> = [];
+    if (round.settings.affectScheduling) {
+      round.outcomes.forEach(outcome => {
+        const flashcard = flashcards.find(card => card.id === outcome.flashcardId);
+        const schedule = flashcard && scheduleQuizOutcome(flashcard, outcome.result, round.completedAt);
+        if (flashcard && schedule) {
+          reschedules.push({ flashcard, result: schedule });
+        }
+      });
+    }
+
+    setSaveState('saving');
+    try {
+      const roundId = await saveQuizRound(round, reschedules);
+      setPastRounds(prev => [{ ...round, id: roundId }, ...prev]);
+      setSaveState('saved');
+    } catch (err) {
+      console.error('Error saving Rapid Fire round:', err);
+      setSaveState('error');
+    }
+  };
+
   const nextQuestion = () => {
-    if (currentIndex + 1 >= shuffledFlashcards.length) {
+    if (currentIndex + 1 >= questions.length) {
       // Game finished
+      const outcomes = outcomesRef.current;
+      const points = outcomes.reduce((sum, outcome) => sum + getQuizPoints(outcome.result), 0);
       const totalTime = Math.round((Date.now() - startTime) / 1000);
-      const accuracy = Math.round((score / shuffledFlashcards.length) * 100);
+      const accuracy = Math.round((points / questions.length) * 100);
       
       setResult({
-        correct: score,
-        total: shuffledFlashcards.length,
+        correct: points,
+        total: questions.length,
         timeSpent: totalTime,
         accuracy: accuracy
       });
       setGameState('finished');
+      saveRound({
+        userId,
+        completedAt: new Date(),
+        settings,
+        score: points,
+        total: questions.length,
+        accuracy,
+        timeSpent: totalTime,
+        outcomes: [...outcomes]
+      });
     } else {
       // Next question
       setCurrentIndex(currentIndex + 1);
-      setUserAnswer('');
       setShowAnswer(false);
-      setIsCorrect(null);
-      setTimeLeft(30);
+      setAnswerResult(null);
+      setTimeLeft(settings.timePerQuestion ?? 0);
     }
   };
 
-  const resetGame = () => {
+  const startGame = async (roundSettings: RapidFireSettings, roundSelectedIds: string[]) => {
+    let accuracy: Map<string, number> | undefined;
+    if (roundSettings.cardSource === 'weakest') {
+      try {
+        accuracy = getAccuracyByFlashcard(await getUserReviews(userId));
+      } catch (err) {
+        console.error('Error loading review history for Rapid Fire:', err);
+      }
+    }
+
+    const cards = selectQuizCards(flashcards, roundSettings, { selectedIds: roundSelectedIds, accuracy });
+    // Playing again can find nothing left, e.g. once a round has pushed every due card out
+    if (cards.length === 0) {
+      setSetupNotice('No cards match these settings any more. Choose different ones to play again.');
+      setGameState('setup');
+      return;
+    }
+    setSetupNotice(null);
+    const roundQuestions = cards.map(card => toQuizQuestion(card, roundSettings.direction));
+    // Distractors come from every card on hand, not just the ones in this round
+    setQuestions(roundSettings.answerMode === 'multiple-choice'
+      ? roundQuestions.map(question => withChoiceOptions(question, flashcards, roundSettings.direction))
+      : roundQuestions);
+    setSettings(roundSettings);
+    setSelectedIds(roundSelectedIds);
     setCurrentIndex(0);
-    setUserAnswer('');
     setShowAnswer(false);
-    setIsCorrect(null);
+    setAnswerResult(null);
     setScore(0);
-    setTimeLeft(30);
+    outcomesRef.current = [];
+    setSaveState('idle');
+    setTimeLeft(roundSettings.timePerQuestion ?? 0);
     setGameState('playing');
     setResult(null);
     setStartTime(Date.now());
   };
 
+  const handleStart = (roundSettings: RapidFireSettings, roundSelectedIds: string[]) => {
+    // Remember the settings for next time; a failed save shouldn't block the round
+    updateUserSettings(userId, { rapidFire: roundSettings }).catch(err => {
+      console.error('Error saving Rapid Fire settings:', err);
+    });
+    startGame(roundSettings, roundSelectedIds);
+  };
+
+  const handleQuit = () => {
+    if (advanceRef.current) {
+      clearTimeout(advanceRef.current);
+      advanceRef.current = null;
+    }
+    onClose();
+  };
+
+  const resetGame = () => {
+    startGame(settings, selectedIds);
+  };
+
   if (flashcards.length === 0) {
     return (
       <div className="rapid-fire-overlay">
@@ -143,6 +291,37 @@ const RapidFire: React.FC<RapidFireProps> = ({ flashcards, onClose }) => {
     );
   }
 
+  if (gameState === 'setup') {
+    return (
+      <div className="rapid-fire-overlay">
+        <div className="rapid-fire-container">
+          {setupNotice && (
+            <div className="error-banner">
+              <span>{setupNotice}</span>
+              <button onClick={() => setSetupNotice(null)} className="error-close">
+                ×
+              </button>
+            </div>
+          )}
+          {settingsLoaded ? (
+            <RapidFireSetup
+              flashcards={flashcards}
+              initialSettings={settings}
+              pastRounds={pastRounds}
+              onStart={handleStart}
+              onCancel={onClose}
+            />
+          ) : (
+            <div className="loading-state">
+              <div className="loading-spinner"></div>
+              <p>Loading...</p>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   if (gameState === 'finished' && result) {
     return (
       <div className="rapid-fire-overlay">
@@ -163,10 +342,18 @@ const RapidFire: React.FC<RapidFireProps> = ({ flashcards, onClose }) => {
                 <span className="stat-value">{result.timeSpent}s</span>
               </div>
             </div>
+            <p className={`round-save-status ${saveState}`}>
+              {saveState === 'saving' && 'Saving results...'}
+              {saveState === 'saved' && (settings.affectScheduling ? 'Results saved and review schedule updated' : 'Results saved')}
+              {saveState === 'error' && 'Could not save this round'}
+            </p>
             <div className="results-actions">
               <button onClick={resetGame} className="play-again-btn">
                 Play Again
               </button>
+              <button onClick={() => setGameState('setup')} className="close-btn">
+                Change Settings
+              </button>
               <button onClick={onClose} className="close-btn">
                 Close
               </button>
@@ -177,7 +364,7 @@ const RapidFire: React.FC<RapidFireProps> = ({ flashcards, onClose }) => {
     );
   }
 
-  const currentCard = shuffledFlashcards[currentIndex];
+  const currentQuestion = questions[currentIndex];
 
   return (
     <div className="rapid-fire-overlay">
@@ -185,68 +372,33 @@ const RapidFire: React.FC<RapidFireProps> = ({ flashcards, onClose }) => {
         <div className="rapid-fire-header">
           <div className="progress-info">
             <span className="question-counter">
-              Question {currentIndex + 1} of {shuffledFlashcards.length}
+              Question {currentIndex + 1} of {questions.length}
             </span>
             <span className="score">Score: {score}</span>
           </div>
-          <div className="timer-container">
-            <div className="timer" style={{ 
-              '--time-left': timeLeft,
-              '--max-time': 30 
-            } as React.CSSProperties}>
-              {timeLeft}s
-            </div>
-          </div>
-        </div>
-
-        <div className="question-container">
-          <div className="question-card">
-            <h3 className="question-text">{currentCard.front}</h3>
-          </div>
-
-          <form onSubmit={handleSubmit} className="answer-form">
-            <input
-              ref={inputRef}
-              type="text"
-              value={userAnswer}
-              onChange={(e) => setUserAnswer(e.target.value)}
-              placeholder="Type your answer..."
-              className="answer-input"
-              disabled={showAnswer}
-              autoComplete="off"
-            />
-            <button 
-              type="submit" 
-              className="submit-btn"
-              disabled={showAnswer || userAnswer.trim() === ''}
-            >
-              Submit
-            </button>
-          </form>
-
-          {showAnswer && (
-            <div className={`answer-feedback ${isCorrect ? 'correct' : 'incorrect'}`}>
-              <div className="feedback-content">
-                <div className="feedback-icon">
-                  {isCorrect ? '✓' : '✗'}
-                </div>
-                <div className="feedback-text">
-                  <p className="correct-answer">
-                    Correct answer: <strong>{currentCard.back}</strong>
-                  </p>
-                  {isCorrect ? (
-                    <p className="feedback-message">Great job!</p>
-                  ) : (
-                    <p className="feedback-message">Keep practicing!</p>
-                  )}
-                </div>
+          {isTimed && (
+            <div className="timer-container">
+              <div className="timer" style={{ 
+                '--time-left': timeLeft,
+                '--max-time': settings.timePerQuestion 
+              } as React.CSSProperties}>
+                {timeLeft}s
               </div>
             </div>
           )}
         </div>
 
+        <QuizQuestionView
+          key={`${startTime}-${currentIndex}`}
+          question={currentQuestion}
+          answerMode={settings.answerMode}
+          onAnswer={handleAnswer}
+          isLocked={showAnswer}
+          result={answerResult}
+        />
+
         <div className="rapid-fire-actions">
-          <button onClick={onClose} className="quit-btn">
+          <button onClick={handleQuit} className="quit-btn">
             Quit Game
           </button>
         </div>
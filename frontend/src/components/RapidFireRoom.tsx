@@ -0,0 +1,404 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { FlashcardData } from '../types/flashcard';
+import type { QuizRoom, RoomAnswerKey, RoomPlayer, RoomSettings, RoomSubmission } from '../types/room';
+import {
+  DEFAULT_RAPID_FIRE_SETTINGS,
+  selectQuizCards,
+  toQuizQuestion,
+  withChoiceOptions
+} from '../utils/quizUtils';
+import { getTimeLeftMs, scoreRoomSubmission, toQuizPrompt, toRoomAnswerKey, toRoomQuestion } from '../utils/roomUtils';
+import {
+  createRoom,
+  getRoomAnswerKey,
+  joinRoom,
+  subscribeToRoom,
+  subscribeToRoomPlayers,
+  subscribeToRoomSubmissions,
+  startRoomQuestion,
+  revealRoomQuestion,
+  finishRoom,
+  submitRoomAnswer
+} from '../services/roomService';
+import type { RoomMember } from '../services/roomService';
+import RoomSetup from './RoomSetup';
+import RoomLeaderboard from './RoomLeaderboard';
+import QuizQuestionView from './QuizQuestionView';
+import './RapidFire.css';
+import './RapidFireRoom.css';
+
+interface RapidFireRoomProps {
+  flashcards: FlashcardData[]; // cards a hosted room asks about
+  deckName: string;
+  user: RoomMember;
+  onClose: () => void;
+}
+
+// How often the countdown redraws
+const TICK_MS = 250;
+// The host waits this long past the buzzer before revealing, for answers still on their way
+const ANSWER_GRACE_MS = 1000;
+// Stands in for a question's answers until they are revealed
+const UNREVEALED: RoomAnswerKey = { answer: '', answers: [] };
+
+const RapidFireRoom: React.FC<RapidFireRoomProps> = ({ flashcards, deckName, user, onClose }) => {
+  const [roomId, setRoomId] = useState<string | null>(null);
+  const [room, setRoom] = useState<QuizRoom | null>(null);
+  const [players, setPlayers] = useState<RoomPlayer[]>([]);
+  // Only the host holds the answers and sees what everyone sent
+  const [answerKey, setAnswerKey] = useState<RoomAnswerKey[] | null>(null);
+  const [submissions, setSubmissions] = useState<RoomSubmission[]>([]);
+  const [clockOffsetMs, setClockOffsetMs] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [answeredIndex, setAnsweredIndex] = useState<number | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The question the host has already revealed, so a slow write isn't sent twice
+  const revealedIndexRef = useRef<number | null>(null);
+
+  const isHost = room?.hostId === user.userId;
+  const status = room?.status;
+  const currentIndex = room?.currentIndex;
+  const timeLeftMs = room
+    ? getTimeLeftMs(room.questionStartedAt, room.settings.timePerQuestion, clockOffsetMs, now)
+    : 0;
+
+  // Follow the room and its players once joined
+  useEffect(() => {
+    if (!roomId) return;
+
+    const unsubscribeRoom = subscribeToRoom(roomId, (nextRoom) => {
+      setRoom(nextRoom);
+      if (!nextRoom) {
+        setError('This room has closed.');
+      }
+    }, () => setError('Lost connection to the room.'));
+    const unsubscribePlayers = subscribeToRoomPlayers(roomId, setPlayers, () => setError('Lost connection to the room.'));
+
+    return () => {
+      unsubscribeRoom();
+      unsubscribePlayers();
+    };
+  }, [roomId]);
+
+  // The host follows the answers sent for the open question, to score them when it is revealed
+  useEffect(() => {
+    if (!roomId || !isHost || status !== 'question' || currentIndex === undefined) return;
+
+    return subscribeToRoomSubmissions(
+      roomId,
+      currentIndex,
+      setSubmissions,
+      () => setError('Lost connection to the room.')
+    );
+  }, [roomId, isHost, status, currentIndex]);
+
+  // Run the countdown while a question is open
+  useEffect(() => {
+    if (status !== 'question') return;
+
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [status]);
+
+  // The host closes each question once everyone has answered or time (and the grace period) is up,
+  // scoring the answers it was sent
+  useEffect(() => {
+    if (
+      !room
+      || !isHost
+      || !answerKey
+      || room.status !== 'question'
+      || !room.questionStartedAt
+      || revealedIndexRef.current === room.currentIndex
+    ) {
+      return;
+    }
+
+    const index = room.currentIndex;
+    const answered = submissions.filter(submission => submission.questionIndex === index);
+    const everyoneAnswered = players.length > 0
+      && players.every(player => answered.some(submission => submission.userId === player.id));
+    const timeIsUp = getTimeLeftMs(
+      room.questionStartedAt,
+      room.settings.timePerQuestion,
+      clockOffsetMs,
+      now - ANSWER_GRACE_MS
+    ) === 0;
+    if (everyoneAnswered || timeIsUp) {
+      const questionStartedAt = room.questionStartedAt;
+      const scoredAnswers = answered.map(submission => ({
+        userId: submission.userId,
+        answer: scoreRoomSubmission(
+          room.questions[index],
+          answerKey[index],
+          submission,
+          questionStartedAt,
+          room.settings.timePerQuestion
+        )
+      }));
+      revealedIndexRef.current = index;
+      revealRoomQuestion(room.id, index, answerKey[index], scoredAnswers).catch(() => {
+        revealedIndexRef.current = null;
+        setError('Failed to reveal the answer. Retrying...');
+      });
+    }
+  }, [room, isHost, answerKey, submissions, players, now, clockOffsetMs]);
+
+  const enterRoom = async (code: string) => {
+    const joined = await joinRoom(code, user);
+    if (!joined) {
+      setError(`No room found with code ${code}.`);
+      return;
+    }
+    if (joined.room.hostId === user.userId) {
+      setAnswerKey(await getRoomAnswerKey(code, user.userId));
+    }
+    setClockOffsetMs(joined.clockOffsetMs);
+    setRoom(joined.room);
+    setRoomId(code);
+  };
+
+  const handleHost = async (settings: RoomSettings, questionCount: number) => {
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      const roundSettings = { ...DEFAULT_RAPID_FIRE_SETTINGS, ...settings, cardSource: 'all' as const, questionCount };
+      const questions = selectQuizCards(flashcards, roundSettings)
+        .map(card => toQuizQuestion(card, settings.direction))
+        // Distractors come from every card on hand, not just the ones asked
+        .map(question => settings.answerMode === 'multiple-choice'
+          ? withChoiceOptions(question, flashcards, settings.direction)
+          : question);
+      await enterRoom(await createRoom(
+        user,
+        deckName,
+        settings,
+        questions.map(toRoomQuestion),
+        questions.map(toRoomAnswerKey)
+      ));
+    } catch (err) {
+      console.error('Error hosting room:', err);
+      setError('Failed to open a room. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleJoin = async (code: string) => {
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      await enterRoom(code);
+    } catch (err) {
+      console.error('Error joining room:', err);
+      setError('Failed to join the room. Please check the code and try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAdvance = async () => {
+    if (!room) return;
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      const nextIndex = room.status === 'lobby' ? 0 : room.currentIndex + 1;
+      if (nextIndex < room.questions.length) {
+        await startRoomQuestion(room.id, nextIndex);
+      } else {
+        await finishRoom(room.id);
+      }
+    } catch (err) {
+      console.error('Error advancing room:', err);
+      setError('Failed to move the room on. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAnswer = async (answer: string) => {
+    if (!room || room.status !== 'question' || answeredIndex === room.currentIndex) return;
+
+    const index = room.currentIndex;
+    setAnsweredIndex(index);
+
+    try {
+      await submitRoomAnswer(room.id, user.userId, index, answer);
+    } catch (err) {
+      console.error('Error submitting room answer:', err);
+      setError("Your answer didn't reach the room before the question closed.");
+    }
+  };
+
+  const handleClose = () => {
+    // A host leaving ends the room for everyone rather than leaving them waiting
+    if (room && isHost && room.status !== 'finished') {
+      finishRoom(room.id).catch(err => {
+        console.error('Error closing room:', err);
+      });
+    }
+    onClose();
+  };
+
+  const errorBanner = error && (
+    <div className="error-banner">
+      <span>{error}</span>
+      <button onClick={() => setError(null)} className="error-close">
+        ×
+      </button>
+    </div>
+  );
+
+  if (!room) {
+    return (
+      <div className="rapid-fire-overlay">
+        <div className="rapid-fire-container">
+          {errorBanner}
+          <RoomSetup
+            cardCount={flashcards.length}
+            deckName={deckName}
+            isBusy={isBusy}
+            onHost={handleHost}
+            onJoin={handleJoin}
+            onCancel={onClose}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (room.status === 'lobby') {
+    return (
+      <div className="rapid-fire-overlay">
+        <div className="rapid-fire-container">
+          {errorBanner}
+          <div className="room-lobby">
+            <h2>{room.title}</h2>
+            <p className="room-lobby-hint">
+              {isHost ? 'Share this code so others can join from Multiplayer:' : `Hosted by ${room.hostName}. Join code:`}
+            </p>
+            <div className="room-code">{room.id}</div>
+            <p className="room-lobby-hint">
+              {room.questions.length} question{room.questions.length === 1 ? '' : 's'}, {room.settings.timePerQuestion}s each
+            </p>
+            <h3>Players ({players.length})</h3>
+            <ul className="room-lobby-players">
+              {players.map(player => (
+                <li key={player.id} className={player.id === user.userId ? 'current' : ''}>
+                  {player.name}{player.id === room.hostId ? ' (host)' : ''}
+                </li>
+              ))}
+            </ul>
+            <div className="results-actions">
+              {isHost ? (
+                <button onClick={handleAdvance} className="play-again-btn" disabled={isBusy}>
+                  Start
+                </button>
+              ) : (
+                <p className="room-lobby-hint">Waiting for {room.hostName} to start...</p>
+              )}
+              <button onClick={handleClose} className="close-btn">
+                {isHost ? 'Close Room' : 'Leave'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (room.status === 'finished') {
+    return (
+      <div className="rapid-fire-overlay">
+        <div className="rapid-fire-container">
+          {errorBanner}
+          <div className="results-screen">
+            <h2>Final Results</h2>
+            <RoomLeaderboard players={players} currentUserId={user.userId} />
+            <div className="results-actions">
+              <button onClick={onClose} className="close-btn">
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const currentQuestion = toQuizPrompt(room.questions[room.currentIndex], room.reveals[room.currentIndex] ?? UNREVEALED);
+  const myAnswer = players.find(player => player.id === user.userId)?.answers[room.currentIndex];
+  const hasAnswered = Boolean(myAnswer) || answeredIndex === room.currentIndex;
+  const isRevealed = room.status === 'reveal';
+  const secondsLeft = Math.ceil(timeLeftMs / 1000);
+  const isLastQuestion = room.currentIndex + 1 >= room.questions.length;
+  const answeredCount = submissions.filter(submission => submission.questionIndex === room.currentIndex).length;
+
+  return (
+    <div className="rapid-fire-overlay">
+      <div className="rapid-fire-container">
+        <div className="rapid-fire-header">
+          <div className="progress-info">
+            <span className="question-counter">
+              Question {room.currentIndex + 1} of {room.questions.length}
+            </span>
+            <span className="score">
+              Score: {players.find(player => player.id === user.userId)?.score ?? 0}
+            </span>
+          </div>
+          <div className="timer-container">
+            <div className="timer" style={{
+              '--time-left': isRevealed ? 0 : secondsLeft,
+              '--max-time': room.settings.timePerQuestion
+            } as React.CSSProperties}>
+              {isRevealed ? 0 : secondsLeft}s
+            </div>
+          </div>
+        </div>
+
+        {errorBanner}
+
+        <QuizQuestionView
+          key={`${room.id}-${room.currentIndex}`}
+          question={currentQuestion}
+          answerMode={room.settings.answerMode}
+          onAnswer={handleAnswer}
+          isLocked={isRevealed || hasAnswered || timeLeftMs === 0}
+          // Missing the buzzer counts as a wrong answer
+          result={isRevealed ? myAnswer?.result ?? 'incorrect' : null}
+          waitingMessage={hasAnswered
+            ? `Answer locked in. ${isHost ? `${answeredCount} of ${players.length} answered...` : 'Waiting for the others...'}`
+            : "Time's up! Waiting for the answer..."}
+        />
+
+        {isRevealed && (
+          <div className="room-reveal">
+            <RoomLeaderboard players={players} currentUserId={user.userId} questionIndex={room.currentIndex} />
+            {isHost ? (
+              <div className="results-actions">
+                <button onClick={handleAdvance} className="play-again-btn" disabled={isBusy}>
+                  {isLastQuestion ? 'Final Results' : 'Next Question'}
+                </button>
+              </div>
+            ) : (
+              <p className="room-lobby-hint">Waiting for {room.hostName} to continue...</p>
+            )}
+          </div>
+        )}
+
+        <div className="rapid-fire-actions">
+          <button onClick={handleClose} className="quit-btn">
+            {isHost ? 'End Room' : 'Leave Room'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RapidFireRoom;
@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import type { FlashcardData } from '../types/flashcard';
+import type { QuizAnswerMode, QuizCardSource, QuizDirection, QuizRound, RapidFireSettings } from '../types/quiz';
+import { isFlashcardDue } from '../utils/scheduler';
+import { MULTIPLE_CHOICE_OPTIONS } from '../utils/quizUtils';
+import { getCardFaces } from '../utils/cardFaces';
+import './RapidFireSetup.css';
+
+interface RapidFireSetupProps {
+  flashcards: FlashcardData[];
+  initialSettings: RapidFireSettings;
+  pastRounds: QuizRound[];
+  onStart: (settings: RapidFireSettings, selectedIds: string[]) => void;
+  onCancel: () => void;
+}
+
+const TIME_OPTIONS = [10, 20, 30, 45, 60];
+const COUNT_OPTIONS = [5, 10, 20, 50];
+
+const SOURCE_LABELS: Record<QuizCardSource, string> = {
+  all: 'All cards',
+  due: 'Due cards only',
+  selection: 'Choose cards',
+  weakest: 'Weakest cards (by past accuracy)'
+};
+
+const RapidFireSetup: React.FC<RapidFireSetupProps> = ({ flashcards, initialSettings, pastRounds, onStart, onCancel }) => {
+  const [settings, setSettings] = useState<RapidFireSettings>(initialSettings);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const dueCount = flashcards.filter(card => isFlashcardDue(card)).length;
+  const sourceCounts: Record<QuizCardSource, number> = {
+    all: flashcards.length,
+    due: dueCount,
+    selection: selectedIds.size,
+    weakest: flashcards.length
+  };
+  const available = sourceCounts[settings.cardSource];
+  const questionTotal = settings.questionCount ? Math.min(settings.questionCount, available) : available;
+
+  const updateSetting = <K extends keyof RapidFireSettings>(key: K, value: RapidFireSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  const toggleCard = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="rapid-fire-setup">
+      <h2>Rapid Fire Setup</h2>
+
+      <div className="setup-row">
+        <label htmlFor="rf-time">Time per question</label>
+        <select
+          id="rf-time"
+          value={settings.timePerQuestion ?? 'untimed'}
+          onChange={(e) => updateSetting('timePerQuestion', e.target.value === 'untimed' ? null : Number(e.target.value))}
+          className="setup-select"
+        >
+          {TIME_OPTIONS.map(seconds => (
+            <option key={seconds} value={seconds}>{seconds} seconds</option>
+          ))}
+          <option value="untimed">Untimed</option>
+        </select>
+      </div>
+
+      <div className="setup-row">
+        <label htmlFor="rf-count">Questions</label>
+        <select
+          id="rf-count"
+          value={settings.questionCount ?? 'all'}
+          onChange={(e) => updateSetting('questionCount', e.target.value === 'all' ? null : Number(e.target.value))}
+          className="setup-select"
+        >
+          {COUNT_OPTIONS.map(count => (
+            <option key={count} value={count}>{count}</option>
+          ))}
+          <option value="all">All available</option>
+        </select>
+      </div>
+
+      <div className="setup-row">
+        <label htmlFor="rf-direction">Direction</label>
+        <select
+          id="rf-direction"
+          value={settings.direction}
+          onChange={(e) => updateSetting('direction', e.target.value as QuizDirection)}
+          className="setup-select"
+        >
+          <option value="front-to-back">Front → Back</option>
+          <option value="back-to-front">Back → Front</option>
+        </select>
+      </div>
+
+      <div className="setup-row">
+        <label htmlFor="rf-answer-mode">Answers</label>
+        <select
+          id="rf-answer-mode"
+          value={settings.answerMode}
+          onChange={(e) => updateSetting('answerMode', e.target.value as QuizAnswerMode)}
+          className="setup-select"
+        >
+          <option value="typed">Type the answer</option>
+          <option value="multiple-choice">Multiple choice (keys 1–4)</option>
+        </select>
+      </div>
+      {settings.answerMode === 'multiple-choice' && flashcards.length < MULTIPLE_CHOICE_OPTIONS && (
+        <p className="setup-hint">
+          With fewer than {MULTIPLE_CHOICE_OPTIONS} cards, questions will have fewer than {MULTIPLE_CHOICE_OPTIONS} options.
+        </p>
+      )}
+
+      <fieldset className="setup-sources">
+        <legend>Cards</legend>
+        {(Object.keys(SOURCE_LABELS) as QuizCardSource[]).map(source => (
+          <label key={source} className="setup-source">
+            <input
+              type="radio"
+              name="rf-source"
+              checked={settings.cardSource === source}
+              onChange={() => updateSetting('cardSource', source)}
+            />
+            <span>{SOURCE_LABELS[source]}</span>
+            {source !== 'selection' && <span className="setup-source-count">{sourceCounts[source]}</span>}
+          </label>
+        ))}
+      </fieldset>
+
+      {settings.cardSource === 'selection' && (
+        <div className="setup-card-picker">
+          <div className="setup-card-picker-actions">
+            <button onClick={() => setSelectedIds(new Set(flashcards.map(card => card.id)))} className="setup-link-btn">
+              Select all
+            </button>
+            <button onClick={() => setSelectedIds(new Set())} className="setup-link-btn">
+              Clear
+            </button>
+          </div>
+          <ul className="setup-card-list">
+            {flashcards.map(card => (
+              <li key={card.id}>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(card.id)}
+                    onChange={() => toggleCard(card.id)}
+                  />
+                  <span>{getCardFaces(card).front}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <label className="setup-toggle">
+        <input
+          type="checkbox"
+          checked={settings.affectScheduling}
+          onChange={(e) => updateSetting('affectScheduling', e.target.checked)}
+        />
+        <span>Update review schedule from answers (misses come back sooner, hits on due cards push them out)</span>
+      </label>
+
+      <p className="setup-summary">
+        {questionTotal > 0
+          ? `${questionTotal} question${questionTotal === 1 ? '' : 's'}${settings.timePerQuestion ? `, ${settings.timePerQuestion}s each` : ', untimed'}`
+          : 'No cards match this selection'}
+      </p>
+
+      <div className="results-actions">
+        <button
+          onClick={() => onStart(settings, [...selectedIds])}
+          className="play-again-btn"
+          disabled={questionTotal === 0}
+        >
+          Start
+        </button>
+        <button onClick={onCancel} className="close-btn">
+          Cancel
+        </button>
+      </div>
+
+      {pastRounds.length > 0 && (
+        <div className="past-rounds">
+          <h3>Past Rounds</h3>
+          <table className="past-rounds-table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Score</th>
+                <th>Accuracy</th>
+                <th>Time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pastRounds.map(round => (
+                <tr key={round.id}>
+                  <td>{round.completedAt.toLocaleString()}</td>
+                  <td>{round.score}/{round.total}</td>
+                  <td>{round.accuracy}%</td>
+                  <td>{round.timeSpent}s</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RapidFireSetup;
@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from 'react';
+import type { FlashcardData } from '../types/flashcard';
+import type { ReviewLogEntry, ReviewOutcome, ReviewSource } from '../types/review';
+import { getFlashcardReviews } from '../services/repository';
+import { formatIntervalDays } from '../utils/scheduler';
+import { getCardFaces } from '../utils/cardFaces';
+import './ReviewHistory.css';
+
+interface ReviewHistoryProps {
+  flashcard: FlashcardData;
+  userId: string;
+}
+
+const SOURCE_LABELS: Record<ReviewSource, string> = {
+  'manual': 'Manual review',
+  'study-session': 'Study session',
+  'rapid-fire': 'Rapid Fire'
+};
+
+const OUTCOME_LABELS: Record<ReviewOutcome, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy',
+  correct: 'Correct',
+  partial: 'Partial',
+  incorrect: 'Incorrect'
+};
+
+const ReviewHistory: React.FC<ReviewHistoryProps> = ({ flashcard, userId }) => {
+  const [reviews, setReviews] = useState<ReviewLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadReviews = async () => {
+      setLoading(true);
+      setError(null);
+      
+      try {
+        setReviews(await getFlashcardReviews(flashcard.id, userId));
+      } catch (err) {
+        console.error('Error loading review history:', err);
+        setError('Failed to load review history.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReviews();
+  }, [flashcard.id, userId]);
+
+  return (
+    <div className="review-history">
+      <div className="review-history-card">
+        <p className="review-history-front">{getCardFaces(flashcard).front}</p>
+        <div className="review-history-meta">
+          <span>Reviews: {flashcard.reviewCount || 0}</span>
+          <span>Lapses: {flashcard.lapses || 0}</span>
+          {flashcard.easeFactor !== undefined && <span>Ease: {flashcard.easeFactor.toFixed(2)}</span>}
+          {flashcard.stability !== undefined && flashcard.stability > 0 && (
+            <span>Interval: {formatIntervalDays(flashcard.stability)}</span>
+          )}
+        </div>
+      </div>
+
+      {loading && <p className="review-history-empty">Loading history...</p>}
+      {error && <p className="review-history-error">{error}</p>}
+      {!loading && !error && reviews.length === 0 && (
+        <p className="review-history-empty">This card has not been reviewed yet.</p>
+      )}
+
+      {!loading && reviews.length > 0 && (
+        <table className="review-history-table">
+          <thead>
+            <tr>
+              <th>When</th>
+              <th>Source</th>
+              <th>Outcome</th>
+              <th>Time</th>
+              <th>Next in</th>
+            </tr>
+          </thead>
+          <tbody>
+            {reviews.map(review => (
+              <tr key={review.id}>
+                <td>{review.reviewedAt.toLocaleString()}</td>
+                <td>{SOURCE_LABELS[review.source] || review.source}</td>
+                <td className={`review-outcome outcome-${review.outcome}`}>
+                  {OUTCOME_LABELS[review.outcome] || review.outcome}
+                </td>
+                <td>{review.responseTimeMs !== undefined ? `${(review.responseTimeMs / 1000).toFixed(1)}s` : '—'}</td>
+                <td>{review.scheduledInterval !== undefined ? formatIntervalDays(review.scheduledInterval) : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default ReviewHistory;
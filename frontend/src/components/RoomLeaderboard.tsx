@@ -0,0 +1,32 @@
+import React from 'react';
+import type { RoomPlayer } from '../types/room';
+import { rankPlayers } from '../utils/roomUtils';
+import './RapidFireRoom.css';
+
+interface RoomLeaderboardProps {
+  players: RoomPlayer[];
+  currentUserId: string;
+  questionIndex?: number; // shows what each player earned on this question
+}
+
+const RoomLeaderboard: React.FC<RoomLeaderboardProps> = ({ players, currentUserId, questionIndex }) => (
+  <ol className="room-leaderboard">
+    {rankPlayers(players).map(({ player, rank }) => {
+      const answer = questionIndex !== undefined ? player.answers[questionIndex] : undefined;
+      return (
+        <li key={player.id} className={`room-leaderboard-row ${player.id === currentUserId ? 'current' : ''}`}>
+          <span className="room-rank">{rank}</span>
+          <span className="room-player-name">{player.name}</span>
+          {questionIndex !== undefined && (
+            <span className={`room-player-gain ${answer?.result ?? 'incorrect'}`}>
+              {answer ? `+${answer.points}` : '–'}
+            </span>
+          )}
+          <span className="room-player-score">{player.score}</span>
+        </li>
+      );
+    })}
+  </ol>
+);
+
+export default RoomLeaderboard;
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import type { QuizAnswerMode, QuizDirection } from '../types/quiz';
+import type { RoomSettings } from '../types/room';
+import { JOIN_CODE_LENGTH, MAX_ROOM_QUESTIONS, normalizeJoinCode } from '../utils/roomUtils';
+import './RapidFireSetup.css';
+import './RapidFireRoom.css';
+
+interface RoomSetupProps {
+  cardCount: number; // cards on hand for hosting
+  deckName: string;
+  isBusy: boolean;
+  onHost: (settings: RoomSettings, questionCount: number) => void;
+  onJoin: (code: string) => void;
+  onCancel: () => void;
+}
+
+const TIME_OPTIONS = [10, 15, 20, 30, 45];
+const COUNT_OPTIONS = [5, 10, 20, MAX_ROOM_QUESTIONS];
+
+const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+  timePerQuestion: 20,
+  answerMode: 'multiple-choice',
+  direction: 'front-to-back'
+};
+
+const RoomSetup: React.FC<RoomSetupProps> = ({ cardCount, deckName, isBusy, onHost, onJoin, onCancel }) => {
+  const [settings, setSettings] = useState<RoomSettings>(DEFAULT_ROOM_SETTINGS);
+  const [questionCount, setQuestionCount] = useState(10);
+  const [joinCode, setJoinCode] = useState('');
+
+  const questionTotal = Math.min(questionCount, cardCount);
+
+  const updateSetting = <K extends keyof RoomSettings>(key: K, value: RoomSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = normalizeJoinCode(joinCode);
+    if (code.length === JOIN_CODE_LENGTH) {
+      onJoin(code);
+    }
+  };
+
+  return (
+    <div className="rapid-fire-setup">
+      <h2>Multiplayer Rapid Fire</h2>
+
+      <form onSubmit={handleJoin} className="room-join-form">
+        <label htmlFor="room-code">Join a room</label>
+        <input
+          id="room-code"
+          type="text"
+          value={joinCode}
+          onChange={(e) => setJoinCode(e.target.value)}
+          placeholder="Join code"
+          className="room-code-input"
+          maxLength={JOIN_CODE_LENGTH + 2}
+          autoComplete="off"
+          disabled={isBusy}
+        />
+        <button
+          type="submit"
+          className="play-again-btn"
+          disabled={isBusy || normalizeJoinCode(joinCode).length !== JOIN_CODE_LENGTH}
+        >
+          Join
+        </button>
+      </form>
+
+      <fieldset className="setup-sources">
+        <legend>Host a room with {deckName}</legend>
+
+        <div className="setup-row">
+          <label htmlFor="room-time">Time per question</label>
+          <select
+            id="room-time"
+            value={settings.timePerQuestion}
+            onChange={(e) => updateSetting('timePerQuestion', Number(e.target.value))}
+            className="setup-select"
+          >
+            {TIME_OPTIONS.map(seconds => (
+              <option key={seconds} value={seconds}>{seconds} seconds</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="setup-row">
+          <label htmlFor="room-count">Questions</label>
+          <select
+            id="room-count"
+            value={questionCount}
+            onChange={(e) => setQuestionCount(Number(e.target.value))}
+            className="setup-select"
+          >
+            {COUNT_OPTIONS.map(count => (
+              <option key={count} value={count}>{count}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="setup-row">
+          <label htmlFor="room-direction">Direction</label>
+          <select
+            id="room-direction"
+            value={settings.direction}
+            onChange={(e) => updateSetting('direction', e.target.value as QuizDirection)}
+            className="setup-select"
+          >
+            <option value="front-to-back">Front → Back</option>
+            <option value="back-to-front">Back → Front</option>
+          </select>
+        </div>
+
+        <div className="setup-row">
+          <label htmlFor="room-answer-mode">Answers</label>
+          <select
+            id="room-answer-mode"
+            value={settings.answerMode}
+            onChange={(e) => updateSetting('answerMode', e.target.value as QuizAnswerMode)}
+            className="setup-select"
+          >
+            <option value="multiple-choice">Multiple choice (keys 1–4)</option>
+            <option value="typed">Type the answer</option>
+          </select>
+        </div>
+
+        <p className="setup-summary">
+          {questionTotal > 0
+            ? `${questionTotal} question${questionTotal === 1 ? '' : 's'}, ${settings.timePerQuestion}s each. Faster answers score more.`
+            : 'Add some cards to host a room'}
+        </p>
+
+        <div className="results-actions">
+          <button
+            onClick={() => onHost(settings, questionTotal)}
+            className="play-again-btn"
+            disabled={isBusy || questionTotal === 0}
+          >
+            Open Room
+          </button>
+        </div>
+      </fieldset>
+
+      <div className="results-actions">
+        <button onClick={onCancel} className="close-btn">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RoomSetup;
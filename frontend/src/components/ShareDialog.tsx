@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import type { SharedDeck } from '../types/share';
+import { getUserSharedDecks, revokeSharedDeck } from '../services/repository';
+import { getShareLink } from '../utils/share';
+import './ShareDialog.css';
+
+interface ShareDialogProps {
+  userId: string;
+  highlightedId?: string | null; // a deck that was just shared
+}
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ userId, highlightedId }) => {
+  const [sharedDecks, setSharedDecks] = useState<SharedDeck[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSharedDecks = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        setSharedDecks(await getUserSharedDecks(userId));
+      } catch (err) {
+        console.error('Error loading shared decks:', err);
+        setError('Failed to load shared decks.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSharedDecks();
+  }, [userId, highlightedId]);
+
+  const handleCopy = async (sharedDeckId: string) => {
+    try {
+      await navigator.clipboard.writeText(getShareLink(sharedDeckId));
+      setCopiedId(sharedDeckId);
+    } catch (err) {
+      console.error('Error copying share link:', err);
+      setError('Could not copy the link; select it and copy it instead.');
+    }
+  };
+
+  const handleRevoke = async (sharedDeck: SharedDeck) => {
+    if (!window.confirm(`Revoke the link to "${sharedDeck.name}"? Anyone who opens it will no longer see the deck. Copies already cloned are kept.`)) {
+      return;
+    }
+    setError(null);
+
+    try {
+      await revokeSharedDeck(sharedDeck.id);
+      setSharedDecks(prev => prev.filter(deck => deck.id !== sharedDeck.id));
+    } catch (err) {
+      console.error('Error revoking shared deck:', err);
+      setError('Failed to revoke the link. Please try again.');
+    }
+  };
+
+  return (
+    <div className="share-dialog">
+      <p className="share-dialog-hint">
+        Anyone with a link can preview the deck and clone a copy into their account. Links share the cards
+        as they were when shared, without their attachments or your review history.
+      </p>
+
+      {loading && <p className="share-dialog-empty">Loading shared decks...</p>}
+      {error && <p className="share-dialog-error">{error}</p>}
+      {!loading && sharedDecks.length === 0 && (
+        <p className="share-dialog-empty">You haven't shared any decks yet. Use 🔗 next to a deck to share it.</p>
+      )}
+
+      {sharedDecks.length > 0 && (
+        <ul className="share-list">
+          {sharedDecks.map(sharedDeck => (
+            <li
+              key={sharedDeck.id}
+              className={`share-item ${sharedDeck.id === highlightedId ? 'highlighted' : ''}`}
+            >
+              <div className="share-item-header">
+                <span className="share-item-name">{sharedDeck.name}</span>
+                <span className="share-item-meta">
+                  {sharedDeck.cardCount} card{sharedDeck.cardCount === 1 ? '' : 's'} · shared {sharedDeck.createdAt.toLocaleDateString()}
+                </span>
+              </div>
+              <div className="share-item-actions">
+                <input
+                  type="text"
+                  readOnly
+                  value={getShareLink(sharedDeck.id)}
+                  onFocus={(e) => e.target.select()}
+                  className="share-link-input"
+                  aria-label={`Share link for ${sharedDeck.name}`}
+                />
+                <button onClick={() => handleCopy(sharedDeck.id)} className="share-btn">
+                  {copiedId === sharedDeck.id ? 'Copied' : 'Copy link'}
+                </button>
+                <button onClick={() => handleRevoke(sharedDeck)} className="share-btn revoke">
+                  Revoke
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ShareDialog;
@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react';
+import type { SharedDeckContent } from '../types/share';
+import { cloneSharedDeck, getSharedDeck } from '../services/repository';
+import { getCardFaces } from '../utils/cardFaces';
+import { formatTimeInterval } from '../utils/timeUtils';
+import CardContent from './CardContent';
+import './SharedDeckPreview.css';
+
+interface SharedDeckPreviewProps {
+  sharedDeckId: string;
+  userId: string | null; // null until the visitor signs in
+  onSignIn: () => void;
+  onClose: () => void;
+}
+
+const SharedDeckPreview: React.FC<SharedDeckPreviewProps> = ({ sharedDeckId, userId, onSignIn, onClose }) => {
+  const [shared, setShared] = useState<SharedDeckContent | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [cloning, setCloning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSharedDeck = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const content = await getSharedDeck(sharedDeckId);
+        setShared(content);
+        if (!content) {
+          setError('This link is no longer available. The deck may have been unshared.');
+        }
+      } catch (err) {
+        console.error('Error loading shared deck:', err);
+        setError('Failed to load the shared deck.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSharedDeck();
+  }, [sharedDeckId]);
+
+  const handleClone = async () => {
+    if (!shared || !userId) return;
+
+    setCloning(true);
+    setError(null);
+
+    try {
+      await cloneSharedDeck(shared, userId);
+      onClose();
+    } catch (err) {
+      console.error('Error cloning shared deck:', err);
+      setError('Failed to clone the deck. Please try again.');
+      setCloning(false);
+    }
+  };
+
+  const isOwnDeck = shared?.deck.ownerId === userId;
+
+  return (
+    <div className="shared-deck-page">
+      <div className="shared-deck-card">
+        {loading && <p className="shared-deck-status">Loading shared deck...</p>}
+
+        {shared && (
+          <>
+            <div className="shared-deck-header">
+              <h2>{shared.deck.name}</h2>
+              <p className="shared-deck-meta">
+                Shared by {shared.deck.ownerName} · {shared.deck.cardCount} card{shared.deck.cardCount === 1 ? '' : 's'}
+                {shared.deck.revisionSettings && ` · new cards due in ${formatTimeInterval(shared.deck.revisionSettings.interval, shared.deck.revisionSettings.unit)}`}
+              </p>
+              {shared.deck.description && <p className="shared-deck-description">{shared.deck.description}</p>}
+            </div>
+
+            <ul className="shared-card-list">
+              {shared.cards.map(card => {
+                const faces = getCardFaces(card);
+                return (
+                  <li key={card.id} className="shared-card">
+                    <CardContent text={faces.front} format={card.format} className="shared-card-front" />
+                    <CardContent text={faces.back} format={card.format} className="shared-card-back" />
+                  </li>
+                );
+              })}
+            </ul>
+          </>
+        )}
+
+        {error && <p className="shared-deck-status error">{error}</p>}
+
+        <div className="shared-deck-actions">
+          {shared && userId && (
+            <button onClick={handleClone} className="shared-deck-btn primary" disabled={cloning}>
+              {cloning ? 'Cloning...' : isOwnDeck ? 'Clone a copy into my account' : 'Clone into my account'}
+            </button>
+          )}
+          {shared && !userId && (
+            <button onClick={onSignIn} className="shared-deck-btn primary">
+              Sign in to clone
+            </button>
+          )}
+          <button onClick={onClose} className="shared-deck-btn">
+            {userId ? 'Go to my flashcards' : 'Close'}
+          </button>
+        </div>
+        {shared && (
+          <p className="shared-deck-hint">
+            Cloned cards are yours to edit and start with a fresh review schedule.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharedDeckPreview;
@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { FlashcardData } from '../types/flashcard';
+import type { ReviewLogEntry } from '../types/review';
+import { getUserReviews } from '../services/repository';
+import {
+  getReviewHeatmap,
+  getCurrentStreak,
+  getWeeklyAccuracy,
+  getMaturityCounts,
+  getDueForecast,
+  MATURE_INTERVAL_DAYS
+} from '../utils/stats';
+import BarChart from './BarChart';
+import './StatsView.css';
+
+interface StatsViewProps {
+  flashcards: FlashcardData[];
+  userId: string;
+}
+
+const HEATMAP_WEEKS = 26;
+const ACCURACY_WEEKS = 12;
+const FORECAST_DAYS = 30;
+
+// Bucket a day's review count into one of five heatmap shades
+const getHeatLevel = (count: number, max: number): number => {
+  if (count === 0) return 0;
+  return Math.min(4, Math.ceil((count / Math.max(max, 1)) * 4));
+};
+
+const formatShortDate = (date: Date): string =>
+  date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const StatsView: React.FC<StatsViewProps> = ({ flashcards, userId }) => {
+  const [reviews, setReviews] = useState<ReviewLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadReviews = async () => {
+      setLoading(true);
+      setError(null);
+      
+      try {
+        const since = new Date();
+        since.setDate(since.getDate() - HEATMAP_WEEKS * 7);
+        setReviews(await getUserReviews(userId, since));
+      } catch (err) {
+        console.error('Error loading review statistics:', err);
+        setError('Failed to load review history.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReviews();
+  }, [userId]);
+
+  const heatmap = useMemo(() => {
+    // Pad the start so the first column begins on a Sunday
+    const days = getReviewHeatmap(reviews, HEATMAP_WEEKS * 7);
+    const padding = days[0].date.getDay();
+    return [...new Array(padding).fill(null), ...days];
+  }, [reviews]);
+  const maxPerDay = Math.max(0, ...heatmap.map(day => day?.count || 0));
+  const streak = useMemo(() => getCurrentStreak(reviews), [reviews]);
+  const accuracy = useMemo(() => getWeeklyAccuracy(reviews, ACCURACY_WEEKS), [reviews]);
+  const maturity = useMemo(() => getMaturityCounts(flashcards), [flashcards]);
+  const forecast = useMemo(() => getDueForecast(flashcards, FORECAST_DAYS), [flashcards]);
+
+  const totalAttempts = accuracy.reduce((sum, point) => sum + point.attempts, 0);
+  const overallAccuracy = totalAttempts > 0
+    ? Math.round(accuracy.reduce((sum, point) => sum + point.accuracy * point.attempts, 0) / totalAttempts)
+    : 0;
+
+  if (loading) {
+    return (
+      <div className="loading-state">
+        <div className="loading-spinner"></div>
+        <p>Loading statistics...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="stats-view">
+      {error && <p className="stats-error">{error}</p>}
+
+      <div className="stats-summary">
+        <div className="stats-tile">
+          <span className="stats-tile-value">{streak}</span>
+          <span className="stats-tile-label">Day streak</span>
+        </div>
+        <div className="stats-tile">
+          <span className="stats-tile-value">{reviews.length}</span>
+          <span className="stats-tile-label">Reviews ({HEATMAP_WEEKS} weeks)</span>
+        </div>
+        <div className="stats-tile">
+          <span className="stats-tile-value">{overallAccuracy}%</span>
+          <span className="stats-tile-label">Accuracy ({ACCURACY_WEEKS} weeks)</span>
+        </div>
+        <div className="stats-tile">
+          <span className="stats-tile-value">{forecast[0].count}</span>
+          <span className="stats-tile-label">Due today</span>
+        </div>
+      </div>
+
+      <section className="stats-section">
+        <h3>Reviews per day</h3>
+        <div className="heatmap" style={{ '--heatmap-weeks': Math.ceil(heatmap.length / 7) } as React.CSSProperties}>
+          {heatmap.map((day, i) => day ? (
+            <div
+              key={i}
+              className={`heatmap-cell level-${getHeatLevel(day.count, maxPerDay)}`}
+              title={`${day.date.toDateString()}: ${day.count} review${day.count === 1 ? '' : 's'}`}
+            />
+          ) : (
+            <div key={i} className="heatmap-cell empty" />
+          ))}
+        </div>
+      </section>
+
+      <section className="stats-section">
+        <h3>Accuracy by week</h3>
+        <BarChart
+          data={accuracy.map(point => ({
+            label: formatShortDate(point.weekStart),
+            value: point.accuracy,
+            title: `Week of ${formatShortDate(point.weekStart)}: ${point.accuracy}% of ${point.attempts} attempts`
+          }))}
+          maxValue={100}
+          valueSuffix="%"
+          variant="blue"
+        />
+      </section>
+
+      <section className="stats-section">
+        <h3>Card maturity</h3>
+        <div className="maturity-bar">
+          {(['new', 'young', 'mature'] as const).map(kind => maturity[kind] > 0 && (
+            <div
+              key={kind}
+              className={`maturity-segment ${kind}`}
+              style={{ flexGrow: maturity[kind] }}
+              title={`${kind}: ${maturity[kind]}`}
+            />
+          ))}
+        </div>
+        <div className="maturity-legend">
+          <span className="legend-item new">New: {maturity.new}</span>
+          <span className="legend-item young">Young: {maturity.young}</span>
+          <span className="legend-item mature">Mature (≥{MATURE_INTERVAL_DAYS}d): {maturity.mature}</span>
+        </div>
+      </section>
+
+      <section className="stats-section">
+        <h3>Due forecast (next {FORECAST_DAYS} days)</h3>
+        <BarChart
+          data={forecast.map(day => ({
+            label: formatShortDate(day.date),
+            value: day.count,
+            title: `${day.date.toDateString()}: ${day.count} card${day.count === 1 ? '' : 's'}`
+          }))}
+          variant="yellow"
+        />
+      </section>
+    </div>
+  );
+};
+
+export default StatsView;
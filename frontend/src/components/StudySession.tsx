@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { FlashcardData, ReviewGrade } from '../types/flashcard';
+import { REVIEW_GRADES, scheduleReview, formatIntervalDays } from '../utils/scheduler';
+import { getSideAttachments } from '../utils/attachments';
+import { getCardFaces } from '../utils/cardFaces';
+import CardContent from './CardContent';
+import CardMedia from './CardMedia';
+import './RapidFire.css';
+import './StudySession.css';
+
+interface StudySessionProps {
+  flashcards: FlashcardData[];
+  onReview: (id: string, grade: ReviewGrade, responseTimeMs: number) => Promise<void>;
+  onClose: () => void;
+}
+
+const GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy'
+};
+
+const EMPTY_GRADE_COUNTS: Record<ReviewGrade, number> = { again: 0, hard: 0, good: 0, easy: 0 };
+
+const StudySession: React.FC<StudySessionProps> = ({ flashcards, onReview, onClose }) => {
+  // Snapshot the queue when the session starts so rescheduled cards don't drop out mid-session
+  const [queue, setQueue] = useState<FlashcardData[]>(() => [...flashcards]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [gradeCounts, setGradeCounts] = useState<Record<ReviewGrade, number>>(EMPTY_GRADE_COUNTS);
+  const [reviewedIds, setReviewedIds] = useState<Set<string>>(new Set());
+  const [isFinished, setIsFinished] = useState(false);
+  const [startTime] = useState<number>(Date.now());
+  const [endTime, setEndTime] = useState<number | null>(null);
+  const [cardShownAt, setCardShownAt] = useState<number>(Date.now());
+  const [revealedAt, setRevealedAt] = useState<number | null>(null);
+
+  const currentCard = queue[currentIndex];
+
+  const finishSession = useCallback(() => {
+    setEndTime(Date.now());
+    setIsFinished(true);
+  }, []);
+
+  const handleGrade = useCallback(async (grade: ReviewGrade) => {
+    if (!currentCard || !isRevealed || isSaving) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      // Response time is how long it took to recall the answer, not to pick a grade
+      await onReview(currentCard.id, grade, (revealedAt ?? Date.now()) - cardShownAt);
+    } catch (err) {
+      console.error('Error saving review:', err);
+      setError('Failed to save this review. Please try again.');
+      setIsSaving(false);
+      return;
+    }
+
+    setGradeCounts(prev => ({ ...prev, [grade]: prev[grade] + 1 }));
+    setReviewedIds(prev => new Set(prev).add(currentCard.id));
+
+    // Forgotten cards come back at the end of the session
+    const nextQueue = grade === 'again' ? [...queue, currentCard] : queue;
+    setQueue(nextQueue);
+
+    if (currentIndex + 1 >= nextQueue.length) {
+      finishSession();
+    } else {
+      setCurrentIndex(currentIndex + 1);
+      setIsRevealed(false);
+      setRevealedAt(null);
+      setCardShownAt(Date.now());
+    }
+    setIsSaving(false);
+  }, [cardShownAt, currentCard, currentIndex, finishSession, isRevealed, isSaving, onReview, queue, revealedAt]);
+
+  const revealAnswer = () => {
+    setIsRevealed(true);
+    setRevealedAt(Date.now());
+  };
+
+  // Keyboard shortcuts: space reveals, 1-4 grade
+  useEffect(() => {
+    if (isFinished) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      } else if (!isRevealed && (e.key === ' ' || e.key === 'Enter')) {
+        e.preventDefault();
+        revealAnswer();
+      } else if (isRevealed) {
+        const grade = REVIEW_GRADES[Number(e.key) - 1];
+        if (grade) {
+          handleGrade(grade);
+        }
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [handleGrade, isFinished, isRevealed, onClose]);
+
+  if (queue.length === 0) {
+    return (
+      <div className="rapid-fire-overlay">
+        <div className="rapid-fire-container">
+          <div className="no-cards-message">
+            <h2>Nothing Due</h2>
+            <p>You're all caught up. Come back when your next cards are due!</p>
+            <button onClick={onClose} className="close-btn">
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (isFinished) {
+    const totalAnswers = REVIEW_GRADES.reduce((sum, grade) => sum + gradeCounts[grade], 0);
+    const recalled = totalAnswers - gradeCounts.again;
+    const retention = totalAnswers > 0 ? Math.round((recalled / totalAnswers) * 100) : 0;
+    const timeSpent = Math.round(((endTime ?? Date.now()) - startTime) / 1000);
+
+    return (
+      <div className="rapid-fire-overlay">
+        <div className="rapid-fire-container">
+          <div className="results-screen">
+            <h2>Session Complete!</h2>
+            <div className="results-stats">
+              <div className="stat">
+                <span className="stat-label">Cards</span>
+                <span className="stat-value">{reviewedIds.size}</span>
+              </div>
+              <div className="stat">
+                <span className="stat-label">Recalled</span>
+                <span className="stat-value">{retention}%</span>
+              </div>
+              <div className="stat">
+                <span className="stat-label">Time</span>
+                <span className="stat-value">{timeSpent}s</span>
+              </div>
+            </div>
+            <div className="session-grade-summary">
+              {REVIEW_GRADES.map(grade => (
+                <div key={grade} className={`session-grade-count grade-${grade}`}>
+                  <span>{GRADE_LABELS[grade]}</span>
+                  <strong>{gradeCounts[grade]}</strong>
+                </div>
+              ))}
+            </div>
+            <div className="results-actions">
+              <button onClick={onClose} className="play-again-btn">
+                Done
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rapid-fire-overlay">
+      <div className="rapid-fire-container">
+        <div className="rapid-fire-header">
+          <div className="progress-info">
+            <span className="question-counter">
+              Card {currentIndex + 1} of {queue.length}
+            </span>
+            <span className="score">Reviewed: {reviewedIds.size}</span>
+          </div>
+        </div>
+
+        <div className="question-container">
+          <div className="question-card">
+            <CardContent as="h3" text={getCardFaces(currentCard).front} format={currentCard.format} className="question-text" />
+            <CardMedia attachments={getSideAttachments(currentCard, 'front')} />
+          </div>
+
+          {isRevealed ? (
+            <div className="study-answer">
+              <CardContent text={getCardFaces(currentCard).back} format={currentCard.format} className="study-answer-text" />
+              <CardMedia attachments={getSideAttachments(currentCard, 'back')} />
+            </div>
+          ) : (
+            <button onClick={revealAnswer} className="submit-btn study-reveal-btn">
+              Show Answer <span className="study-shortcut">Space</span>
+            </button>
+          )}
+
+          {isRevealed && (
+            <div className="study-grades">
+              {REVIEW_GRADES.map((grade, index) => (
+                <button
+                  key={grade}
+                  onClick={() => handleGrade(grade)}
+                  className={`study-grade-btn grade-${grade}`}
+                  disabled={isSaving}
+                >
+                  <span>{GRADE_LABELS[grade]}</span>
+                  <span className="study-grade-interval">
+                    {formatIntervalDays(scheduleReview(currentCard, grade).interval)}
+                  </span>
+                  <span className="study-shortcut">{index + 1}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {error && <p className="study-error">{error}</p>}
+        </div>
+
+        <div className="rapid-fire-actions">
+          <button onClick={finishSession} className="quit-btn">
+            End Session
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StudySession;
@@ -0,0 +1,49 @@
+import React, { useEffect, useState } from 'react';
+import type { SyncStatus } from '../types/sync';
+import { clearSyncError, subscribeToSyncStatus } from '../services/repository';
+import './SyncStatusIndicator.css';
+
+// Shows whether local changes have reached the server: synced, pending or error
+const SyncStatusIndicator: React.FC = () => {
+  const [status, setStatus] = useState<SyncStatus>({ state: 'synced' });
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => subscribeToSyncStatus(setStatus), []);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  if (status.state === 'error') {
+    return (
+      <button
+        type="button"
+        className="sync-status sync-status-error"
+        onClick={clearSyncError}
+        title={`${status.error}. Reload to see what the server kept. Click to dismiss.`}
+      >
+        Sync error
+      </button>
+    );
+  }
+
+  const label = status.state === 'pending' ? 'Pending' : 'Synced';
+  return (
+    <span
+      className={`sync-status sync-status-${status.state}`}
+      role="status"
+      title={isOnline ? undefined : 'Offline: changes are saved on this device and sent when you reconnect'}
+    >
+      {isOnline ? label : `Offline · ${label}`}
+    </span>
+  );
+};
+
+export default SyncStatusIndicator;
@@ -0,0 +1,103 @@
+import React, { useEffect, useRef, useState } from 'react';
+import './VirtualGrid.css';
+
+interface VirtualGridProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  minColumnWidth: number;
+  rowHeight: number; // height of one row of items, not counting the gap
+  gap: number;
+  overscanRows?: number; // rows kept mounted above and below the viewport
+  onEndReached?: () => void; // called when the last rows come into view
+}
+
+interface Viewport {
+  width: number;
+  firstRow: number; // first row at least partly inside the window
+  rowsInView: number;
+}
+
+// A grid that only mounts the rows near the window's viewport, so thousands of items
+// scroll as smoothly as a few dozen. Rows have a fixed height; columns fill the width.
+function VirtualGrid<T>({
+  items,
+  getKey,
+  renderItem,
+  minColumnWidth,
+  rowHeight,
+  gap,
+  overscanRows = 2,
+  onEndReached
+}: VirtualGridProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState<Viewport>({ width: 0, firstRow: 0, rowsInView: 1 });
+  const rowPitch = rowHeight + gap;
+
+  // Measure on scroll and resize, but only re-render when the visible rows or width change
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const measure = () => {
+      const rect = container.getBoundingClientRect();
+      const next: Viewport = {
+        width: rect.width,
+        firstRow: Math.max(0, Math.floor(-rect.top / rowPitch)),
+        rowsInView: Math.ceil(window.innerHeight / rowPitch) + 1
+      };
+      setViewport(prev =>
+        prev.width === next.width && prev.firstRow === next.firstRow && prev.rowsInView === next.rowsInView
+          ? prev
+          : next
+      );
+    };
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    window.addEventListener('scroll', measure, { passive: true });
+    window.addEventListener('resize', measure);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('scroll', measure);
+      window.removeEventListener('resize', measure);
+    };
+  }, [rowPitch]);
+
+  const columns = Math.max(1, Math.floor((viewport.width + gap) / (minColumnWidth + gap)));
+  const rowCount = Math.ceil(items.length / columns);
+  const firstRow = Math.min(Math.max(0, viewport.firstRow - overscanRows), Math.max(0, rowCount - 1));
+  const lastRow = Math.min(rowCount - 1, viewport.firstRow + viewport.rowsInView + overscanRows);
+  const isEndInView = rowCount > 0 && viewport.firstRow + viewport.rowsInView >= rowCount - 1;
+
+  useEffect(() => {
+    if (isEndInView) {
+      onEndReached?.();
+    }
+  }, [isEndInView, items.length, onEndReached]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="virtual-grid"
+      style={{ height: Math.max(0, rowCount * rowPitch - gap) }}
+    >
+      <div
+        className="virtual-grid-window"
+        style={{
+          transform: `translateY(${firstRow * rowPitch}px)`,
+          gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+          gridAutoRows: rowHeight,
+          gap
+        }}
+      >
+        {items.slice(firstRow * columns, (lastRow + 1) * columns).map(item => (
+          <React.Fragment key={getKey(item)}>{renderItem(item)}</React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default VirtualGrid;
@@ -1,6 +1,7 @@
 import { initializeApp } from 'firebase/app';
-import { getAuth, GoogleAuthProvider } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import { connectAuthEmulator, getAuth, GoogleAuthProvider } from 'firebase/auth';
+import { connectFirestoreEmulator, initializeFirestore, persistentLocalCache, persistentMultipleTabManager } from 'firebase/firestore';
+import { connectStorageEmulator, getStorage } from 'firebase/storage';
 
 const firebaseConfig = {
   apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
@@ -18,8 +19,35 @@ const app = initializeApp(firebaseConfig);
 // Initialize Firebase Authentication and get a reference to the service
 export const auth = getAuth(app);
 
-// Initialize Firestore and get a reference to the service
-export const db = getFirestore(app);
+// Point Authentication at the local emulator when configured, e.g. VITE_FIREBASE_AUTH_EMULATOR_HOST=127.0.0.1:9099.
+// The emulator signs in made-up accounts, so several players can try a multiplayer room on one machine.
+const authEmulatorHost = import.meta.env.VITE_FIREBASE_AUTH_EMULATOR_HOST;
+if (authEmulatorHost) {
+  connectAuthEmulator(auth, `http://${authEmulatorHost}`, { disableWarnings: true });
+}
+
+// Initialize Firestore with a persistent local cache, so cards load and edits save while offline.
+// Writes are kept in IndexedDB until the server acknowledges them, across reloads and shared by all tabs.
+export const db = initializeFirestore(app, {
+  localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() })
+});
+
+// Point Firestore at the local emulator when configured, e.g. VITE_FIREBASE_FIRESTORE_EMULATOR_HOST=127.0.0.1:8080
+const firestoreEmulatorHost = import.meta.env.VITE_FIREBASE_FIRESTORE_EMULATOR_HOST;
+if (firestoreEmulatorHost) {
+  const [host, port] = firestoreEmulatorHost.split(':');
+  connectFirestoreEmulator(db, host, Number(port) || 8080);
+}
+
+// Initialize Cloud Storage for card attachments
+export const storage = getStorage(app);
+
+// Point Storage at the local emulator when configured, e.g. VITE_FIREBASE_STORAGE_EMULATOR_HOST=127.0.0.1:9199
+const storageEmulatorHost = import.meta.env.VITE_FIREBASE_STORAGE_EMULATOR_HOST;
+if (storageEmulatorHost) {
+  const [host, port] = storageEmulatorHost.split(':');
+  connectStorageEmulator(storage, host, Number(port) || 9199);
+}
 
 // Initialize Google Auth Provider
 export const googleProvider = new GoogleAuthProvider();
@@ -0,0 +1,269 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment
+} from '@firebase/rules-unit-testing';
+import firebase from 'firebase/compat/app';
+
+// These tests need the Firestore emulator, so `npm test` skips them; run them with `npm run test:rules`
+
+const { FieldValue, Timestamp } = firebase.firestore;
+
+let testEnv: RulesTestEnvironment;
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-flashcards',
+    firestore: { rules: readFileSync(new URL('../../../firestore.rules', import.meta.url), 'utf8') }
+  });
+});
+
+afterAll(() => testEnv.cleanup());
+
+beforeEach(() => testEnv.clearFirestore());
+
+// Invites are matched to a verified email, which tests give every user as <uid>@example.com
+const firestoreAs = (uid: string) =>
+  testEnv.authenticatedContext(uid, { email: `${uid}@example.com`, email_verified: true }).firestore();
+
+// Write documents as they would already be in the database, without the rules
+const seed = (documents: Record<string, firebase.firestore.DocumentData>) =>
+  testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await Promise.all(Object.entries(documents).map(([path, data]) => db.doc(path).set(data)));
+  });
+
+describe('shared decks', () => {
+  beforeEach(() => seed({
+    'sharedDecks/share1': { ownerId: 'alice', ownerName: 'Alice', name: 'Spanish', cardCount: 1 },
+    'sharedDecks/share1/cards/card1': { front: 'perro', back: 'dog' }
+  }));
+
+  it('opens a link for anyone, signed in or not', async () => {
+    await assertSucceeds(firestoreAs('bob').doc('sharedDecks/share1').get());
+    await assertSucceeds(testEnv.unauthenticatedContext().firestore().doc('sharedDecks/share1').get());
+    await assertSucceeds(firestoreAs('bob').collection('sharedDecks/share1/cards').get());
+  });
+
+  it("only lists a user's own shares", async () => {
+    await assertSucceeds(firestoreAs('alice').collection('sharedDecks').where('ownerId', '==', 'alice').get());
+    await assertFails(firestoreAs('bob').collection('sharedDecks').where('ownerId', '==', 'alice').get());
+    await assertFails(firestoreAs('bob').collection('sharedDecks').get());
+  });
+
+  it('lets only the owner revoke a share, which closes its cards', async () => {
+    await assertFails(firestoreAs('bob').doc('sharedDecks/share1').delete());
+    await assertSucceeds(firestoreAs('alice').doc('sharedDecks/share1').delete());
+
+    await assertFails(firestoreAs('bob').doc('sharedDecks/share1/cards/card1').get());
+  });
+
+  it('never edits a published share', async () => {
+    await assertFails(firestoreAs('alice').doc('sharedDecks/share1').update({ name: 'Renamed' }));
+  });
+});
+
+describe('account data', () => {
+  beforeEach(() => seed({
+    'flashcards/aliceCard': { userId: 'alice', front: 'uno', back: 'one' },
+    'reviews/review1': { userId: 'alice', flashcardId: 'aliceCard', outcome: 'good' },
+    'settings/alice': { theme: 'dark' }
+  }));
+
+  it("keeps other users out of a user's cards, reviews and settings", async () => {
+    const bob = firestoreAs('bob');
+    await assertFails(bob.doc('flashcards/aliceCard').get());
+    await assertFails(bob.doc('flashcards/aliceCard').update({ front: 'dos' }));
+    await assertFails(bob.doc('flashcards/aliceCard').delete());
+    await assertFails(bob.collection('flashcards').where('userId', '==', 'alice').get());
+    await assertFails(bob.doc('reviews/review1').get());
+    await assertFails(bob.doc('settings/alice').set({ theme: 'light' }));
+  });
+
+  it('never writes a card in, or hands one to, another account', async () => {
+    const bob = firestoreAs('bob');
+    await assertFails(bob.doc('flashcards/forged').set({ userId: 'alice', front: 'a', back: 'b' }));
+
+    await seed({ 'flashcards/bobCard': { userId: 'bob', front: 'a', back: 'b' } });
+    await assertFails(bob.doc('flashcards/bobCard').update({ userId: 'alice' }));
+    await assertSucceeds(bob.doc('flashcards/bobCard').update({ front: 'c' }));
+  });
+
+  it('creates review logs but never rewrites them', async () => {
+    const alice = firestoreAs('alice');
+    await assertSucceeds(alice.doc('reviews/review2').set({ userId: 'alice', flashcardId: 'aliceCard', outcome: 'hard' }));
+    await assertFails(alice.doc('reviews/review1').set({ userId: 'alice', flashcardId: 'aliceCard', outcome: 'good' }));
+  });
+});
+
+describe('team decks', () => {
+  const members = (roles: Record<string, string>) => ({
+    members: Object.fromEntries(Object.entries(roles).map(([uid, role]) => [uid, { name: uid, role }])),
+    memberIds: Object.keys(roles)
+  });
+
+  beforeEach(() => seed({
+    'decks/team': {
+      userId: 'alice',
+      name: 'Team',
+      ...members({ alice: 'owner', bob: 'editor', carol: 'viewer' }),
+      invites: { 'dave@example.com': 'viewer' },
+      invitedEmails: ['dave@example.com']
+    },
+    'flashcards/aliceCard': { userId: 'alice', deckId: 'team', front: 'uno', back: 'one' },
+    'flashcards/bobCard': { userId: 'bob', deckId: 'team', front: 'dos', back: 'two' }
+  }));
+
+  it("lets editors change another member's card but not its schedule", async () => {
+    const bob = firestoreAs('bob');
+    await assertSucceeds(bob.doc('flashcards/aliceCard').update({ front: 'UNO', tags: ['numbers'] }));
+    await assertFails(bob.doc('flashcards/aliceCard').update({ nextRevision: new Date() }));
+    await assertSucceeds(bob.doc('flashcards/aliceCard').delete());
+  });
+
+  it('lets viewers read the cards but not change them', async () => {
+    const carol = firestoreAs('carol');
+    await assertSucceeds(carol.doc('flashcards/aliceCard').get());
+    await assertSucceeds(carol.collection('flashcards').where('deckId', '==', 'team').get());
+    await assertFails(carol.doc('flashcards/aliceCard').update({ front: 'UNO' }));
+    await assertFails(carol.doc('flashcards/aliceCard').delete());
+    await assertFails(carol.doc('flashcards/carolCard').set({ userId: 'carol', deckId: 'team', front: 'a', back: 'b' }));
+  });
+
+  it('takes editing away from an author who is demoted, but leaves them their schedule', async () => {
+    await seed({ 'decks/team': { userId: 'alice', name: 'Team', ...members({ alice: 'owner', bob: 'viewer' }) } });
+    const bob = firestoreAs('bob');
+
+    await assertFails(bob.doc('flashcards/bobCard').update({ front: 'DOS' }));
+    await assertFails(bob.doc('flashcards/bobCard').update({ deckId: FieldValue.delete() }));
+    await assertFails(bob.doc('flashcards/bobCard').delete());
+    await assertSucceeds(bob.doc('flashcards/bobCard').update({ nextRevision: new Date(), reviewCount: 1 }));
+  });
+
+  it('takes editing away from an author who is removed', async () => {
+    await seed({ 'decks/team': { userId: 'alice', name: 'Team', ...members({ alice: 'owner' }) } });
+    const bob = firestoreAs('bob');
+
+    await assertFails(bob.doc('flashcards/bobCard').update({ front: 'DOS' }));
+    await assertFails(bob.doc('flashcards/bobCard').delete());
+    await assertSucceeds(bob.doc('flashcards/bobCard').get());
+  });
+
+  it("keeps a card outside any deck its author's alone", async () => {
+    await seed({ 'flashcards/loose': { userId: 'bob', front: 'tres', back: 'three' } });
+    await assertSucceeds(firestoreAs('bob').doc('flashcards/loose').update({ front: 'TRES' }));
+    await assertFails(firestoreAs('alice').doc('flashcards/loose').update({ front: 'TRES' }));
+    await assertSucceeds(firestoreAs('bob').doc('flashcards/loose').delete());
+  });
+
+  it('lets only owners manage members, and invitees join with the role offered', async () => {
+    const promote = { 'members.carol.role': 'owner' };
+    await assertFails(firestoreAs('bob').doc('decks/team').update(promote));
+    await assertSucceeds(firestoreAs('alice').doc('decks/team').update(promote));
+
+    // Answered the way the app does, since the invite key is an email address with dots in it
+    const dave = firestoreAs('dave').doc('decks/team');
+    const accept = (role: string) => dave.update(
+      new firebase.firestore.FieldPath('invites', 'dave@example.com'), FieldValue.delete(),
+      'invitedEmails', FieldValue.arrayRemove('dave@example.com'),
+      'members.dave', { name: 'Dave', role },
+      'memberIds', FieldValue.arrayUnion('dave')
+    );
+    await assertSucceeds(dave.get());
+    await assertFails(accept('editor'));
+    await assertSucceeds(accept('viewer'));
+  });
+});
+
+describe('multiplayer rooms', () => {
+  const room = (questionStartedAt: firebase.firestore.Timestamp) => ({
+    hostId: 'alice',
+    hostName: 'Alice',
+    title: 'Spanish',
+    settings: { timePerQuestion: 20, answerMode: 'typed', direction: 'front-to-back' },
+    questions: [{ prompt: 'perro' }, { prompt: 'gato' }],
+    reveals: {},
+    status: 'question',
+    currentIndex: 0,
+    questionStartedAt
+  });
+  const player = { name: 'Player', score: 0, answers: {} };
+
+  beforeEach(() => seed({
+    'rooms/ROOM01': room(Timestamp.now()),
+    'rooms/ROOM01/answerKey/alice': { answers: [{ answer: 'dog', answers: ['dog'] }, { answer: 'cat', answers: ['cat'] }] },
+    'rooms/ROOM01/players/alice': player,
+    'rooms/ROOM01/players/bob': player
+  }));
+
+  const submission = (userId: string, questionIndex = 0) => ({
+    userId,
+    questionIndex,
+    answer: 'dog',
+    submittedAt: FieldValue.serverTimestamp()
+  });
+
+  it('opens a room by its code but never lists rooms', async () => {
+    await assertSucceeds(firestoreAs('bob').doc('rooms/ROOM01').get());
+    await assertFails(firestoreAs('bob').collection('rooms').get());
+    await assertFails(testEnv.unauthenticatedContext().firestore().doc('rooms/ROOM01').get());
+  });
+
+  it('keeps the answers with the host', async () => {
+    await assertFails(firestoreAs('bob').doc('rooms/ROOM01/answerKey/alice').get());
+    await assertSucceeds(firestoreAs('alice').doc('rooms/ROOM01/answerKey/alice').get());
+  });
+
+  it('takes one answer per player for the open question', async () => {
+    const bob = firestoreAs('bob');
+    await assertFails(bob.doc('rooms/ROOM01/submissions/0_bob').set({ ...submission('bob'), points: 1000 }));
+    await assertFails(bob.doc('rooms/ROOM01/submissions/0_bob').set({ ...submission('bob'), submittedAt: Timestamp.now() }));
+    await assertSucceeds(bob.doc('rooms/ROOM01/submissions/0_bob').set(submission('bob')));
+    await assertFails(bob.doc('rooms/ROOM01/submissions/0_bob').set(submission('bob')));
+    await assertFails(bob.doc('rooms/ROOM01/submissions/1_bob').set(submission('bob', 1)));
+    await assertFails(bob.doc('rooms/ROOM01/submissions/0_carol').set(submission('carol')));
+  });
+
+  it('refuses answers once time is up', async () => {
+    await seed({ 'rooms/ROOM01': room(Timestamp.fromMillis(Date.now() - 60_000)) });
+    await assertFails(firestoreAs('bob').doc('rooms/ROOM01/submissions/0_bob').set(submission('bob')));
+  });
+
+  it("hides players' answers from everyone but the host", async () => {
+    await seed({ 'rooms/ROOM01/submissions/0_alice': { ...submission('alice'), submittedAt: Timestamp.now() } });
+    await assertFails(firestoreAs('bob').doc('rooms/ROOM01/submissions/0_alice').get());
+    await assertFails(firestoreAs('bob').collection('rooms/ROOM01/submissions').where('questionIndex', '==', 0).get());
+    await assertSucceeds(firestoreAs('alice').collection('rooms/ROOM01/submissions').where('questionIndex', '==', 0).get());
+  });
+
+  it('never lets players score themselves', async () => {
+    const bob = firestoreAs('bob');
+    await assertFails(bob.doc('rooms/ROOM01/players/bob').update({ score: 1000 }));
+    await assertFails(bob.doc('rooms/ROOM01/players/bob').update({
+      'answers.0': { result: 'correct', responseTimeMs: 1000, points: 1000 },
+      score: FieldValue.increment(1000)
+    }));
+    await assertSucceeds(bob.doc('rooms/ROOM01/players/bob').update({ name: 'Bobby', joinedAt: FieldValue.serverTimestamp() }));
+  });
+
+  it('lets the host score each answer once, as the question is revealed', async () => {
+    const alice = firestoreAs('alice');
+    const reveal = (points: number, scoreIncrement: number) => {
+      const batch = alice.batch();
+      batch.update(alice.doc('rooms/ROOM01'), { status: 'reveal', 'reveals.0': { answer: 'dog', answers: ['dog'] } });
+      batch.update(alice.doc('rooms/ROOM01/players/bob'), {
+        'answers.0': { result: 'correct', responseTimeMs: 4000, points },
+        score: FieldValue.increment(scoreIncrement)
+      });
+      return batch.commit();
+    };
+
+    await assertFails(reveal(900, 1000));
+    await assertFails(reveal(5000, 5000));
+    await assertSucceeds(reveal(900, 900));
+    await assertFails(reveal(900, 900));
+  });
+});
@@ -1,49 +1,357 @@
 import { 
   collection, 
   doc, 
-  addDoc, 
+  setDoc,
+  getDoc,
   updateDoc, 
   deleteDoc, 
   getDocs, 
   query, 
   where, 
   orderBy,
+  limit,
   serverTimestamp,
+  increment,
+  writeBatch,
+  deleteField,
+  onSnapshot,
+  startAfter,
+  endAt,
+  getCountFromServer,
+  arrayUnion,
+  arrayRemove,
+  FieldPath,
+  waitForPendingWrites,
   type DocumentData,
-  type QuerySnapshot
+  type FirestoreError,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+  type Unsubscribe,
+  type QuerySnapshot,
+  type WriteBatch
 } from 'firebase/firestore';
-import { db } from '../firebase';
-import type { FlashcardData } from '../types/flashcard';
+import { onAuthStateChanged } from 'firebase/auth';
+import { auth, db } from '../firebase';
+import type { CardAttachment, CardSchedule, FlashcardData } from '../types/flashcard';
+import type { Deck, DeckCardAction, DeckRole } from '../types/deck';
+import type { ReviewLogEntry } from '../types/review';
+import type { UserSettings } from '../types/settings';
+import type { QuizRound } from '../types/quiz';
+import type { SyncStatus } from '../types/sync';
+import type { SharedCard, SharedDeck, SharedDeckContent } from '../types/share';
+import type { ScheduleResult } from '../utils/scheduler';
+import type { AccountBackup, AccountData, RestoreConflictStrategy, RestoreMode } from '../types/backup';
+import { withFreshIds } from '../utils/backup';
+import { getRemovedAttachments } from '../utils/attachments';
+import { changeTags } from '../utils/flashcardFilters';
+import { withMemberSchedule } from '../utils/deckUtils';
+import { toClonedFlashcards, toSharedCards } from '../utils/share';
+import { deleteAttachments } from './storageService';
+import { FLASHCARD_PAGE_SIZE, NOTE_FIELDS } from './flashcardRepository';
+import type {
+  BulkAction,
+  BulkChunk,
+  DeckUser,
+  FlashcardFeed,
+  FlashcardPage,
+  FlashcardRepository,
+  FlashcardUpdates,
+  NoteUpdates,
+  ScheduledFlashcard
+} from './flashcardRepository';
 
-// Collection name for flashcards
+// Collection names
 const FLASHCARDS_COLLECTION = 'flashcards';
+const DECKS_COLLECTION = 'decks';
+const REVIEWS_COLLECTION = 'reviews';
+const SETTINGS_COLLECTION = 'settings';
+const QUIZ_ROUNDS_COLLECTION = 'quizRounds';
+const SHARED_DECKS_COLLECTION = 'sharedDecks';
+// Subcollection of a shared deck holding its cards
+const SHARED_CARDS_COLLECTION = 'cards';
+// Team deck members' own schedules for cards other members added
+const CARD_PROGRESS_COLLECTION = 'cardProgress';
+
+// Firestore allows at most 500 writes per batch
+const BATCH_LIMIT = 500;
+
+type BatchWrite = (batch: WriteBatch) => void;
+
+// Outbox: Firestore applies every write to the local cache as soon as it is made and keeps
+// retrying it until the server acknowledges it, including after a reload. Mutations therefore
+// return without waiting for the server. Whether writes are still on their way is asked of
+// Firestore itself, since its queue outlives the page.
+let isWaitingForWrites = false;
+// Counts the writes made, to tell whether more came in while waiting for earlier ones
+let writeCount = 0;
+let syncError: string | undefined;
+const syncListeners = new Set<(status: SyncStatus) => void>();
+
+const getSyncStatus = (): SyncStatus => ({
+  state: syncError ? 'error' : isWaitingForWrites ? 'pending' : 'synced',
+  ...(syncError ? { error: syncError } : {})
+});
+
+const notifySyncListeners = (): void => {
+  const status = getSyncStatus();
+  syncListeners.forEach((listener) => listener(status));
+};
+
+// Wait until Firestore has sent every write queued for the signed-in user. It only waits for
+// the writes queued when asked, so ask again if more were made in the meantime.
+const watchPendingWrites = (): void => {
+  if (isWaitingForWrites) return;
+  isWaitingForWrites = true;
+  notifySyncListeners();
+  const writesBefore = writeCount;
+  waitForPendingWrites(db)
+    .then(() => {
+      isWaitingForWrites = false;
+      if (writeCount !== writesBefore) {
+        watchPendingWrites();
+      } else {
+        notifySyncListeners();
+      }
+    })
+    .catch((error) => {
+      isWaitingForWrites = false;
+      // Signing in or out switches to that user's queue, which may hold writes from an earlier visit
+      if (error.code === 'cancelled') {
+        watchPendingWrites();
+      } else {
+        notifySyncListeners();
+      }
+    });
+};
+
+onAuthStateChanged(auth, watchPendingWrites);
+
+// Call `listener` with the current sync status and whenever it changes; returns an unsubscribe function
+export const subscribeToSyncStatus = (listener: (status: SyncStatus) => void): (() => void) => {
+  syncListeners.add(listener);
+  listener(getSyncStatus());
+  return () => {
+    syncListeners.delete(listener);
+  };
+};
+
+// Dismiss the last sync error once the user has seen it
+export const clearSyncError = (): void => {
+  syncError = undefined;
+  notifySyncListeners();
+};
+
+// Report a write that has been applied locally once the server acknowledges or rejects it.
+// A rejected write is already visible locally, so it is reported through the sync status.
+const enqueueWrite = (description: string, acknowledged: Promise<void>): void => {
+  writeCount += 1;
+  watchPendingWrites();
+  acknowledged.catch((error) => {
+    console.error(`Error syncing ${description}:`, error);
+    syncError = `Failed to sync ${description}`;
+    notifySyncListeners();
+  });
+};
+
+// Commit writes in as many batches as needed to stay under the per-batch limit;
+// returns when each batch is acknowledged
+const commitInChunks = (writes: BatchWrite[], description: string): Promise<void>[] => {
+  const acknowledgements: Promise<void>[] = [];
+  for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    writes.slice(i, i + BATCH_LIMIT).forEach((write) => write(batch));
+    const acknowledged = batch.commit();
+    enqueueWrite(description, acknowledged);
+    acknowledgements.push(acknowledged);
+  }
+  return acknowledgements;
+};
 
 // Convert Firestore document to FlashcardData
 const convertDocToFlashcard = (doc: DocumentData): FlashcardData => {
-  const data = doc.data();
+  // Writes still in the outbox have no server time yet; estimate it so new cards sort first
+  const data = doc.data({ serverTimestamps: 'estimate' });
   return {
     id: doc.id,
     front: data.front,
     back: data.back,
+    format: data.format || undefined,
+    attachments: data.attachments || undefined,
+    cardType: data.cardType || undefined,
+    clozeIndex: data.clozeIndex ?? undefined,
+    noteId: data.noteId || undefined,
+    acceptedAnswers: data.acceptedAnswers || undefined,
     createdAt: data.createdAt?.toDate() || new Date(),
     userId: data.userId,
+    deckId: data.deckId || undefined,
+    tags: data.tags || [],
     nextRevision: data.nextRevision?.toDate() || undefined,
     revisionInterval: data.revisionInterval || undefined,
     revisionSettings: data.revisionSettings || undefined,
     lastReviewed: data.lastReviewed?.toDate() || undefined,
-    reviewCount: data.reviewCount || 0
+    reviewCount: data.reviewCount || 0,
+    easeFactor: data.easeFactor ?? undefined,
+    stability: data.stability ?? undefined,
+    lapses: data.lapses ?? undefined
+  };
+};
+
+// Convert Firestore document to Deck
+const convertDocToDeck = (doc: DocumentData): Deck => {
+  const data = doc.data({ serverTimestamps: 'estimate' });
+  return {
+    id: doc.id,
+    name: data.name,
+    description: data.description || undefined,
+    userId: data.userId,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    revisionSettings: data.revisionSettings || undefined,
+    clonedFrom: data.clonedFrom || undefined,
+    clonedFromOwner: data.clonedFromOwner || undefined,
+    clonedAt: data.clonedAt?.toDate() || undefined,
+    members: data.members && Object.keys(data.members).length > 0 ? data.members : undefined,
+    invites: data.invites && Object.keys(data.invites).length > 0 ? data.invites : undefined
+  };
+};
+
+// Convert a cardProgress document to the schedule it holds
+const convertDocToSchedule = (doc: DocumentData): CardSchedule => {
+  const data = doc.data();
+  return {
+    nextRevision: data.nextRevision?.toDate() || undefined,
+    lastReviewed: data.lastReviewed?.toDate() || undefined,
+    reviewCount: data.reviewCount || 0,
+    easeFactor: data.easeFactor ?? undefined,
+    stability: data.stability ?? undefined,
+    lapses: data.lapses ?? undefined
+  };
+};
+
+// Convert Firestore document to SharedDeck
+const convertDocToSharedDeck = (doc: DocumentData): SharedDeck => {
+  const data = doc.data({ serverTimestamps: 'estimate' });
+  return {
+    id: doc.id,
+    ownerId: data.ownerId,
+    ownerName: data.ownerName,
+    sourceDeckId: data.sourceDeckId,
+    name: data.name,
+    description: data.description || undefined,
+    revisionSettings: data.revisionSettings || undefined,
+    cardCount: data.cardCount,
+    createdAt: data.createdAt?.toDate() || new Date()
+  };
+};
+
+// Convert Firestore document to SharedCard
+const convertDocToSharedCard = (doc: DocumentData): SharedCard => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    front: data.front,
+    back: data.back,
+    format: data.format || undefined,
+    acceptedAnswers: data.acceptedAnswers || undefined,
+    tags: data.tags || [],
+    cardType: data.cardType || undefined,
+    clozeIndex: data.clozeIndex ?? undefined,
+    noteId: data.noteId || undefined
+  };
+};
+
+// Convert Firestore document to ReviewLogEntry
+const convertDocToReview = (doc: DocumentData): ReviewLogEntry => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    flashcardId: data.flashcardId,
+    userId: data.userId,
+    reviewedAt: data.reviewedAt?.toDate() || new Date(),
+    source: data.source,
+    outcome: data.outcome,
+    responseTimeMs: data.responseTimeMs ?? undefined,
+    scheduledInterval: data.scheduledInterval ?? undefined,
+    nextRevision: data.nextRevision?.toDate() || undefined
+  };
+};
+
+// Firestore rejects undefined values, so optional review fields are only written when set
+const toReviewDocument = (entry: Omit<ReviewLogEntry, 'id'>): DocumentData => ({
+  flashcardId: entry.flashcardId,
+  userId: entry.userId,
+  reviewedAt: entry.reviewedAt,
+  source: entry.source,
+  outcome: entry.outcome,
+  ...(entry.responseTimeMs !== undefined ? { responseTimeMs: entry.responseTimeMs } : {}),
+  ...(entry.scheduledInterval !== undefined ? { scheduledInterval: entry.scheduledInterval } : {}),
+  ...(entry.nextRevision ? { nextRevision: entry.nextRevision } : {})
+});
+
+// Firestore rejects undefined values, so drop optional fields that aren't set
+const withoutUndefined = (data: object): DocumentData =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+
+// Each member has at most one progress document per card
+const getProgressRef = (userId: string, flashcardId: string) =>
+  doc(db, CARD_PROGRESS_COLLECTION, `${userId}_${flashcardId}`);
+
+// Write a card's new schedule: onto the card for its creator, or into the user's own progress
+// for a card another member added to a team deck
+const scheduleWrite = (flashcard: ScheduledFlashcard, userId: string, schedule: DocumentData): BatchWrite => {
+  if (!flashcard.userId || flashcard.userId === userId) {
+    return (batch) => batch.update(doc(db, FLASHCARDS_COLLECTION, flashcard.id), {
+      ...schedule,
+      updatedAt: serverTimestamp()
+    });
+  }
+  return (batch) => batch.set(getProgressRef(userId, flashcard.id), withoutUndefined({
+    ...schedule,
+    userId,
+    flashcardId: flashcard.id,
+    deckId: flashcard.deckId
+  }), { merge: true });
+};
+
+// The other cards of a card's note. The user's own notes are found across all their decks;
+// for a card another member added, only the note's cards in the same team deck can be read.
+const getNoteSiblings = async (flashcardId: string, data: DocumentData): Promise<QueryDocumentSnapshot[]> => {
+  const isOwnCard = data.userId === auth.currentUser?.uid;
+  if (!isOwnCard && !data.deckId) return [];
+  const scope = isOwnCard ? where('userId', '==', data.userId) : where('deckId', '==', data.deckId);
+  const snapshot = await getDocs(query(
+    collection(db, FLASHCARDS_COLLECTION),
+    scope,
+    where('noteId', '==', data.noteId)
+  ));
+  return snapshot.docs.filter((sibling) => sibling.id !== flashcardId);
+};
+
+// Convert Firestore document to QuizRound
+const convertDocToQuizRound = (doc: DocumentData): QuizRound => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    userId: data.userId,
+    completedAt: data.completedAt?.toDate() || new Date(),
+    settings: data.settings,
+    score: data.score,
+    total: data.total,
+    accuracy: data.accuracy,
+    timeSpent: data.timeSpent,
+    outcomes: data.outcomes || []
   };
 };
 
 // Add a new flashcard to Firestore
 export const addFlashcard = async (flashcard: Omit<FlashcardData, 'id' | 'createdAt'>, userId: string): Promise<string> => {
   try {
-    const docRef = await addDoc(collection(db, FLASHCARDS_COLLECTION), {
+    const docRef = doc(collection(db, FLASHCARDS_COLLECTION));
+    enqueueWrite('new flashcard', setDoc(docRef, {
       ...flashcard,
       userId,
       createdAt: serverTimestamp(),
       reviewCount: 0
-    });
+    }));
     return docRef.id;
   } catch (error) {
     console.error('Error adding flashcard:', error);
@@ -51,25 +359,152 @@ export const addFlashcard = async (flashcard: Omit<FlashcardData, 'id' | 'create
   }
 };
 
-// Update an existing flashcard
-export const updateFlashcard = async (flashcardId: string, updates: Partial<Pick<FlashcardData, 'front' | 'back'>>): Promise<void> => {
+// Add many flashcards at once using batched writes; returns the new ids in input order
+export const importFlashcards = async (flashcards: Array<Omit<FlashcardData, 'id' | 'createdAt'>>, userId: string): Promise<string[]> => {
+  try {
+    const refs = flashcards.map(() => doc(collection(db, FLASHCARDS_COLLECTION)));
+    commitInChunks(flashcards.map((flashcard, index) => (batch: WriteBatch) => {
+      batch.set(refs[index], {
+        reviewCount: 0,
+        ...flashcard,
+        userId,
+        createdAt: serverTimestamp()
+      });
+    }), 'imported flashcards');
+    return refs.map(ref => ref.id);
+  } catch (error) {
+    console.error('Error importing flashcards:', error);
+    throw new Error('Failed to import flashcards');
+  }
+};
+
+// Update an existing flashcard. Content changes are copied to the other cards of its note,
+// such as a linked reverse card, and attachment files the edit removed are deleted.
+export const updateFlashcard = async (flashcardId: string, updates: FlashcardUpdates): Promise<void> => {
   try {
     const flashcardRef = doc(db, FLASHCARDS_COLLECTION, flashcardId);
-    await updateDoc(flashcardRef, {
-      ...updates,
+    const { deckId, ...fields } = updates;
+    const writes: BatchWrite[] = [(batch) => batch.update(flashcardRef, {
+      ...fields,
+      // An explicit undefined deckId takes the card out of its deck
+      ...('deckId' in updates ? { deckId: deckId || deleteField() } : {}),
       updatedAt: serverTimestamp()
-    });
+    })];
+    let removedAttachments: CardAttachment[] = [];
+    
+    const noteUpdates = Object.fromEntries(NOTE_FIELDS.filter((field) => field in updates).map((field) => [field, updates[field]]));
+    if (Object.keys(noteUpdates).length > 0) {
+      const data = (await getDoc(flashcardRef)).data();
+      if ('attachments' in updates) {
+        removedAttachments = getRemovedAttachments(data?.attachments, updates.attachments);
+      }
+      if (data?.noteId) {
+        (await getNoteSiblings(flashcardId, data)).forEach((sibling) => writes.push((batch) => batch.update(sibling.ref, {
+          ...withoutUndefined(noteUpdates),
+          updatedAt: serverTimestamp()
+        })));
+      }
+    }
+    // Removed files are deleted in the background once the edit is accepted, since Storage can't be reached offline
+    Promise.all(commitInChunks(writes, 'flashcard changes'))
+      .then(() => deleteAttachments(removedAttachments))
+      .catch(() => {});
   } catch (error) {
     console.error('Error updating flashcard:', error);
     throw new Error('Failed to update flashcard');
   }
 };
 
-// Delete a flashcard
+// Generate a reverse card for a basic card. Both cards get the same noteId, so later edits
+// reach both, while the new card starts with its own schedule.
+export const addReverseCard = async (
+  source: FlashcardData,
+  schedule: Pick<FlashcardData, 'revisionSettings' | 'nextRevision'>,
+  userId: string
+): Promise<{ id: string; noteId: string }> => {
+  try {
+    const noteId = source.noteId || crypto.randomUUID();
+    const reverseRef = doc(collection(db, FLASHCARDS_COLLECTION));
+    const content = Object.fromEntries(NOTE_FIELDS.map((field) => [field, source[field]]));
+    const batch = writeBatch(db);
+    batch.set(reverseRef, withoutUndefined({
+      ...content,
+      ...schedule,
+      cardType: 'reverse',
+      noteId,
+      deckId: source.deckId,
+      userId,
+      reviewCount: 0,
+      createdAt: serverTimestamp()
+    }));
+    if (!source.noteId) {
+      batch.update(doc(db, FLASHCARDS_COLLECTION, source.id), { noteId, updatedAt: serverTimestamp() });
+    }
+    enqueueWrite('reverse card', batch.commit());
+    return { id: reverseRef.id, noteId };
+  } catch (error) {
+    console.error('Error adding reverse card:', error);
+    throw new Error('Failed to add reverse card');
+  }
+};
+
+// Save an edit to a note in one batch: its remaining cards get the new fields,
+// cards whose cloze deletion was removed are deleted and cards for new deletions are added.
+// Attachment files the edit removed are deleted once the batch is accepted.
+// Returns the ids of the added cards in input order.
+export const updateNoteCards = async (
+  updatedIds: string[],
+  updates: NoteUpdates,
+  removedIds: string[],
+  addedCards: Array<Omit<FlashcardData, 'id' | 'createdAt'>>,
+  userId: string
+): Promise<string[]> => {
+  try {
+    const addedRefs = addedCards.map(() => doc(collection(db, FLASHCARDS_COLLECTION)));
+    // Every card of a note holds the same files, so any one of them shows what the edit removed
+    const [noteCardId] = [...updatedIds, ...removedIds];
+    const removedAttachments = 'attachments' in updates && noteCardId
+      ? getRemovedAttachments((await getDoc(doc(db, FLASHCARDS_COLLECTION, noteCardId))).data()?.attachments, updates.attachments)
+      : [];
+    const acknowledgements = commitInChunks([
+      ...updatedIds.map((id) => (batch: WriteBatch) => {
+        batch.update(doc(db, FLASHCARDS_COLLECTION, id), { ...updates, updatedAt: serverTimestamp() });
+      }),
+      ...removedIds.map((id) => (batch: WriteBatch) => batch.delete(doc(db, FLASHCARDS_COLLECTION, id))),
+      ...addedCards.map((flashcard, index) => (batch: WriteBatch) => {
+        batch.set(addedRefs[index], {
+          reviewCount: 0,
+          ...withoutUndefined(flashcard),
+          userId,
+          createdAt: serverTimestamp()
+        });
+      })
+    ], 'note changes');
+    Promise.all(acknowledgements)
+      .then(() => deleteAttachments(removedAttachments))
+      .catch(() => {});
+    return addedRefs.map((ref) => ref.id);
+  } catch (error) {
+    console.error('Error updating note:', error);
+    throw new Error('Failed to update flashcard');
+  }
+};
+
+// Delete a flashcard and its attachment files. Cards from the same note share their files,
+// so those are only removed along with the note's last card.
 export const deleteFlashcard = async (flashcardId: string): Promise<void> => {
   try {
     const flashcardRef = doc(db, FLASHCARDS_COLLECTION, flashcardId);
-    await deleteDoc(flashcardRef);
+    const data = (await getDoc(flashcardRef)).data();
+    const acknowledged = deleteDoc(flashcardRef);
+    enqueueWrite('deleted flashcard', acknowledged);
+    // Files are removed in the background once the delete is accepted, since Storage can't be reached offline
+    acknowledged
+      .then(async () => {
+        if (data?.noteId && (await getNoteSiblings(flashcardId, data)).length > 0) return;
+        await deleteAttachments(data?.attachments || []);
+      })
+      .catch(() => {});
   } catch (error) {
     console.error('Error deleting flashcard:', error);
     throw new Error('Failed to delete flashcard');
@@ -99,34 +534,247 @@ export const getUserFlashcards = async (userId: string): Promise<FlashcardData[]
   }
 };
 
+// Convert a snapshot's cards, reusing the previous objects for cards that did not change
+const convertFlashcardSnapshot = (snapshot: QuerySnapshot, previous: FlashcardData[]): FlashcardData[] => {
+  const previousById = new Map(previous.map((flashcard) => [flashcard.id, flashcard]));
+  const changedIds = new Set(
+    snapshot.docChanges().filter((change) => change.type !== 'removed').map((change) => change.doc.id)
+  );
+  return snapshot.docs.map((cardDoc) =>
+    (!changedIds.has(cardDoc.id) && previousById.get(cardDoc.id)) || convertDocToFlashcard(cardDoc)
+  );
+};
+
+interface FeedPage {
+  after?: QueryDocumentSnapshot; // the last card of the previous page
+  docs: QueryDocumentSnapshot[];
+  flashcards: FlashcardData[];
+  isLoaded: boolean;
+  isComplete: boolean; // the page runs to the end of the collection
+  unsubscribe: Unsubscribe;
+}
+
+// Stream a user's flashcards, newest first, one page at a time. Only the first page is read
+// up front; loadMore opens the next page with a startAfter cursor and loadAll the rest of the
+// collection. Every loaded page stays subscribed, so adds, edits and removals from this tab
+// (including writes still in the outbox), other tabs and other devices keep streaming in.
+// Unchanged cards keep their object identity between calls.
+export const subscribeToUserFlashcards = (
+  userId: string,
+  onChange: (page: FlashcardPage) => void,
+  onError: (error: FirestoreError) => void,
+  pageSize: number = FLASHCARD_PAGE_SIZE
+): FlashcardFeed => {
+  const userFlashcards = query(
+    collection(db, FLASHCARDS_COLLECTION),
+    where('userId', '==', userId),
+    orderBy('createdAt', 'desc')
+  );
+  const pages: FeedPage[] = [];
+  let isStopped = false;
+  
+  const getLastPage = (): FeedPage => pages[pages.length - 1];
+  const hasMore = (): boolean => {
+    const lastPage = getLastPage();
+    return !lastPage.isComplete && lastPage.docs.length >= pageSize;
+  };
+  
+  const emit = () => {
+    // A card moving between pages can briefly appear in both
+    const seenIds = new Set<string>();
+    const flashcards = pages.flatMap((page) => page.flashcards).filter((flashcard) => {
+      if (seenIds.has(flashcard.id)) return false;
+      seenIds.add(flashcard.id);
+      return true;
+    });
+    onChange({ flashcards, hasMore: hasMore() });
+  };
+  
+  // (Re)subscribe a page to a range; it keeps its current cards until the range's first snapshot
+  const listen = (page: FeedPage, range: QueryConstraint[]) => {
+    page.unsubscribe();
+    page.unsubscribe = onSnapshot(query(userFlashcards, ...range), (snapshot) => {
+      page.docs = snapshot.docs;
+      page.flashcards = convertFlashcardSnapshot(snapshot, page.flashcards);
+      page.isLoaded = true;
+      emit();
+    }, (error) => {
+      console.error('Error subscribing to flashcards:', error);
+      onError(error);
+    });
+  };
+  
+  const openPage = (after: QueryDocumentSnapshot | undefined, isComplete: boolean) => {
+    const page: FeedPage = { after, docs: [], flashcards: [], isLoaded: false, isComplete, unsubscribe: () => {} };
+    pages.push(page);
+    listen(page, [...(after ? [startAfter(after)] : []), ...(isComplete ? [] : [limit(pageSize)])]);
+  };
+  
+  // Pin the last page to the cards it holds now before opening the next one. With a limit, a card
+  // inserted into its range (say, restored with an old date) would push its last card past the
+  // cursor the next page starts after, and that card would drop out of both pages.
+  const closeLastPage = (): QueryDocumentSnapshot => {
+    const lastPage = getLastPage();
+    const boundary = lastPage.docs[lastPage.docs.length - 1];
+    listen(lastPage, [...(lastPage.after ? [startAfter(lastPage.after)] : []), endAt(boundary)]);
+    return boundary;
+  };
+  
+  const canExtend = (): boolean => !isStopped && getLastPage().isLoaded && hasMore();
+  
+  openPage(undefined, false);
+  return {
+    loadMore: () => {
+      if (canExtend()) openPage(closeLastPage(), false);
+    },
+    loadAll: () => {
+      if (canExtend()) openPage(closeLastPage(), true);
+    },
+    unsubscribe: () => {
+      isStopped = true;
+      pages.forEach((page) => page.unsubscribe());
+    }
+  };
+};
+
 // Get a single flashcard by ID
 export const getFlashcard = async (flashcardId: string): Promise<FlashcardData | null> => {
   try {
-    const flashcardRef = doc(db, FLASHCARDS_COLLECTION, flashcardId);
-    const docSnap = await getDocs(collection(db, FLASHCARDS_COLLECTION));
-    
-    let flashcard: FlashcardData | null = null;
-    docSnap.forEach((doc) => {
-      if (doc.id === flashcardId) {
-        flashcard = convertDocToFlashcard(doc);
-      }
-    });
-    
-    return flashcard;
+    const docSnap = await getDoc(doc(db, FLASHCARDS_COLLECTION, flashcardId));
+    return docSnap.exists() ? convertDocToFlashcard(docSnap) : null;
   } catch (error) {
     console.error('Error getting flashcard:', error);
     throw new Error('Failed to fetch flashcard');
   }
 };
 
-// Batch operations for better performance
-export const batchUpdateFlashcards = async (updates: Array<{ id: string; data: Partial<Pick<FlashcardData, 'front' | 'back'>> }>): Promise<void> => {
+// Cards of the given notes, read 30 notes at a time, the most an `in` filter accepts
+const getNoteCards = async (userId: string, noteIds: string[]): Promise<QueryDocumentSnapshot[]> => {
+  const snapshots = await Promise.all(
+    Array.from({ length: Math.ceil(noteIds.length / 30) }, (_, index) => getDocs(query(
+      collection(db, FLASHCARDS_COLLECTION),
+      where('userId', '==', userId),
+      where('noteId', 'in', noteIds.slice(index * 30, (index + 1) * 30))
+    )))
+  );
+  return snapshots.flatMap((snapshot) => snapshot.docs);
+};
+
+// The writes for some selected cards that must succeed or fail together
+interface BulkUnit {
+  flashcardIds: string[];
+  writes: BatchWrite[];
+}
+
+// Commit units in as few batches as the per-batch limit allows, never splitting a unit,
+// and report which cards each batch holds
+const commitBulkUnits = (units: BulkUnit[], description: string): BulkChunk[] => {
+  const chunks: BulkChunk[] = [];
+  let current: BulkUnit[] = [];
+  let writeCount = 0;
+  const commit = () => {
+    if (current.length === 0) return;
+    const batch = writeBatch(db);
+    current.forEach((unit) => unit.writes.forEach((write) => write(batch)));
+    const acknowledged = batch.commit();
+    enqueueWrite(description, acknowledged);
+    chunks.push({ flashcardIds: current.flatMap((unit) => unit.flashcardIds), acknowledged });
+    current = [];
+    writeCount = 0;
+  };
+  units.forEach((unit) => {
+    if (writeCount + unit.writes.length > BATCH_LIMIT) commit();
+    current.push(unit);
+    writeCount += unit.writes.length;
+  });
+  commit();
+  return chunks;
+};
+
+// Tags are shared by a note's cards, so each note is one unit that rewrites all of its cards
+const getBulkTagUnits = async (
+  userId: string,
+  flashcards: FlashcardData[],
+  add: string[],
+  remove: string[]
+): Promise<BulkUnit[]> => {
+  const noteIds = [...new Set(flashcards.flatMap((flashcard) => flashcard.noteId || []))];
+  const noteCards = await getNoteCards(userId, noteIds);
+  const units = new Map<string, BulkUnit>();
+  flashcards.forEach((flashcard) => {
+    // Notes of other members' cards in a team deck can't be looked up, so those cards are retagged one by one
+    const isOwnNote = flashcard.noteId && (!flashcard.userId || flashcard.userId === userId);
+    const key = isOwnNote ? flashcard.noteId as string : flashcard.id;
+    const unit = units.get(key);
+    if (unit) {
+      unit.flashcardIds.push(flashcard.id);
+      return;
+    }
+    const tags = changeTags(flashcard.tags, add, remove);
+    const refs = isOwnNote
+      ? noteCards.filter((card) => card.data().noteId === flashcard.noteId).map((card) => card.ref)
+      : [doc(db, FLASHCARDS_COLLECTION, flashcard.id)];
+    units.set(key, {
+      flashcardIds: [flashcard.id],
+      writes: refs.map((ref) => (batch: WriteBatch) => batch.update(ref, { tags, updatedAt: serverTimestamp() }))
+    });
+  });
+  return [...units.values()];
+};
+
+// Attachment files of deleted cards, once no card of their note is left
+const getOrphanedAttachments = async (userId: string, deleted: FlashcardData[]): Promise<CardAttachment[]> => {
+  const deletedIds = new Set(deleted.map((flashcard) => flashcard.id));
+  const noteIds = [...new Set(deleted.flatMap((flashcard) => flashcard.noteId || []))];
+  const keptNoteIds = new Set((await getNoteCards(userId, noteIds))
+    .filter((card) => !deletedIds.has(card.id))
+    .map((card) => card.data().noteId));
+  const seenNoteIds = new Set<string>();
+  return deleted.flatMap((flashcard) => {
+    if (!flashcard.noteId) return flashcard.attachments || [];
+    // The cards of a note share one set of files
+    if (keptNoteIds.has(flashcard.noteId) || seenNoteIds.has(flashcard.noteId)) return [];
+    seenNoteIds.add(flashcard.noteId);
+    return flashcard.attachments || [];
+  });
+};
+
+// Delete, move, retag or reschedule many cards in batched writes. Each returned chunk is
+// applied entirely or not at all, so callers can report exactly which cards were left unchanged.
+export const applyBulkAction = async (userId: string, flashcards: FlashcardData[], action: BulkAction): Promise<BulkChunk[]> => {
   try {
-    const promises = updates.map(({ id, data }) => updateFlashcard(id, data));
-    await Promise.all(promises);
+    const cardUnit = (flashcard: FlashcardData, write: BatchWrite): BulkUnit => ({ flashcardIds: [flashcard.id], writes: [write] });
+    const cardRef = (flashcard: FlashcardData) => doc(db, FLASHCARDS_COLLECTION, flashcard.id);
+    switch (action.type) {
+      case 'delete': {
+        const chunks = commitBulkUnits(
+          flashcards.map((flashcard) => cardUnit(flashcard, (batch) => batch.delete(cardRef(flashcard)))),
+          'deleted flashcards'
+        );
+        // Files are only removed once their cards' batch is accepted, since a refused batch brings the cards back
+        chunks.forEach((chunk) => {
+          const deleted = flashcards.filter((flashcard) => chunk.flashcardIds.includes(flashcard.id));
+          chunk.acknowledged
+            .then(async () => deleteAttachments(await getOrphanedAttachments(userId, deleted)))
+            .catch(() => {});
+        });
+        return chunks;
+      }
+      case 'move':
+        return commitBulkUnits(flashcards.map((flashcard) => cardUnit(flashcard, (batch) => batch.update(cardRef(flashcard), {
+          deckId: action.deckId || deleteField(),
+          updatedAt: serverTimestamp()
+        }))), 'moved flashcards');
+      case 'tags':
+        return commitBulkUnits(await getBulkTagUnits(userId, flashcards, action.add, action.remove), 'flashcard tags');
+      case 'reschedule':
+        return commitBulkUnits(flashcards.map((flashcard) => cardUnit(flashcard, scheduleWrite(flashcard, userId, {
+          nextRevision: action.nextRevision
+        }))), 'rescheduled flashcards');
+    }
   } catch (error) {
-    console.error('Error batch updating flashcards:', error);
-    throw new Error('Failed to batch update flashcards');
+    console.error('Error applying bulk action:', error);
+    throw new Error('Failed to update flashcards');
   }
 };
 
@@ -147,7 +795,7 @@ export const updateFlashcardRevision = async (
       updateData.nextRevision = nextRevision;
     }
     
-    await updateDoc(flashcardRef, updateData);
+    enqueueWrite('revision schedule', updateDoc(flashcardRef, updateData));
   } catch (error) {
     console.error('Error updating flashcard revision:', error);
     throw new Error('Failed to update flashcard revision');
@@ -171,7 +819,7 @@ export const updateFlashcardRevisionSettings = async (
       updateData.nextRevision = nextRevision;
     }
     
-    await updateDoc(flashcardRef, updateData);
+    enqueueWrite('revision settings', updateDoc(flashcardRef, updateData));
   } catch (error) {
     console.error('Error updating flashcard revision settings:', error);
     throw new Error('Failed to update flashcard revision settings');
@@ -186,24 +834,721 @@ export const markFlashcardReviewed = async (flashcardId: string, revisionInterva
     const nextRevision = new Date();
     nextRevision.setDate(now.getDate() + revisionInterval);
     
-    await updateDoc(flashcardRef, {
+    enqueueWrite('review', updateDoc(flashcardRef, {
       lastReviewed: now,
       nextRevision: nextRevision,
       updatedAt: serverTimestamp()
-    });
+    }));
   } catch (error) {
     console.error('Error marking flashcard as reviewed:', error);
     throw new Error('Failed to mark flashcard as reviewed');
   }
 };
 
-// Get flashcards count for a user
-export const getUserFlashcardsCount = async (userId: string): Promise<number> => {
+// The schedule fields a review sets
+const toReviewedSchedule = (result: ScheduleResult, reviewedAt: Date): DocumentData => ({
+  lastReviewed: reviewedAt,
+  nextRevision: result.nextRevision,
+  easeFactor: result.easeFactor,
+  stability: result.stability,
+  lapses: result.lapses,
+  reviewCount: increment(1)
+});
+
+// Persist the outcome of a graded review and append it to the review log
+export const recordFlashcardReview = async (
+  flashcard: ScheduledFlashcard,
+  result: ScheduleResult,
+  attempt: Pick<ReviewLogEntry, 'userId' | 'source' | 'outcome' | 'responseTimeMs'>,
+  reviewedAt: Date = new Date()
+): Promise<void> => {
+  try {
+    const batch = writeBatch(db);
+    scheduleWrite(flashcard, attempt.userId, toReviewedSchedule(result, reviewedAt))(batch);
+    batch.set(doc(collection(db, REVIEWS_COLLECTION)), toReviewDocument({
+      ...attempt,
+      flashcardId: flashcard.id,
+      reviewedAt,
+      scheduledInterval: result.interval,
+      nextRevision: result.nextRevision
+    }));
+    enqueueWrite('review', batch.commit());
+  } catch (error) {
+    console.error('Error recording flashcard review:', error);
+    throw new Error('Failed to record flashcard review');
+  }
+};
+
+// Append review attempts that did not reschedule their cards
+export const logReviewAttempts = async (entries: Array<Omit<ReviewLogEntry, 'id'>>): Promise<void> => {
+  try {
+    commitInChunks(entries.map((entry) => (batch: WriteBatch) => {
+      batch.set(doc(collection(db, REVIEWS_COLLECTION)), toReviewDocument(entry));
+    }), 'review log');
+  } catch (error) {
+    console.error('Error logging review attempts:', error);
+    throw new Error('Failed to log review attempts');
+  }
+};
+
+// Get the full review history of a flashcard, newest first
+export const getFlashcardReviews = async (flashcardId: string, userId: string): Promise<ReviewLogEntry[]> => {
+  try {
+    const q = query(
+      collection(db, REVIEWS_COLLECTION),
+      where('userId', '==', userId),
+      where('flashcardId', '==', flashcardId),
+      orderBy('reviewedAt', 'desc')
+    );
+    
+    const querySnapshot: QuerySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(convertDocToReview);
+  } catch (error) {
+    console.error('Error getting flashcard reviews:', error);
+    throw new Error('Failed to fetch flashcard reviews');
+  }
+};
+
+// Get all review attempts for a user, optionally only those since a given date
+export const getUserReviews = async (userId: string, since?: Date): Promise<ReviewLogEntry[]> => {
+  try {
+    const q = since
+      ? query(
+          collection(db, REVIEWS_COLLECTION),
+          where('userId', '==', userId),
+          where('reviewedAt', '>=', since),
+          orderBy('reviewedAt', 'desc')
+        )
+      : query(
+          collection(db, REVIEWS_COLLECTION),
+          where('userId', '==', userId),
+          orderBy('reviewedAt', 'desc')
+        );
+    
+    const querySnapshot: QuerySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(convertDocToReview);
+  } catch (error) {
+    console.error('Error getting user reviews:', error);
+    throw new Error('Failed to fetch reviews');
+  }
+};
+
+// Count a user's flashcards, or those in one deck, with an aggregate query instead of reading them
+export const getUserFlashcardsCount = async (userId: string, deckId?: string): Promise<number> => {
   try {
-    const flashcards = await getUserFlashcards(userId);
-    return flashcards.length;
+    const q = query(
+      collection(db, FLASHCARDS_COLLECTION),
+      where('userId', '==', userId),
+      ...(deckId ? [where('deckId', '==', deckId)] : [])
+    );
+    const snapshot = await getCountFromServer(q);
+    return snapshot.data().count;
   } catch (error) {
     console.error('Error getting flashcards count:', error);
-    return 0;
+    throw new Error('Failed to count flashcards');
+  }
+};
+
+// Add a new deck to Firestore
+export const addDeck = async (deck: Omit<Deck, 'id' | 'createdAt'>, userId: string): Promise<string> => {
+  try {
+    const docRef = doc(collection(db, DECKS_COLLECTION));
+    enqueueWrite('new deck', setDoc(docRef, {
+      ...deck,
+      userId,
+      createdAt: serverTimestamp()
+    }));
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding deck:', error);
+    throw new Error('Failed to add deck');
+  }
+};
+
+// Update an existing deck
+export const updateDeck = async (deckId: string, updates: Partial<Pick<Deck, 'name' | 'description' | 'revisionSettings'>>): Promise<void> => {
+  try {
+    const deckRef = doc(db, DECKS_COLLECTION, deckId);
+    enqueueWrite('deck changes', updateDoc(deckRef, {
+      ...updates,
+      updatedAt: serverTimestamp()
+    }));
+  } catch (error) {
+    console.error('Error updating deck:', error);
+    throw new Error('Failed to update deck');
+  }
+};
+
+// Get all decks for a specific user
+export const getUserDecks = async (userId: string): Promise<Deck[]> => {
+  try {
+    const q = query(
+      collection(db, DECKS_COLLECTION),
+      where('userId', '==', userId),
+      orderBy('name', 'asc')
+    );
+    
+    const querySnapshot: QuerySnapshot = await getDocs(q);
+    const decks: Deck[] = [];
+    
+    querySnapshot.forEach((doc) => {
+      decks.push(convertDocToDeck(doc));
+    });
+    
+    return decks;
+  } catch (error) {
+    console.error('Error getting decks:', error);
+    throw new Error('Failed to fetch decks');
+  }
+};
+
+// Stream a user's decks sorted by name, along with the team decks they are a member of;
+// returns a function that stops the subscription
+export const subscribeToUserDecks = (
+  userId: string,
+  onChange: (decks: Deck[]) => void,
+  onError: (error: FirestoreError) => void
+): Unsubscribe => {
+  const ownDecks = query(
+    collection(db, DECKS_COLLECTION),
+    where('userId', '==', userId),
+    orderBy('name', 'asc')
+  );
+  const teamDecks = query(
+    collection(db, DECKS_COLLECTION),
+    where('memberIds', 'array-contains', userId)
+  );
+  // The user's own team decks match both queries
+  const results: Array<Deck[] | null> = [null, null];
+  
+  const unsubscribes = [ownDecks, teamDecks].map((deckQuery, index) => onSnapshot(deckQuery, (snapshot) => {
+    results[index] = snapshot.docs.map(convertDocToDeck);
+    const [own, team] = results;
+    if (!own || !team) return;
+    const ownIds = new Set(own.map((deck) => deck.id));
+    onChange([...own, ...team.filter((deck) => !ownIds.has(deck.id))].sort((a, b) => a.name.localeCompare(b.name)));
+  }, (error) => {
+    console.error('Error subscribing to decks:', error);
+    onError(error);
+  }));
+  return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+};
+
+// Stream the cards other members added to the user's team decks, each with the user's own
+// schedule for it. The user's own cards in those decks come with the rest of their cards.
+export const subscribeToTeamFlashcards = (
+  userId: string,
+  deckIds: string[],
+  onChange: (flashcards: FlashcardData[]) => void,
+  onError: (error: FirestoreError) => void
+): Unsubscribe => {
+  if (deckIds.length === 0) {
+    onChange([]);
+    return () => {};
   }
+  
+  const cardsByDeck = new Map<string, FlashcardData[]>();
+  let schedules: Map<string, CardSchedule> | null = null;
+  const emit = () => {
+    if (!schedules || cardsByDeck.size < deckIds.length) return;
+    const memberSchedules = schedules;
+    onChange([...cardsByDeck.values()].flat().map((flashcard) =>
+      withMemberSchedule(flashcard, memberSchedules.get(flashcard.id))
+    ));
+  };
+  const handleError = (error: FirestoreError) => {
+    console.error('Error subscribing to team deck cards:', error);
+    onError(error);
+  };
+  
+  const unsubscribes = deckIds.map((deckId) => onSnapshot(
+    query(collection(db, FLASHCARDS_COLLECTION), where('deckId', '==', deckId)),
+    (snapshot) => {
+      cardsByDeck.set(deckId, convertFlashcardSnapshot(snapshot, cardsByDeck.get(deckId) || [])
+        .filter((flashcard) => flashcard.userId !== userId));
+      emit();
+    },
+    handleError
+  ));
+  unsubscribes.push(onSnapshot(
+    query(collection(db, CARD_PROGRESS_COLLECTION), where('userId', '==', userId)),
+    (snapshot) => {
+      schedules = new Map(snapshot.docs.map((progressDoc) => [progressDoc.data().flashcardId, convertDocToSchedule(progressDoc)]));
+      emit();
+    },
+    handleError
+  ));
+  return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+};
+
+// Stream the team decks a user has been invited to by email
+export const subscribeToDeckInvites = (
+  email: string,
+  onChange: (decks: Deck[]) => void,
+  onError: (error: FirestoreError) => void
+): Unsubscribe => {
+  const q = query(
+    collection(db, DECKS_COLLECTION),
+    where('invitedEmails', 'array-contains', email.trim().toLowerCase())
+  );
+  
+  return onSnapshot(q, (snapshot) => {
+    onChange(snapshot.docs.map(convertDocToDeck));
+  }, (error) => {
+    console.error('Error subscribing to deck invites:', error);
+    onError(error);
+  });
+};
+
+// Invite someone to a deck by email. Inviting the first member turns the deck into a team
+// deck, listing its creator as an owner. The emails are also kept in a list so invitees can find the deck.
+export const inviteDeckMember = async (deck: Deck, email: string, role: DeckRole, inviter: DeckUser): Promise<void> => {
+  try {
+    const key = email.trim().toLowerCase();
+    const creator = deck.members ? [] : [
+      `members.${deck.userId}`, { name: inviter.displayName, role: 'owner' },
+      'memberIds', arrayUnion(deck.userId)
+    ];
+    enqueueWrite('deck invite', updateDoc(
+      doc(db, DECKS_COLLECTION, deck.id),
+      // Emails contain dots, which would otherwise split the field path
+      new FieldPath('invites', key), role,
+      'invitedEmails', arrayUnion(key),
+      ...creator
+    ));
+  } catch (error) {
+    console.error('Error inviting deck member:', error);
+    throw new Error('Failed to invite member');
+  }
+};
+
+export const cancelDeckInvite = async (deckId: string, email: string): Promise<void> => {
+  try {
+    enqueueWrite('deck invite', updateDoc(
+      doc(db, DECKS_COLLECTION, deckId),
+      new FieldPath('invites', email), deleteField(),
+      'invitedEmails', arrayRemove(email)
+    ));
+  } catch (error) {
+    console.error('Error cancelling deck invite:', error);
+    throw new Error('Failed to cancel invite');
+  }
+};
+
+// Change a member's role, or remove them with a null role, which is also how members leave a deck.
+// Their own schedules for the deck's cards are kept in case they rejoin.
+export const setDeckMemberRole = async (deckId: string, memberId: string, role: DeckRole | null): Promise<void> => {
+  try {
+    const deckRef = doc(db, DECKS_COLLECTION, deckId);
+    enqueueWrite('deck members', role
+      ? updateDoc(deckRef, { [`members.${memberId}.role`]: role })
+      : updateDoc(deckRef, { [`members.${memberId}`]: deleteField(), memberIds: arrayRemove(memberId) }));
+  } catch (error) {
+    console.error('Error updating deck member:', error);
+    throw new Error('Failed to update member');
+  }
+};
+
+// Join a deck with the role it was offered, or decline the invite
+export const answerDeckInvite = async (deck: Deck, user: DeckUser, accept: boolean): Promise<void> => {
+  try {
+    const key = (user.email || '').trim().toLowerCase();
+    const role = deck.invites?.[key];
+    const membership = accept && role ? [
+      `members.${user.userId}`, { name: user.displayName, role },
+      'memberIds', arrayUnion(user.userId)
+    ] : [];
+    enqueueWrite('deck invite', updateDoc(
+      doc(db, DECKS_COLLECTION, deck.id),
+      new FieldPath('invites', key), deleteField(),
+      'invitedEmails', arrayRemove(key),
+      ...membership
+    ));
+  } catch (error) {
+    console.error('Error answering deck invite:', error);
+    throw new Error('Failed to answer invite');
+  }
+};
+
+// Delete a deck, moving its cards to another deck (or out of any deck) or deleting them.
+// A team deck's cards include those its other members added. The deck is deleted last,
+// since the rules check it for every card of a team deck.
+export const deleteDeck = async (
+  deckId: string,
+  _userId: string,
+  cardAction: DeckCardAction,
+  targetDeckId?: string
+): Promise<void> => {
+  try {
+    const q = query(
+      collection(db, FLASHCARDS_COLLECTION),
+      where('deckId', '==', deckId)
+    );
+    const querySnapshot: QuerySnapshot = await getDocs(q);
+    
+    const writes: BatchWrite[] = querySnapshot.docs.map((cardDoc) => (batch: WriteBatch) => {
+      if (cardAction === 'delete') {
+        batch.delete(cardDoc.ref);
+      } else {
+        batch.update(cardDoc.ref, {
+          deckId: targetDeckId || deleteField(),
+          updatedAt: serverTimestamp()
+        });
+      }
+    });
+    writes.push((batch) => batch.delete(doc(db, DECKS_COLLECTION, deckId)));
+    const acknowledgements = commitInChunks(writes, 'deleted deck');
+    if (cardAction === 'delete') {
+      Promise.all(acknowledgements)
+        .then(() => deleteAttachments(querySnapshot.docs.flatMap((cardDoc) => cardDoc.data().attachments || [])))
+        .catch(() => {});
+    }
+  } catch (error) {
+    console.error('Error deleting deck:', error);
+    throw new Error('Failed to delete deck');
+  }
+};
+
+// Publish a deck's cards under a new shared deck. Its id is the token in the share link, and the
+// security rules let anyone who has it read the deck while only the owner can list or delete it.
+export const shareDeck = async (
+  deck: Deck,
+  flashcards: FlashcardData[],
+  owner: { userId: string; displayName: string }
+): Promise<string> => {
+  try {
+    const sharedRef = doc(collection(db, SHARED_DECKS_COLLECTION));
+    const writes: BatchWrite[] = [(batch) => batch.set(sharedRef, withoutUndefined({
+      ownerId: owner.userId,
+      ownerName: owner.displayName,
+      sourceDeckId: deck.id,
+      name: deck.name,
+      description: deck.description,
+      revisionSettings: deck.revisionSettings,
+      cardCount: flashcards.length,
+      createdAt: serverTimestamp()
+    }))];
+    toSharedCards(flashcards).forEach(({ id, ...card }, position) => writes.push((batch) => {
+      // Shared cards keep their deck order
+      batch.set(doc(sharedRef, SHARED_CARDS_COLLECTION, id), withoutUndefined({ ...card, position }));
+    }));
+    commitInChunks(writes, 'shared deck');
+    return sharedRef.id;
+  } catch (error) {
+    console.error('Error sharing deck:', error);
+    throw new Error('Failed to share deck');
+  }
+};
+
+// Read a shared deck and its cards, or null if the link was revoked
+export const getSharedDeck = async (sharedDeckId: string): Promise<SharedDeckContent | null> => {
+  try {
+    const sharedRef = doc(db, SHARED_DECKS_COLLECTION, sharedDeckId);
+    const deckSnap = await getDoc(sharedRef);
+    if (!deckSnap.exists()) {
+      return null;
+    }
+    const cardsSnap = await getDocs(query(collection(sharedRef, SHARED_CARDS_COLLECTION), orderBy('position', 'asc')));
+    return {
+      deck: convertDocToSharedDeck(deckSnap),
+      cards: cardsSnap.docs.map(convertDocToSharedCard)
+    };
+  } catch (error) {
+    console.error('Error getting shared deck:', error);
+    throw new Error('Failed to fetch shared deck');
+  }
+};
+
+// Get the decks a user is sharing, newest first
+export const getUserSharedDecks = async (userId: string): Promise<SharedDeck[]> => {
+  try {
+    const q = query(
+      collection(db, SHARED_DECKS_COLLECTION),
+      where('ownerId', '==', userId),
+      orderBy('createdAt', 'desc')
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(convertDocToSharedDeck);
+  } catch (error) {
+    console.error('Error getting shared decks:', error);
+    throw new Error('Failed to fetch shared decks');
+  }
+};
+
+// Revoke a share link by deleting the snapshot. The deck goes last, since the rules
+// check it to let the owner delete the cards.
+export const revokeSharedDeck = async (sharedDeckId: string): Promise<void> => {
+  try {
+    const sharedRef = doc(db, SHARED_DECKS_COLLECTION, sharedDeckId);
+    const cardsSnap = await getDocs(collection(sharedRef, SHARED_CARDS_COLLECTION));
+    const writes: BatchWrite[] = cardsSnap.docs.map((cardDoc) => (batch: WriteBatch) => batch.delete(cardDoc.ref));
+    writes.push((batch) => batch.delete(sharedRef));
+    commitInChunks(writes, 'revoked share link');
+  } catch (error) {
+    console.error('Error revoking shared deck:', error);
+    throw new Error('Failed to revoke shared deck');
+  }
+};
+
+// Copy a shared deck into a new deck of the user's, recording where it came from
+export const cloneSharedDeck = async (shared: SharedDeckContent, userId: string): Promise<string> => {
+  try {
+    const deckRef = doc(collection(db, DECKS_COLLECTION));
+    const writes: BatchWrite[] = [(batch) => batch.set(deckRef, withoutUndefined({
+      name: shared.deck.name,
+      description: shared.deck.description,
+      revisionSettings: shared.deck.revisionSettings,
+      clonedFrom: shared.deck.id,
+      clonedFromOwner: shared.deck.ownerName,
+      clonedAt: serverTimestamp(),
+      userId,
+      createdAt: serverTimestamp()
+    }))];
+    toClonedFlashcards(shared, deckRef.id, userId, () => crypto.randomUUID()).forEach((flashcard) => writes.push((batch) => {
+      batch.set(doc(collection(db, FLASHCARDS_COLLECTION)), { ...withoutUndefined(flashcard), createdAt: serverTimestamp() });
+    }));
+    commitInChunks(writes, 'cloned deck');
+    return deckRef.id;
+  } catch (error) {
+    console.error('Error cloning shared deck:', error);
+    throw new Error('Failed to clone shared deck');
+  }
+};
+
+// Get a user's saved preferences, or an empty object if none were saved yet
+export const getUserSettings = async (userId: string): Promise<UserSettings> => {
+  try {
+    const settingsSnap = await getDoc(doc(db, SETTINGS_COLLECTION, userId));
+    return settingsSnap.exists() ? (settingsSnap.data() as UserSettings) : {};
+  } catch (error) {
+    console.error('Error getting user settings:', error);
+    throw new Error('Failed to fetch settings');
+  }
+};
+
+// Merge updated preferences into a user's settings
+export const updateUserSettings = async (userId: string, updates: Partial<UserSettings>): Promise<void> => {
+  try {
+    enqueueWrite('settings', setDoc(doc(db, SETTINGS_COLLECTION, userId), updates, { merge: true }));
+  } catch (error) {
+    console.error('Error updating user settings:', error);
+    throw new Error('Failed to update settings');
+  }
+};
+
+// Save a finished Rapid Fire round, log each answer and apply any rescheduled cards
+export const saveQuizRound = async (
+  round: Omit<QuizRound, 'id'>,
+  reschedules: Array<{ flashcard: ScheduledFlashcard; result: ScheduleResult }> = []
+): Promise<string> => {
+  try {
+    const roundRef = doc(collection(db, QUIZ_ROUNDS_COLLECTION));
+    const rescheduled = new Map(reschedules.map(({ flashcard, result }) => [flashcard.id, result]));
+    const writes: BatchWrite[] = [(batch) => batch.set(roundRef, round)];
+    
+    round.outcomes.forEach((outcome) => {
+      const schedule = rescheduled.get(outcome.flashcardId);
+      writes.push((batch) => batch.set(doc(collection(db, REVIEWS_COLLECTION)), toReviewDocument({
+        flashcardId: outcome.flashcardId,
+        userId: round.userId,
+        reviewedAt: round.completedAt,
+        source: 'rapid-fire',
+        outcome: outcome.result,
+        responseTimeMs: outcome.responseTimeMs,
+        scheduledInterval: schedule?.interval,
+        nextRevision: schedule?.nextRevision
+      })));
+    });
+    
+    reschedules.forEach(({ flashcard, result }) => {
+      writes.push(scheduleWrite(flashcard, round.userId, toReviewedSchedule(result, round.completedAt)));
+    });
+    
+    commitInChunks(writes, 'quiz round');
+    return roundRef.id;
+  } catch (error) {
+    console.error('Error saving quiz round:', error);
+    throw new Error('Failed to save quiz round');
+  }
+};
+
+// Get a user's most recent Rapid Fire rounds, newest first
+export const getUserQuizRounds = async (userId: string, maxResults: number = 20): Promise<QuizRound[]> => {
+  try {
+    const q = query(
+      collection(db, QUIZ_ROUNDS_COLLECTION),
+      where('userId', '==', userId),
+      orderBy('completedAt', 'desc'),
+      limit(maxResults)
+    );
+    
+    const querySnapshot: QuerySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(convertDocToQuizRound);
+  } catch (error) {
+    console.error('Error getting quiz rounds:', error);
+    throw new Error('Failed to fetch quiz rounds');
+  }
+};
+
+const getUserDocuments = (collectionName: string, userId: string): Promise<QuerySnapshot> =>
+  getDocs(query(collection(db, collectionName), where('userId', '==', userId)));
+
+// Read everything stored for a user, for a full-account backup
+export const getAccountData = async (userId: string): Promise<AccountData> => {
+  try {
+    const [flashcards, decks, reviews, quizRoundsSnapshot, settings] = await Promise.all([
+      getUserFlashcards(userId),
+      getUserDecks(userId),
+      getUserReviews(userId),
+      getUserDocuments(QUIZ_ROUNDS_COLLECTION, userId),
+      getUserSettings(userId)
+    ]);
+    return {
+      flashcards,
+      decks,
+      reviews,
+      quizRounds: quizRoundsSnapshot.docs.map(convertDocToQuizRound),
+      settings
+    };
+  } catch (error) {
+    console.error('Error reading account data:', error);
+    throw new Error('Failed to read account data');
+  }
+};
+
+// Write a backup into a user's account. Replace deletes the account's data first, apart from its
+// cards in other people's team decks; merge keeps it and resolves cards and decks that exist on both
+// sides with the given strategy.
+// Writes are chunked, so a failure part way through can leave a partial restore.
+export const restoreAccountData = async (
+  userId: string,
+  backup: AccountBackup,
+  mode: RestoreMode,
+  conflictStrategy: RestoreConflictStrategy
+): Promise<void> => {
+  try {
+    // A backup from another account gets new ids so that account's documents are never overwritten
+    const source = backup.userId === userId
+      ? backup
+      : withFreshIds(backup, () => doc(collection(db, FLASHCARDS_COLLECTION)).id);
+    const keepExisting = mode === 'merge' && conflictStrategy === 'keep-existing';
+    const writes: BatchWrite[] = [];
+    const existingIds = new Set<string>();
+    const existingLogIds = new Set<string>();
+    let replacedAttachments: CardAttachment[] = [];
+    
+    const [cardsSnapshot, decksSnapshot, reviewsSnapshot, quizRoundsSnapshot] = await Promise.all(
+      [FLASHCARDS_COLLECTION, DECKS_COLLECTION, REVIEWS_COLLECTION, QUIZ_ROUNDS_COLLECTION]
+        .map((collectionName) => getUserDocuments(collectionName, userId))
+    );
+    // Cards the user added to other people's team decks follow their role there, which may no
+    // longer let them change those cards, so a restore leaves them as they are
+    const ownDeckIds = new Set(decksSnapshot.docs.map((deckDoc) => deckDoc.id));
+    cardsSnapshot.docs
+      .filter((cardDoc) => cardDoc.data().deckId && !ownDeckIds.has(cardDoc.data().deckId))
+      .forEach((cardDoc) => existingIds.add(cardDoc.id));
+    
+    if (mode === 'replace') {
+      const replacedCards = cardsSnapshot.docs.filter((cardDoc) => !existingIds.has(cardDoc.id));
+      // Files of replaced cards are removed unless a restored card still points at them
+      replacedAttachments = getRemovedAttachments(
+        replacedCards.flatMap((cardDoc) => cardDoc.data().attachments || []),
+        source.flashcards.flatMap((flashcard) => flashcard.attachments || [])
+      );
+      [replacedCards, decksSnapshot.docs, reviewsSnapshot.docs, quizRoundsSnapshot.docs].forEach((docs) =>
+        docs.forEach((existingDoc) => {
+          writes.push((batch) => batch.delete(existingDoc.ref));
+        })
+      );
+    } else {
+      // Log entries can only be created, so the ones already in the account are left out
+      [reviewsSnapshot, quizRoundsSnapshot].forEach((snapshot) =>
+        snapshot.docs.forEach((existingDoc) => existingLogIds.add(existingDoc.id))
+      );
+      if (keepExisting) {
+        [cardsSnapshot, decksSnapshot].forEach((snapshot) =>
+          snapshot.docs.forEach((existingDoc) => existingIds.add(existingDoc.id))
+        );
+      }
+    }
+    
+    source.decks
+      .filter((deck) => !existingIds.has(deck.id))
+      .forEach(({ id, ...deck }) => {
+        writes.push((batch) => batch.set(doc(db, DECKS_COLLECTION, id), withoutUndefined({ ...deck, userId })));
+      });
+    source.flashcards
+      .filter((flashcard) => !existingIds.has(flashcard.id))
+      .forEach(({ id, ...flashcard }) => {
+        writes.push((batch) => batch.set(doc(db, FLASHCARDS_COLLECTION, id), withoutUndefined({ ...flashcard, userId })));
+      });
+    source.reviews
+      .filter((review) => !existingLogIds.has(review.id))
+      .forEach(({ id, ...review }) => {
+        writes.push((batch) => batch.set(doc(db, REVIEWS_COLLECTION, id), toReviewDocument({ ...review, userId })));
+      });
+    source.quizRounds
+      .filter((round) => !existingLogIds.has(round.id))
+      .forEach(({ id, ...round }) => {
+        writes.push((batch) => batch.set(doc(db, QUIZ_ROUNDS_COLLECTION, id), { ...round, userId }));
+      });
+    
+    const settingsRef = doc(db, SETTINGS_COLLECTION, userId);
+    const settings = keepExisting ? { ...source.settings, ...(await getUserSettings(userId)) } : source.settings;
+    writes.push((batch) => batch.set(settingsRef, settings, { merge: mode === 'merge' }));
+    
+    // Replaced files are removed in the background once the restore is accepted
+    Promise.all(commitInChunks(writes, 'restored backup'))
+      .then(() => deleteAttachments(replacedAttachments))
+      .catch(() => {});
+  } catch (error) {
+    console.error('Error restoring account data:', error);
+    throw new Error('Failed to restore backup');
+  }
+};
+
+// The Firestore backend of the repository, used unless another one is configured
+export const firestoreRepository: FlashcardRepository = {
+  subscribeToSyncStatus,
+  clearSyncError,
+  addFlashcard,
+  importFlashcards,
+  updateFlashcard,
+  addReverseCard,
+  updateNoteCards,
+  deleteFlashcard,
+  getUserFlashcards,
+  subscribeToUserFlashcards,
+  getFlashcard,
+  applyBulkAction,
+  getUserFlashcardsCount,
+  updateFlashcardRevision,
+  updateFlashcardRevisionSettings,
+  markFlashcardReviewed,
+  recordFlashcardReview,
+  logReviewAttempts,
+  getFlashcardReviews,
+  getUserReviews,
+  addDeck,
+  updateDeck,
+  getUserDecks,
+  subscribeToUserDecks,
+  deleteDeck,
+  subscribeToTeamFlashcards,
+  subscribeToDeckInvites,
+  inviteDeckMember,
+  cancelDeckInvite,
+  setDeckMemberRole,
+  answerDeckInvite,
+  shareDeck,
+  getSharedDeck,
+  getUserSharedDecks,
+  revokeSharedDeck,
+  cloneSharedDeck,
+  getUserSettings,
+  updateUserSettings,
+  saveQuizRound,
+  getUserQuizRounds,
+  getAccountData,
+  restoreAccountData
 };
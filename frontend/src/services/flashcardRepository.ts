@@ -0,0 +1,184 @@
+import type { FlashcardData } from '../types/flashcard';
+import type { Deck, DeckCardAction, DeckRole } from '../types/deck';
+import type { ReviewLogEntry } from '../types/review';
+import type { UserSettings } from '../types/settings';
+import type { QuizRound } from '../types/quiz';
+import type { SyncStatus } from '../types/sync';
+import type { SharedDeck, SharedDeckContent } from '../types/share';
+import type { ScheduleResult } from '../utils/scheduler';
+import type { AccountBackup, AccountData, RestoreConflictStrategy, RestoreMode } from '../types/backup';
+
+// Content shared by the cards of a note; scheduling and deck stay per card
+export const NOTE_FIELDS = ['front', 'back', 'format', 'attachments', 'acceptedAnswers', 'tags'] as const;
+
+// Fields shared by every card generated from one note
+export type NoteUpdates = Partial<Pick<FlashcardData, typeof NOTE_FIELDS[number]>>;
+
+// Fields a user can edit on a single card; an explicit undefined deckId takes the card out of its deck
+export type FlashcardUpdates = Partial<Pick<FlashcardData, 'front' | 'back' | 'format' | 'attachments' | 'acceptedAnswers' | 'deckId' | 'tags'>>;
+
+export type NewFlashcard = Omit<FlashcardData, 'id' | 'createdAt'>;
+
+// A card being rescheduled. Its creator's schedule is kept on the card, while other members
+// of a team deck keep their own, so backends need to know whose card it is.
+export type ScheduledFlashcard = Pick<FlashcardData, 'id' | 'userId' | 'deckId'>;
+
+// The signed-in user as other members of a team deck see them
+export interface DeckUser {
+  userId: string;
+  displayName: string;
+  email?: string | null;
+}
+
+export type Unsubscribe = () => void;
+
+// Cards read per page of the live card list
+export const FLASHCARD_PAGE_SIZE = 100;
+
+export interface FlashcardPage {
+  flashcards: FlashcardData[]; // every card loaded so far, newest first
+  hasMore: boolean; // older cards exist that haven't been loaded
+}
+
+// A live, paginated subscription to a user's cards. Loaded pages keep streaming changes.
+export interface FlashcardFeed {
+  loadMore: () => void; // load the next page; ignored while a page is still loading
+  loadAll: () => void; // load every remaining card, for views that need the whole collection
+  unsubscribe: Unsubscribe;
+}
+
+// One change applied to every selected card
+export type BulkAction =
+  | { type: 'delete' }
+  | { type: 'move'; deckId?: string } // no deckId takes the cards out of their decks
+  | { type: 'tags'; add: string[]; remove: string[] }
+  | { type: 'reschedule'; nextRevision: Date };
+
+// Bulk changes are written in batches of cards; the server applies each batch entirely or not at all
+export interface BulkChunk {
+  flashcardIds: string[];
+  // Rejects if the server refused the batch, which also undoes it on this device
+  acknowledged: Promise<void>;
+}
+
+// Everything the app reads and writes, so components don't depend on a particular backend.
+// Backends must keep these semantics:
+// - writes resolve once they are visible to reads and subscriptions on this device
+// - subscriptions call back immediately with the current data and again after every change
+// - content edits to a card reach the other cards of its note
+export interface FlashcardRepository {
+  // Whether local writes have reached the server; backends without a server always report synced
+  subscribeToSyncStatus: (listener: (status: SyncStatus) => void) => Unsubscribe;
+  clearSyncError: () => void;
+
+  addFlashcard: (flashcard: NewFlashcard, userId: string) => Promise<string>;
+  // Returns the new ids in input order
+  importFlashcards: (flashcards: NewFlashcard[], userId: string) => Promise<string[]>;
+  updateFlashcard: (flashcardId: string, updates: FlashcardUpdates) => Promise<void>;
+  addReverseCard: (
+    source: FlashcardData,
+    schedule: Pick<FlashcardData, 'revisionSettings' | 'nextRevision'>,
+    userId: string
+  ) => Promise<{ id: string; noteId: string }>;
+  // Returns the ids of the added cards in input order
+  updateNoteCards: (
+    updatedIds: string[],
+    updates: NoteUpdates,
+    removedIds: string[],
+    addedCards: NewFlashcard[],
+    userId: string
+  ) => Promise<string[]>;
+  deleteFlashcard: (flashcardId: string) => Promise<void>;
+  getUserFlashcards: (userId: string) => Promise<FlashcardData[]>;
+  // Starts with the newest page of cards
+  subscribeToUserFlashcards: (
+    userId: string,
+    onChange: (page: FlashcardPage) => void,
+    onError: (error: Error) => void,
+    pageSize?: number
+  ) => FlashcardFeed;
+  getFlashcard: (flashcardId: string) => Promise<FlashcardData | null>;
+  // Resolves once the change is visible on this device. Tag changes reach the other cards of each note.
+  applyBulkAction: (userId: string, flashcards: FlashcardData[], action: BulkAction) => Promise<BulkChunk[]>;
+  // Counted without reading the cards; limited to one deck when deckId is given
+  getUserFlashcardsCount: (userId: string, deckId?: string) => Promise<number>;
+
+  updateFlashcardRevision: (flashcardId: string, revisionInterval: number, nextRevision?: Date) => Promise<void>;
+  updateFlashcardRevisionSettings: (
+    flashcardId: string,
+    revisionSettings: { interval: number; unit: string },
+    nextRevision?: Date
+  ) => Promise<void>;
+  markFlashcardReviewed: (flashcardId: string, revisionInterval?: number) => Promise<void>;
+  recordFlashcardReview: (
+    flashcard: ScheduledFlashcard,
+    result: ScheduleResult,
+    attempt: Pick<ReviewLogEntry, 'userId' | 'source' | 'outcome' | 'responseTimeMs'>,
+    reviewedAt?: Date
+  ) => Promise<void>;
+  logReviewAttempts: (entries: Array<Omit<ReviewLogEntry, 'id'>>) => Promise<void>;
+  // Newest first
+  getFlashcardReviews: (flashcardId: string, userId: string) => Promise<ReviewLogEntry[]>;
+  getUserReviews: (userId: string, since?: Date) => Promise<ReviewLogEntry[]>;
+
+  addDeck: (deck: Omit<Deck, 'id' | 'createdAt'>, userId: string) => Promise<string>;
+  updateDeck: (deckId: string, updates: Partial<Pick<Deck, 'name' | 'description' | 'revisionSettings'>>) => Promise<void>;
+  // Sorted by name
+  getUserDecks: (userId: string) => Promise<Deck[]>;
+  // Sorted by name, including the team decks the user is a member of
+  subscribeToUserDecks: (
+    userId: string,
+    onChange: (decks: Deck[]) => void,
+    onError: (error: Error) => void
+  ) => Unsubscribe;
+  // A team deck's cards are handled whoever added them
+  deleteDeck: (deckId: string, userId: string, cardAction: DeckCardAction, targetDeckId?: string) => Promise<void>;
+
+  // Cards other members added to the given team decks, each carrying the user's own schedule
+  subscribeToTeamFlashcards: (
+    userId: string,
+    deckIds: string[],
+    onChange: (flashcards: FlashcardData[]) => void,
+    onError: (error: Error) => void
+  ) => Unsubscribe;
+  // Team decks waiting for the user to accept or decline an invite to them
+  subscribeToDeckInvites: (
+    email: string,
+    onChange: (decks: Deck[]) => void,
+    onError: (error: Error) => void
+  ) => Unsubscribe;
+  inviteDeckMember: (deck: Deck, email: string, role: DeckRole, inviter: DeckUser) => Promise<void>;
+  cancelDeckInvite: (deckId: string, email: string) => Promise<void>;
+  // A null role removes the member
+  setDeckMemberRole: (deckId: string, memberId: string, role: DeckRole | null) => Promise<void>;
+  answerDeckInvite: (deck: Deck, user: DeckUser, accept: boolean) => Promise<void>;
+
+  // Publish a snapshot of a deck's cards that anyone with the link can preview; returns the shared deck's id
+  shareDeck: (deck: Deck, flashcards: FlashcardData[], owner: { userId: string; displayName: string }) => Promise<string>;
+  // null once the owner has revoked the link
+  getSharedDeck: (sharedDeckId: string) => Promise<SharedDeckContent | null>;
+  // Newest first
+  getUserSharedDecks: (userId: string) => Promise<SharedDeck[]>;
+  // Deletes the snapshot, so the link stops working; earlier clones are kept
+  revokeSharedDeck: (sharedDeckId: string) => Promise<void>;
+  // Copies the cards into a new deck of the user's with fresh scheduling; returns the new deck's id
+  cloneSharedDeck: (shared: SharedDeckContent, userId: string) => Promise<string>;
+
+  getUserSettings: (userId: string) => Promise<UserSettings>;
+  updateUserSettings: (userId: string, updates: Partial<UserSettings>) => Promise<void>;
+
+  saveQuizRound: (
+    round: Omit<QuizRound, 'id'>,
+    reschedules?: Array<{ flashcard: ScheduledFlashcard; result: ScheduleResult }>
+  ) => Promise<string>;
+  // Newest first
+  getUserQuizRounds: (userId: string, maxResults?: number) => Promise<QuizRound[]>;
+
+  getAccountData: (userId: string) => Promise<AccountData>;
+  restoreAccountData: (
+    userId: string,
+    backup: AccountBackup,
+    mode: RestoreMode,
+    conflictStrategy: RestoreConflictStrategy
+  ) => Promise<void>;
+}
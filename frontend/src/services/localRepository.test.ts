@@ -0,0 +1,188 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { FlashcardData } from '../types/flashcard';
+import type { RapidFireSettings } from '../types/quiz';
+import { getDueFlashcards, scheduleQuizOutcome, scheduleReview } from '../utils/scheduler';
+import type { FlashcardPage, FlashcardRepository } from './flashcardRepository';
+import { createLocalRepository } from './localRepository';
+
+const USER_ID = 'user-1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const QUIZ_SETTINGS: RapidFireSettings = {
+  timePerQuestion: 10,
+  questionCount: null,
+  cardSource: 'all',
+  direction: 'front-to-back',
+  answerMode: 'typed',
+  affectScheduling: true
+};
+
+// The latest page a subscriber was given
+const watchFlashcards = (repository: FlashcardRepository, pageSize?: number) => {
+  let latest: FlashcardPage = { flashcards: [], hasMore: false };
+  const feed = repository.subscribeToUserFlashcards(USER_ID, (page) => { latest = page; }, () => {}, pageSize);
+  return { feed, page: () => latest };
+};
+
+describe('dashboard flows on the in-memory backend', () => {
+  let repository: FlashcardRepository;
+
+  beforeEach(() => {
+    repository = createLocalRepository();
+  });
+
+  it('shows added cards to subscribers, newest first, a page at a time', async () => {
+    const { feed, page } = watchFlashcards(repository, 2);
+    expect(page()).toEqual({ flashcards: [], hasMore: false });
+
+    await repository.importFlashcards([
+      { front: 'one', back: '1', userId: USER_ID },
+      { front: 'two', back: '2', userId: USER_ID }
+    ], USER_ID);
+    await new Promise((resolve) => setTimeout(resolve, 2));
+    await repository.addFlashcard({ front: 'three', back: '3', userId: USER_ID }, USER_ID);
+
+    expect(page().flashcards.map((card) => card.front)).toEqual(['three', expect.any(String)]);
+    expect(page().hasMore).toBe(true);
+
+    feed.loadMore();
+    expect(page().flashcards).toHaveLength(3);
+    expect(page().hasMore).toBe(false);
+    expect(await repository.getUserFlashcardsCount(USER_ID)).toBe(3);
+
+    feed.unsubscribe();
+    await repository.addFlashcard({ front: 'four', back: '4', userId: USER_ID }, USER_ID);
+    expect(page().flashcards).toHaveLength(3);
+  });
+
+  it('edits a card and the other cards of its note together', async () => {
+    const id = await repository.addFlashcard({ front: 'chat', back: 'cat', userId: USER_ID, tags: ['fr'] }, USER_ID);
+    const source = (await repository.getFlashcard(id))!;
+    const { id: reverseId, noteId } = await repository.addReverseCard(source, {}, USER_ID);
+
+    await repository.updateFlashcard(id, { back: 'the cat', tags: ['fr', 'animals'] });
+
+    const reverse = (await repository.getFlashcard(reverseId))!;
+    expect(reverse).toMatchObject({ cardType: 'reverse', noteId, back: 'the cat', tags: ['fr', 'animals'] });
+    expect((await repository.getFlashcard(id))!.noteId).toBe(noteId);
+
+    await repository.deleteFlashcard(reverseId);
+    expect(await repository.getFlashcard(reverseId)).toBeNull();
+  });
+
+  it('counts, moves and deletes cards by deck', async () => {
+    const spanish = await repository.addDeck({ name: 'Spanish' }, USER_ID);
+    const french = await repository.addDeck({ name: 'French' }, USER_ID);
+    await repository.importFlashcards([
+      { front: 'perro', back: 'dog', deckId: spanish, userId: USER_ID },
+      { front: 'gato', back: 'cat', deckId: spanish, userId: USER_ID },
+      { front: 'chien', back: 'dog', deckId: french, userId: USER_ID }
+    ], USER_ID);
+
+    let deckNames: string[] = [];
+    const unsubscribe = repository.subscribeToUserDecks(USER_ID, (decks) => { deckNames = decks.map((deck) => deck.name); }, () => {});
+    expect(deckNames).toEqual(['French', 'Spanish']);
+    expect(await repository.getUserFlashcardsCount(USER_ID, spanish)).toBe(2);
+
+    const [perro] = (await repository.getUserFlashcards(USER_ID)).filter((card) => card.front === 'perro');
+    const chunks = await repository.applyBulkAction(USER_ID, [perro], { type: 'move', deckId: french });
+    await Promise.all(chunks.map((chunk) => chunk.acknowledged));
+    expect(await repository.getUserFlashcardsCount(USER_ID, french)).toBe(2);
+
+    await repository.deleteDeck(spanish, USER_ID, 'move', french);
+    expect(deckNames).toEqual(['French']);
+    expect(await repository.getUserFlashcardsCount(USER_ID, french)).toBe(3);
+
+    await repository.deleteDeck(french, USER_ID, 'delete');
+    expect(deckNames).toEqual([]);
+    expect(await repository.getUserFlashcardsCount(USER_ID)).toBe(0);
+    unsubscribe();
+  });
+
+  it('changes tags once per note in a bulk action', async () => {
+    const id = await repository.addFlashcard({ front: 'hola', back: 'hello', tags: ['es'], userId: USER_ID }, USER_ID);
+    const { id: reverseId } = await repository.addReverseCard((await repository.getFlashcard(id))!, {}, USER_ID);
+    const cards = await repository.getUserFlashcards(USER_ID);
+
+    await repository.applyBulkAction(USER_ID, cards, { type: 'tags', add: ['greetings'], remove: ['es'] });
+
+    expect((await repository.getFlashcard(id))!.tags).toEqual(['greetings']);
+    expect((await repository.getFlashcard(reverseId))!.tags).toEqual(['greetings']);
+  });
+});
+
+describe('scheduling flows on the in-memory backend', () => {
+  let repository: FlashcardRepository;
+  let flashcard: FlashcardData;
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  beforeEach(async () => {
+    repository = createLocalRepository();
+    const id = await repository.addFlashcard({ front: 'uno', back: 'one', userId: USER_ID }, USER_ID);
+    flashcard = (await repository.getFlashcard(id))!;
+  });
+
+  it('saves a graded review on the card and in the review log', async () => {
+    const result = scheduleReview(flashcard, 'good', now);
+    await repository.recordFlashcardReview(flashcard, result, { userId: USER_ID, source: 'manual', outcome: 'good' }, now);
+
+    const reviewed = (await repository.getFlashcard(flashcard.id))!;
+    expect(reviewed).toMatchObject({ lastReviewed: now, reviewCount: 1, stability: 1, easeFactor: 2.5, lapses: 0 });
+    expect(reviewed.nextRevision).toEqual(new Date(now.getTime() + DAY_MS));
+
+    const [review] = await repository.getFlashcardReviews(flashcard.id, USER_ID);
+    expect(review).toMatchObject({ outcome: 'good', scheduledInterval: 1, nextRevision: reviewed.nextRevision });
+  });
+
+  it('grows the interval on each recall and resets it on a lapse', async () => {
+    const review = async (grade: 'good' | 'again', at: Date) => {
+      const card = (await repository.getFlashcard(flashcard.id))!;
+      await repository.recordFlashcardReview(card, scheduleReview(card, grade, at), { userId: USER_ID, source: 'study-session', outcome: grade }, at);
+      return (await repository.getFlashcard(flashcard.id))!;
+    };
+
+    const first = await review('good', now);
+    const second = await review('good', first.nextRevision!);
+    expect(second.stability).toBe(2.5);
+    expect(getDueFlashcards([second], new Date(second.nextRevision!.getTime() - 1))).toEqual([]);
+    expect(getDueFlashcards([second], second.nextRevision!)).toEqual([second]);
+
+    const lapsed = await review('again', second.nextRevision!);
+    expect(lapsed).toMatchObject({ stability: 0, lapses: 1, easeFactor: 2.3, reviewCount: 3 });
+    expect(await repository.getUserReviews(USER_ID)).toHaveLength(3);
+  });
+
+  it('reschedules missed quiz answers with the round', async () => {
+    const later = await repository.addFlashcard({ front: 'dos', back: 'two', userId: USER_ID, nextRevision: new Date(now.getTime() + 30 * DAY_MS) }, USER_ID);
+    const laterCard = (await repository.getFlashcard(later))!;
+    const reschedules = [
+      { flashcard, result: scheduleQuizOutcome(flashcard, 'incorrect', now) },
+      { flashcard: laterCard, result: scheduleQuizOutcome(laterCard, 'correct', now) }
+    ].flatMap(({ flashcard: card, result }) => (result ? [{ flashcard: card, result }] : []));
+    expect(reschedules.map((reschedule) => reschedule.flashcard.id)).toEqual([flashcard.id]);
+
+    const roundId = await repository.saveQuizRound({
+      userId: USER_ID,
+      completedAt: now,
+      settings: QUIZ_SETTINGS,
+      score: 1,
+      total: 2,
+      accuracy: 50,
+      timeSpent: 8,
+      outcomes: [
+        { flashcardId: flashcard.id, result: 'incorrect', responseTimeMs: 5000 },
+        { flashcardId: later, result: 'correct', responseTimeMs: 3000 }
+      ]
+    }, reschedules);
+
+    const [round] = await repository.getUserQuizRounds(USER_ID);
+    expect(round.id).toBe(roundId);
+    expect((await repository.getFlashcard(flashcard.id))!).toMatchObject({ lapses: 1, lastReviewed: now });
+    expect((await repository.getFlashcard(later))!.nextRevision).toEqual(laterCard.nextRevision);
+
+    const reviews = await repository.getUserReviews(USER_ID);
+    expect(reviews.map((review) => [review.outcome, review.source, review.scheduledInterval !== undefined])).toEqual(
+      expect.arrayContaining([['incorrect', 'rapid-fire', true], ['correct', 'rapid-fire', false]])
+    );
+  });
+});
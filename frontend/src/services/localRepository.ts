@@ -0,0 +1,553 @@
+import type { FlashcardData } from '../types/flashcard';
+import type { Deck } from '../types/deck';
+import type { ReviewLogEntry } from '../types/review';
+import type { QuizRound } from '../types/quiz';
+import type { AccountData } from '../types/backup';
+import type { SyncStatus } from '../types/sync';
+import type { SharedDeckContent } from '../types/share';
+import type { ScheduleResult } from '../utils/scheduler';
+import { createBackup, parseBackup, serializeBackup, withFreshIds } from '../utils/backup';
+import { changeTags } from '../utils/flashcardFilters';
+import { toClonedFlashcards, toSharedCards } from '../utils/share';
+import { FLASHCARD_PAGE_SIZE, NOTE_FIELDS } from './flashcardRepository';
+import type { FlashcardRepository, NewFlashcard, Unsubscribe } from './flashcardRepository';
+
+// Each user's data is stored as a backup document under its own key
+const STORAGE_KEY_PREFIX = 'flashcards-local:';
+// Shared decks are kept apart from any account, so every local user can open their links
+const SHARED_DECKS_KEY = 'flashcards-local-shared';
+
+// Nothing is ever waiting for a server
+const SYNCED: SyncStatus = { state: 'synced' };
+
+const emptyAccount = (): AccountData => ({ flashcards: [], decks: [], reviews: [], quizRounds: [], settings: {} });
+
+const newId = (): string => crypto.randomUUID();
+
+const byNewestCard = (a: FlashcardData, b: FlashcardData) => b.createdAt.getTime() - a.createdAt.getTime();
+const byDeckName = (a: Deck, b: Deck) => a.name.localeCompare(b.name);
+const byNewestReview = (a: ReviewLogEntry, b: ReviewLogEntry) => b.reviewedAt.getTime() - a.reviewedAt.getTime();
+const byNewestRound = (a: QuizRound, b: QuizRound) => b.completedAt.getTime() - a.completedAt.getTime();
+
+const toFlashcard = (flashcard: NewFlashcard, userId: string, createdAt: Date): FlashcardData => ({
+  reviewCount: 0,
+  ...flashcard,
+  id: newId(),
+  userId,
+  createdAt
+});
+
+const withSchedule = (flashcard: FlashcardData, result: ScheduleResult, reviewedAt: Date): FlashcardData => ({
+  ...flashcard,
+  lastReviewed: reviewedAt,
+  nextRevision: result.nextRevision,
+  easeFactor: result.easeFactor,
+  stability: result.stability,
+  lapses: result.lapses,
+  reviewCount: (flashcard.reviewCount || 0) + 1
+});
+
+// Records from a restored backup replace records with the same id, unless existing ones are kept
+const mergeRecords = <T extends { id: string }>(existing: T[], restored: T[], keepExisting: boolean): T[] => {
+  if (keepExisting) {
+    const existingIds = new Set(existing.map(record => record.id));
+    return [...existing, ...restored.filter(record => !existingIds.has(record.id))];
+  }
+  const restoredIds = new Set(restored.map(record => record.id));
+  return [...existing.filter(record => !restoredIds.has(record.id)), ...restored];
+};
+
+// A repository that keeps everything in memory, and in `storage` (such as window.localStorage)
+// when one is given, so the app can run without a Firebase project. Attachment files still go
+// through Cloud Storage and are not cleaned up when their cards are deleted or edited.
+export const createLocalRepository = (storage?: Storage): FlashcardRepository => {
+  const accounts = new Map<string, AccountData>();
+  const flashcardListeners = new Map<string, Set<(flashcards: FlashcardData[]) => void>>();
+  const deckListeners = new Map<string, Set<(decks: Deck[]) => void>>();
+  let sharedDecks: SharedDeckContent[] = [];
+
+  const loadAccount = (userId: string): AccountData => {
+    const stored = storage?.getItem(STORAGE_KEY_PREFIX + userId);
+    if (!stored) return emptyAccount();
+    const { backup, errors } = parseBackup(stored);
+    if (!backup) {
+      console.error('Error reading local data:', errors);
+      return emptyAccount();
+    }
+    const { flashcards, decks, reviews, quizRounds, settings } = backup;
+    return { flashcards, decks, reviews, quizRounds, settings };
+  };
+
+  const getAccount = (userId: string): AccountData => {
+    let account = accounts.get(userId);
+    if (!account) {
+      account = loadAccount(userId);
+      accounts.set(userId, account);
+    }
+    return account;
+  };
+
+  const getSortedFlashcards = (userId: string) => [...getAccount(userId).flashcards].sort(byNewestCard);
+  const getSortedDecks = (userId: string) => [...getAccount(userId).decks].sort(byDeckName);
+
+  const notifyListeners = (userId: string): void => {
+    flashcardListeners.get(userId)?.forEach((listener) => listener(getSortedFlashcards(userId)));
+    deckListeners.get(userId)?.forEach((listener) => listener(getSortedDecks(userId)));
+  };
+
+  // Replace parts of a user's account, persist it and tell that user's subscribers.
+  // Records are never mutated in place, so unchanged ones keep their identity.
+  const saveAccount = (userId: string, changes: Partial<AccountData>): void => {
+    const account = { ...getAccount(userId), ...changes };
+    accounts.set(userId, account);
+    try {
+      storage?.setItem(STORAGE_KEY_PREFIX + userId, serializeBackup(createBackup(userId, account)));
+    } catch (error) {
+      console.error('Error saving local data:', error);
+      throw new Error('Failed to save local data');
+    }
+    notifyListeners(userId);
+  };
+
+  // Only accounts that have been read can hold the record, since every flow starts by loading a user's data
+  const findFlashcard = (flashcardId: string): { userId: string; flashcard: FlashcardData } => {
+    for (const [userId, account] of accounts) {
+      const flashcard = account.flashcards.find((card) => card.id === flashcardId);
+      if (flashcard) return { userId, flashcard };
+    }
+    throw new Error(`Flashcard ${flashcardId} not found`);
+  };
+
+  const findDeckOwner = (deckId: string): string => {
+    for (const [userId, account] of accounts) {
+      if (account.decks.some((deck) => deck.id === deckId)) return userId;
+    }
+    throw new Error(`Deck ${deckId} not found`);
+  };
+
+  // Read from storage on every call, so a link shared in another tab opens here too
+  const loadSharedDecks = (): SharedDeckContent[] => {
+    const stored = storage?.getItem(SHARED_DECKS_KEY);
+    if (!stored) return sharedDecks;
+    try {
+      return (JSON.parse(stored) as SharedDeckContent[]).map((shared) => ({
+        ...shared,
+        deck: { ...shared.deck, createdAt: new Date(shared.deck.createdAt) }
+      }));
+    } catch (error) {
+      console.error('Error reading local shared decks:', error);
+      return [];
+    }
+  };
+
+  const saveSharedDecks = (updated: SharedDeckContent[]): void => {
+    sharedDecks = updated;
+    try {
+      storage?.setItem(SHARED_DECKS_KEY, JSON.stringify(updated));
+    } catch (error) {
+      console.error('Error saving local shared decks:', error);
+      throw new Error('Failed to save local data');
+    }
+  };
+
+  const updateCard = (flashcardId: string, update: (flashcard: FlashcardData) => FlashcardData): void => {
+    const { userId } = findFlashcard(flashcardId);
+    saveAccount(userId, {
+      flashcards: getAccount(userId).flashcards.map((card) => (card.id === flashcardId ? update(card) : card))
+    });
+  };
+
+  const subscribe = <T>(
+    listeners: Map<string, Set<(items: T) => void>>,
+    userId: string,
+    onChange: (items: T) => void,
+    current: T
+  ): Unsubscribe => {
+    const userListeners = listeners.get(userId) ?? new Set();
+    listeners.set(userId, userListeners);
+    userListeners.add(onChange);
+    onChange(current);
+    return () => {
+      userListeners.delete(onChange);
+    };
+  };
+
+  // Another tab changed the stored data: reload it and update this tab's subscribers
+  if (storage && typeof window !== 'undefined') {
+    window.addEventListener('storage', (event) => {
+      if (event.storageArea !== storage || !event.key?.startsWith(STORAGE_KEY_PREFIX)) return;
+      const userId = event.key.slice(STORAGE_KEY_PREFIX.length);
+      if (!accounts.has(userId)) return;
+      accounts.set(userId, loadAccount(userId));
+      notifyListeners(userId);
+    });
+  }
+
+  const repository: FlashcardRepository = {
+    subscribeToSyncStatus: (listener) => {
+      listener(SYNCED);
+      return () => {};
+    },
+    clearSyncError: () => {},
+
+    addFlashcard: async (flashcard, userId) => {
+      const created = { ...toFlashcard(flashcard, userId, new Date()), reviewCount: 0 };
+      saveAccount(userId, { flashcards: [created, ...getAccount(userId).flashcards] });
+      return created.id;
+    },
+
+    importFlashcards: async (flashcards, userId) => {
+      const createdAt = new Date();
+      const created = flashcards.map((flashcard) => toFlashcard(flashcard, userId, createdAt));
+      saveAccount(userId, { flashcards: [...created, ...getAccount(userId).flashcards] });
+      return created.map((flashcard) => flashcard.id);
+    },
+
+    updateFlashcard: async (flashcardId, updates) => {
+      const { userId, flashcard: { noteId } } = findFlashcard(flashcardId);
+      const noteUpdates = Object.fromEntries(NOTE_FIELDS.filter((field) => field in updates).map((field) => [field, updates[field]]));
+      saveAccount(userId, {
+        flashcards: getAccount(userId).flashcards.map((card) => {
+          if (card.id === flashcardId) return { ...card, ...updates };
+          if (noteId && card.noteId === noteId) return { ...card, ...noteUpdates };
+          return card;
+        })
+      });
+    },
+
+    addReverseCard: async (source, schedule, userId) => {
+      const noteId = source.noteId || newId();
+      const reverseCard: FlashcardData = {
+        id: newId(),
+        front: source.front,
+        back: source.back,
+        format: source.format,
+        attachments: source.attachments,
+        acceptedAnswers: source.acceptedAnswers,
+        tags: source.tags,
+        cardType: 'reverse',
+        noteId,
+        userId,
+        deckId: source.deckId,
+        createdAt: new Date(),
+        reviewCount: 0,
+        ...schedule
+      };
+      saveAccount(userId, {
+        flashcards: [
+          reverseCard,
+          ...getAccount(userId).flashcards.map((card) => (card.id === source.id ? { ...card, noteId } : card))
+        ]
+      });
+      return { id: reverseCard.id, noteId };
+    },
+
+    updateNoteCards: async (updatedIds, updates, removedIds, addedCards, userId) => {
+      const createdAt = new Date();
+      const added = addedCards.map((flashcard) => toFlashcard(flashcard, userId, createdAt));
+      saveAccount(userId, {
+        flashcards: [
+          ...added,
+          ...getAccount(userId).flashcards
+            .filter((card) => !removedIds.includes(card.id))
+            .map((card) => (updatedIds.includes(card.id) ? { ...card, ...updates } : card))
+        ]
+      });
+      return added.map((flashcard) => flashcard.id);
+    },
+
+    deleteFlashcard: async (flashcardId) => {
+      const { userId } = findFlashcard(flashcardId);
+      saveAccount(userId, { flashcards: getAccount(userId).flashcards.filter((card) => card.id !== flashcardId) });
+    },
+
+    getUserFlashcards: async (userId) => getSortedFlashcards(userId),
+
+    // Everything is already in memory, so pages only limit how many cards are handed out
+    subscribeToUserFlashcards: (userId, onChange, _onError, pageSize = FLASHCARD_PAGE_SIZE) => {
+      let shownCount = pageSize;
+      const emit = (flashcards: FlashcardData[]) =>
+        onChange({ flashcards: flashcards.slice(0, shownCount), hasMore: flashcards.length > shownCount });
+      const unsubscribe = subscribe(flashcardListeners, userId, emit, getSortedFlashcards(userId));
+      return {
+        loadMore: () => {
+          shownCount += pageSize;
+          emit(getSortedFlashcards(userId));
+        },
+        loadAll: () => {
+          shownCount = Infinity;
+          emit(getSortedFlashcards(userId));
+        },
+        unsubscribe
+      };
+    },
+
+    getFlashcard: async (flashcardId) => {
+      try {
+        return findFlashcard(flashcardId).flashcard;
+      } catch {
+        return null;
+      }
+    },
+
+    // Every change is saved at once, so the whole selection is a single chunk that can't be refused
+    applyBulkAction: async (userId, flashcards, action) => {
+      const ids = new Set(flashcards.map((flashcard) => flashcard.id));
+      const cards = getAccount(userId).flashcards;
+      if (action.type === 'delete') {
+        saveAccount(userId, { flashcards: cards.filter((card) => !ids.has(card.id)) });
+      } else if (action.type === 'tags') {
+        // Tags are shared by a note's cards; each note takes its new tags from its first selected card
+        const tagsByKey = new Map<string, string[]>();
+        flashcards.forEach((flashcard) => {
+          const key = flashcard.noteId || flashcard.id;
+          if (!tagsByKey.has(key)) tagsByKey.set(key, changeTags(flashcard.tags, action.add, action.remove));
+        });
+        saveAccount(userId, {
+          flashcards: cards.map((card) => {
+            const tags = tagsByKey.get(card.id) ?? (card.noteId ? tagsByKey.get(card.noteId) : undefined);
+            return tags ? { ...card, tags } : card;
+          })
+        });
+      } else {
+        const changes = action.type === 'move' ? { deckId: action.deckId } : { nextRevision: action.nextRevision };
+        saveAccount(userId, { flashcards: cards.map((card) => (ids.has(card.id) ? { ...card, ...changes } : card)) });
+      }
+      return [{ flashcardIds: [...ids], acknowledged: Promise.resolve() }];
+    },
+
+    getUserFlashcardsCount: async (userId, deckId) =>
+      getAccount(userId).flashcards.filter((card) => !deckId || card.deckId === deckId).length,
+
+    updateFlashcardRevision: async (flashcardId, revisionInterval, nextRevision) => {
+      updateCard(flashcardId, (card) => ({ ...card, revisionInterval, ...(nextRevision ? { nextRevision } : {}) }));
+    },
+
+    updateFlashcardRevisionSettings: async (flashcardId, revisionSettings, nextRevision) => {
+      updateCard(flashcardId, (card) => ({
+        ...card,
+        revisionSettings: revisionSettings as FlashcardData['revisionSettings'],
+        ...(nextRevision ? { nextRevision } : {})
+      }));
+    },
+
+    markFlashcardReviewed: async (flashcardId, revisionInterval = 7) => {
+      const now = new Date();
+      const nextRevision = new Date();
+      nextRevision.setDate(now.getDate() + revisionInterval);
+      updateCard(flashcardId, (card) => ({ ...card, lastReviewed: now, nextRevision }));
+    },
+
+    recordFlashcardReview: async ({ id: flashcardId }, result, attempt, reviewedAt = new Date()) => {
+      const { userId } = findFlashcard(flashcardId);
+      const account = getAccount(userId);
+      saveAccount(userId, {
+        flashcards: account.flashcards.map((card) => (card.id === flashcardId ? withSchedule(card, result, reviewedAt) : card)),
+        reviews: [...account.reviews, {
+          ...attempt,
+          id: newId(),
+          flashcardId,
+          reviewedAt,
+          scheduledInterval: result.interval,
+          nextRevision: result.nextRevision
+        }]
+      });
+    },
+
+    logReviewAttempts: async (entries) => {
+      new Set(entries.map((entry) => entry.userId)).forEach((userId) => {
+        saveAccount(userId, {
+          reviews: [
+            ...getAccount(userId).reviews,
+            ...entries.filter((entry) => entry.userId === userId).map((entry) => ({ ...entry, id: newId() }))
+          ]
+        });
+      });
+    },
+
+    getFlashcardReviews: async (flashcardId, userId) =>
+      getAccount(userId).reviews.filter((review) => review.flashcardId === flashcardId).sort(byNewestReview),
+
+    getUserReviews: async (userId, since) =>
+      getAccount(userId).reviews.filter((review) => !since || review.reviewedAt >= since).sort(byNewestReview),
+
+    addDeck: async (deck, userId) => {
+      const created: Deck = { ...deck, id: newId(), userId, createdAt: new Date() };
+      saveAccount(userId, { decks: [...getAccount(userId).decks, created] });
+      return created.id;
+    },
+
+    updateDeck: async (deckId, updates) => {
+      const userId = findDeckOwner(deckId);
+      saveAccount(userId, {
+        decks: getAccount(userId).decks.map((deck) => (deck.id === deckId ? { ...deck, ...updates } : deck))
+      });
+    },
+
+    getUserDecks: async (userId) => getSortedDecks(userId),
+
+    subscribeToUserDecks: (userId, onChange) =>
+      subscribe(deckListeners, userId, onChange, getSortedDecks(userId)),
+
+    deleteDeck: async (deckId, userId, cardAction, targetDeckId) => {
+      const account = getAccount(userId);
+      saveAccount(userId, {
+        flashcards: cardAction === 'delete'
+          ? account.flashcards.filter((card) => card.deckId !== deckId)
+          : account.flashcards.map((card) => (card.deckId === deckId ? { ...card, deckId: targetDeckId } : card)),
+        decks: account.decks.filter((deck) => deck.id !== deckId)
+      });
+    },
+
+    // Local data belongs to a single user, so decks never have other members
+    subscribeToTeamFlashcards: (_userId, _deckIds, onChange) => {
+      onChange([]);
+      return () => {};
+    },
+
+    subscribeToDeckInvites: (_email, onChange) => {
+      onChange([]);
+      return () => {};
+    },
+
+    inviteDeckMember: async () => {
+      throw new Error('Deck members need the Firestore backend');
+    },
+
+    cancelDeckInvite: async () => {
+      throw new Error('Deck members need the Firestore backend');
+    },
+
+    setDeckMemberRole: async () => {
+      throw new Error('Deck members need the Firestore backend');
+    },
+
+    answerDeckInvite: async () => {
+      throw new Error('Deck members need the Firestore backend');
+    },
+
+    shareDeck: async (deck, flashcards, owner) => {
+      const shared: SharedDeckContent = {
+        deck: {
+          id: newId(),
+          ownerId: owner.userId,
+          ownerName: owner.displayName,
+          sourceDeckId: deck.id,
+          name: deck.name,
+          description: deck.description,
+          revisionSettings: deck.revisionSettings,
+          cardCount: flashcards.length,
+          createdAt: new Date()
+        },
+        cards: toSharedCards(flashcards)
+      };
+      saveSharedDecks([...loadSharedDecks(), shared]);
+      return shared.deck.id;
+    },
+
+    getSharedDeck: async (sharedDeckId) =>
+      loadSharedDecks().find((shared) => shared.deck.id === sharedDeckId) ?? null,
+
+    getUserSharedDecks: async (userId) =>
+      loadSharedDecks()
+        .map((shared) => shared.deck)
+        .filter((deck) => deck.ownerId === userId)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+
+    revokeSharedDeck: async (sharedDeckId) => {
+      saveSharedDecks(loadSharedDecks().filter((shared) => shared.deck.id !== sharedDeckId));
+    },
+
+    cloneSharedDeck: async (shared, userId) => {
+      const createdAt = new Date();
+      const deck: Deck = {
+        id: newId(),
+        name: shared.deck.name,
+        description: shared.deck.description,
+        revisionSettings: shared.deck.revisionSettings,
+        clonedFrom: shared.deck.id,
+        clonedFromOwner: shared.deck.ownerName,
+        clonedAt: createdAt,
+        userId,
+        createdAt
+      };
+      const account = getAccount(userId);
+      saveAccount(userId, {
+        decks: [...account.decks, deck],
+        flashcards: [
+          ...toClonedFlashcards(shared, deck.id, userId, newId).map((flashcard) => toFlashcard(flashcard, userId, createdAt)),
+          ...account.flashcards
+        ]
+      });
+      return deck.id;
+    },
+
+    getUserSettings: async (userId) => getAccount(userId).settings,
+
+    updateUserSettings: async (userId, updates) => {
+      saveAccount(userId, { settings: { ...getAccount(userId).settings, ...updates } });
+    },
+
+    saveQuizRound: async (round, reschedules = []) => {
+      const roundId = newId();
+      const rescheduled = new Map(reschedules.map(({ flashcard, result }) => [flashcard.id, result]));
+      const account = getAccount(round.userId);
+      const reviews: ReviewLogEntry[] = round.outcomes.map((outcome) => {
+        const schedule = rescheduled.get(outcome.flashcardId);
+        return {
+          id: newId(),
+          flashcardId: outcome.flashcardId,
+          userId: round.userId,
+          reviewedAt: round.completedAt,
+          source: 'rapid-fire',
+          outcome: outcome.result,
+          responseTimeMs: outcome.responseTimeMs,
+          scheduledInterval: schedule?.interval,
+          nextRevision: schedule?.nextRevision
+        };
+      });
+      saveAccount(round.userId, {
+        quizRounds: [...account.quizRounds, { ...round, id: roundId }],
+        reviews: [...account.reviews, ...reviews],
+        flashcards: account.flashcards.map((card) => {
+          const result = rescheduled.get(card.id);
+          return result ? withSchedule(card, result, round.completedAt) : card;
+        })
+      });
+      return roundId;
+    },
+
+    getUserQuizRounds: async (userId, maxResults = 20) =>
+      [...getAccount(userId).quizRounds].sort(byNewestRound).slice(0, maxResults),
+
+    getAccountData: async (userId) => {
+      const account = getAccount(userId);
+      return {
+        flashcards: getSortedFlashcards(userId),
+        decks: getSortedDecks(userId),
+        reviews: [...account.reviews].sort(byNewestReview),
+        quizRounds: [...account.quizRounds].sort(byNewestRound),
+        settings: account.settings
+      };
+    },
+
+    restoreAccountData: async (userId, backup, mode, conflictStrategy) => {
+      // A backup from another account gets new ids so that account's records are never overwritten
+      const source = backup.userId === userId ? backup : withFreshIds(backup, newId);
+      const keepExisting = mode === 'merge' && conflictStrategy === 'keep-existing';
+      const current = mode === 'replace' ? emptyAccount() : getAccount(userId);
+      saveAccount(userId, {
+        flashcards: mergeRecords(current.flashcards, source.flashcards.map((card) => ({ ...card, userId })), keepExisting),
+        decks: mergeRecords(current.decks, source.decks.map((deck) => ({ ...deck, userId })), keepExisting),
+        // Log entries never change, so the backup's copy is as good as the existing one
+        reviews: mergeRecords(current.reviews, source.reviews.map((review) => ({ ...review, userId })), false),
+        quizRounds: mergeRecords(current.quizRounds, source.quizRounds.map((round) => ({ ...round, userId })), false),
+        settings: keepExisting
+          ? { ...source.settings, ...current.settings }
+          : { ...current.settings, ...source.settings }
+      });
+    }
+  };
+
+  return repository;
+};
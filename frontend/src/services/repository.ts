@@ -0,0 +1,80 @@
+import type { User } from 'firebase/auth';
+import { createLocalRepository } from './localRepository';
+import type { FlashcardRepository } from './flashcardRepository';
+
+// Where the app keeps its data, chosen with VITE_DATA_BACKEND:
+// 'firestore' (the default), 'local' (this browser's localStorage) or 'memory' (lost on reload)
+export type DataBackend = 'firestore' | 'local' | 'memory';
+
+const getDataBackend = (): DataBackend => {
+  const backend = import.meta.env.VITE_DATA_BACKEND;
+  return backend === 'local' || backend === 'memory' ? backend : 'firestore';
+};
+
+export const dataBackend = getDataBackend();
+
+// Local backends have a single built-in user instead of Firebase sign-in
+export const LOCAL_USER: Pick<User, 'uid' | 'displayName' | 'email'> = {
+  uid: 'local-user',
+  displayName: 'Local user',
+  email: null
+};
+
+// Only the Firestore backend loads Firebase, so local backends run without its config
+const createRepository = async (backend: DataBackend): Promise<FlashcardRepository> => {
+  switch (backend) {
+    case 'local':
+      return createLocalRepository(window.localStorage);
+    case 'memory':
+      return createLocalRepository();
+    default:
+      return (await import('./firestoreService')).firestoreRepository;
+  }
+};
+
+export const repository = await createRepository(dataBackend);
+
+export const {
+  subscribeToSyncStatus,
+  clearSyncError,
+  addFlashcard,
+  importFlashcards,
+  updateFlashcard,
+  addReverseCard,
+  updateNoteCards,
+  deleteFlashcard,
+  getUserFlashcards,
+  subscribeToUserFlashcards,
+  getFlashcard,
+  applyBulkAction,
+  getUserFlashcardsCount,
+  updateFlashcardRevision,
+  updateFlashcardRevisionSettings,
+  markFlashcardReviewed,
+  recordFlashcardReview,
+  logReviewAttempts,
+  getFlashcardReviews,
+  getUserReviews,
+  addDeck,
+  updateDeck,
+  getUserDecks,
+  subscribeToUserDecks,
+  deleteDeck,
+  subscribeToTeamFlashcards,
+  subscribeToDeckInvites,
+  inviteDeckMember,
+  cancelDeckInvite,
+  setDeckMemberRole,
+  answerDeckInvite,
+  shareDeck,
+  getSharedDeck,
+  getUserSharedDecks,
+  revokeSharedDeck,
+  cloneSharedDeck,
+  getUserSettings,
+  updateUserSettings,
+  saveQuizRound,
+  getUserQuizRounds,
+  getAccountData,
+  restoreAccountData
+} = repository;
@@ -0,0 +1,298 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocFromServer,
+  setDoc,
+  updateDoc,
+  onSnapshot,
+  query,
+  where,
+  runTransaction,
+  writeBatch,
+  serverTimestamp,
+  increment,
+  type DocumentData,
+  type FirestoreError,
+  type Unsubscribe
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import type {
+  QuizRoom,
+  RoomAnswer,
+  RoomAnswerKey,
+  RoomPlayer,
+  RoomQuestion,
+  RoomSettings,
+  RoomSubmission
+} from '../types/room';
+import { createJoinCode } from '../utils/roomUtils';
+
+// Multiplayer Rapid Fire rooms live only in Firestore: players on different devices follow the
+// same room document as the host moves it along. Unlike the card services, writes here are
+// awaited, since a room can't be played offline.
+
+const ROOMS_COLLECTION = 'rooms';
+// Subcollection of a room with one document per player, keyed by user id
+const PLAYERS_COLLECTION = 'players';
+// Subcollection of a room holding its answers, in one document keyed by the host's user id
+const ANSWER_KEY_COLLECTION = 'answerKey';
+// Subcollection of a room with one document per answer, keyed by question index and user id
+const SUBMISSIONS_COLLECTION = 'submissions';
+
+// Attempts at picking a join code that isn't already taken
+const JOIN_CODE_ATTEMPTS = 5;
+
+export interface RoomMember {
+  userId: string;
+  displayName: string;
+}
+
+// Convert Firestore document to QuizRoom
+const convertDocToRoom = (doc: DocumentData): QuizRoom => {
+  // The host's own pending start time is estimated, so its timer runs before the server confirms it
+  const data = doc.data({ serverTimestamps: 'estimate' });
+  return {
+    id: doc.id,
+    hostId: data.hostId,
+    hostName: data.hostName,
+    title: data.title,
+    settings: data.settings,
+    questions: data.questions || [],
+    reveals: data.reveals || {},
+    status: data.status,
+    currentIndex: data.currentIndex || 0,
+    questionStartedAt: data.questionStartedAt?.toDate() || undefined,
+    createdAt: data.createdAt?.toDate() || new Date()
+  };
+};
+
+// Convert Firestore document to RoomPlayer
+const convertDocToPlayer = (doc: DocumentData): RoomPlayer => {
+  const data = doc.data({ serverTimestamps: 'estimate' });
+  return {
+    id: doc.id,
+    name: data.name,
+    score: data.score || 0,
+    answers: data.answers || {},
+    joinedAt: data.joinedAt?.toDate() || new Date()
+  };
+};
+
+// Convert Firestore document to RoomSubmission
+const convertDocToSubmission = (doc: DocumentData): RoomSubmission => {
+  const data = doc.data({ serverTimestamps: 'estimate' });
+  return {
+    userId: data.userId,
+    questionIndex: data.questionIndex,
+    answer: data.answer,
+    submittedAt: data.submittedAt?.toDate() || new Date()
+  };
+};
+
+const getRoomRef = (roomId: string) => doc(db, ROOMS_COLLECTION, roomId);
+
+const getPlayerRef = (roomId: string, userId: string) =>
+  doc(db, ROOMS_COLLECTION, roomId, PLAYERS_COLLECTION, userId);
+
+const getAnswerKeyRef = (roomId: string, hostId: string) =>
+  doc(db, ROOMS_COLLECTION, roomId, ANSWER_KEY_COLLECTION, hostId);
+
+// Open a room in the lobby and return its join code. Only the host can read the answer key,
+// one entry per question, until each answer is revealed.
+export const createRoom = async (
+  host: RoomMember,
+  title: string,
+  settings: RoomSettings,
+  questions: RoomQuestion[],
+  answerKey: RoomAnswerKey[]
+): Promise<string> => {
+  try {
+    for (let attempt = 0; attempt < JOIN_CODE_ATTEMPTS; attempt++) {
+      const roomRef = getRoomRef(createJoinCode());
+      // Claim the code in a transaction so two hosts can't open the same room
+      const created = await runTransaction(db, async (transaction) => {
+        if ((await transaction.get(roomRef)).exists()) {
+          return false;
+        }
+        transaction.set(roomRef, {
+          hostId: host.userId,
+          hostName: host.displayName,
+          title,
+          settings,
+          questions,
+          reveals: {},
+          status: 'lobby',
+          currentIndex: 0,
+          createdAt: serverTimestamp()
+        });
+        transaction.set(getAnswerKeyRef(roomRef.id, host.userId), { answers: answerKey });
+        return true;
+      });
+      if (created) {
+        return roomRef.id;
+      }
+    }
+    throw new Error('No free join code');
+  } catch (error) {
+    console.error('Error creating room:', error);
+    throw new Error('Failed to create room');
+  }
+};
+
+export const getRoomAnswerKey = async (roomId: string, hostId: string): Promise<RoomAnswerKey[]> => {
+  try {
+    const answerKeySnap = await getDoc(getAnswerKeyRef(roomId, hostId));
+    return answerKeySnap.exists() ? answerKeySnap.data().answers : [];
+  } catch (error) {
+    console.error('Error getting room answer key:', error);
+    throw new Error('Failed to fetch answer key');
+  }
+};
+
+export interface JoinedRoom {
+  room: QuizRoom;
+  clockOffsetMs: number; // how far this device's clock is behind the server's
+}
+
+// Add a player to a room, or welcome them back with their score intact. Returns null for an
+// unknown code. Joining also measures the local clock against the server's, so every player's
+// timer counts down from the moment the host asked the question.
+export const joinRoom = async (roomId: string, player: RoomMember): Promise<JoinedRoom | null> => {
+  try {
+    const roomSnap = await getDocFromServer(getRoomRef(roomId));
+    if (!roomSnap.exists()) {
+      return null;
+    }
+
+    const playerRef = getPlayerRef(roomId, player.userId);
+    const sentAt = Date.now();
+    if ((await getDoc(playerRef)).exists()) {
+      await updateDoc(playerRef, { name: player.displayName, joinedAt: serverTimestamp() });
+    } else {
+      await setDoc(playerRef, { name: player.displayName, score: 0, answers: {}, joinedAt: serverTimestamp() });
+    }
+    const playerSnap = await getDocFromServer(playerRef);
+    const receivedAt = Date.now();
+
+    // The server stamped the write somewhere between sending it and reading it back
+    const serverTime = playerSnap.get('joinedAt').toMillis();
+    return {
+      room: convertDocToRoom(roomSnap),
+      clockOffsetMs: serverTime - (sentAt + receivedAt) / 2
+    };
+  } catch (error) {
+    console.error('Error joining room:', error);
+    throw new Error('Failed to join room');
+  }
+};
+
+export const subscribeToRoom = (
+  roomId: string,
+  onChange: (room: QuizRoom | null) => void,
+  onError: (error: FirestoreError) => void
+): Unsubscribe =>
+  onSnapshot(getRoomRef(roomId), (snapshot) => {
+    onChange(snapshot.exists() ? convertDocToRoom(snapshot) : null);
+  }, (error) => {
+    console.error('Error subscribing to room:', error);
+    onError(error);
+  });
+
+export const subscribeToRoomPlayers = (
+  roomId: string,
+  onChange: (players: RoomPlayer[]) => void,
+  onError: (error: FirestoreError) => void
+): Unsubscribe =>
+  onSnapshot(collection(db, ROOMS_COLLECTION, roomId, PLAYERS_COLLECTION), (snapshot) => {
+    onChange(snapshot.docs.map(convertDocToPlayer));
+  }, (error) => {
+    console.error('Error subscribing to room players:', error);
+    onError(error);
+  });
+
+// The answers sent for a question, which only the host can follow
+export const subscribeToRoomSubmissions = (
+  roomId: string,
+  questionIndex: number,
+  onChange: (submissions: RoomSubmission[]) => void,
+  onError: (error: FirestoreError) => void
+): Unsubscribe =>
+  onSnapshot(
+    query(collection(db, ROOMS_COLLECTION, roomId, SUBMISSIONS_COLLECTION), where('questionIndex', '==', questionIndex)),
+    (snapshot) => {
+      onChange(snapshot.docs.map(convertDocToSubmission));
+    },
+    (error) => {
+      console.error('Error subscribing to room submissions:', error);
+      onError(error);
+    }
+  );
+
+// Ask a question, starting everyone's timer from the server's clock
+export const startRoomQuestion = async (roomId: string, questionIndex: number): Promise<void> => {
+  try {
+    await updateDoc(getRoomRef(roomId), {
+      status: 'question',
+      currentIndex: questionIndex,
+      questionStartedAt: serverTimestamp()
+    });
+  } catch (error) {
+    console.error('Error starting room question:', error);
+    throw new Error('Failed to start question');
+  }
+};
+
+// Close the current question, show everyone its answer and add each scored answer to its player's
+// score, all in one batch so no answer is scored twice
+export const revealRoomQuestion = async (
+  roomId: string,
+  questionIndex: number,
+  answerKey: RoomAnswerKey,
+  scoredAnswers: Array<{ userId: string; answer: RoomAnswer }>
+): Promise<void> => {
+  try {
+    const batch = writeBatch(db);
+    batch.update(getRoomRef(roomId), { status: 'reveal', [`reveals.${questionIndex}`]: answerKey });
+    scoredAnswers.forEach(({ userId, answer }) => {
+      batch.update(getPlayerRef(roomId, userId), {
+        [`answers.${questionIndex}`]: answer,
+        score: increment(answer.points)
+      });
+    });
+    await batch.commit();
+  } catch (error) {
+    console.error('Error revealing room question:', error);
+    throw new Error('Failed to reveal answer');
+  }
+};
+
+export const finishRoom = async (roomId: string): Promise<void> => {
+  try {
+    await updateDoc(getRoomRef(roomId), { status: 'finished' });
+  } catch (error) {
+    console.error('Error finishing room:', error);
+    throw new Error('Failed to finish room');
+  }
+};
+
+// Send a player's answer to the open question for the host to score. The server stamps it and
+// refuses it once time is up or if the player has already answered.
+export const submitRoomAnswer = async (
+  roomId: string,
+  userId: string,
+  questionIndex: number,
+  answer: string
+): Promise<void> => {
+  try {
+    await setDoc(doc(db, ROOMS_COLLECTION, roomId, SUBMISSIONS_COLLECTION, `${questionIndex}_${userId}`), {
+      userId,
+      questionIndex,
+      answer,
+      submittedAt: serverTimestamp()
+    });
+  } catch (error) {
+    console.error('Error submitting room answer:', error);
+    throw new Error('Failed to submit answer');
+  }
+};
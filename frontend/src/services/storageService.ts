@@ -0,0 +1,53 @@
+import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
+import { FirebaseError } from 'firebase/app';
+import type { AttachmentKind, CardAttachment, CardSide } from '../types/flashcard';
+
+// Firebase is loaded once a file is first touched, so local backends run without its config
+const getStorage = async () => (await import('../firebase')).storage;
+
+// Each user's files live under their own folder so rules can restrict access by uid
+const getAttachmentPath = (userId: string, id: string, fileName: string): string =>
+  `users/${userId}/attachments/${id}-${fileName.replace(/[^\w.-]+/g, '_')}`;
+
+// Upload a prepared file and describe it as a card attachment
+export const uploadAttachment = async (
+  userId: string,
+  side: CardSide,
+  kind: AttachmentKind,
+  file: Blob,
+  fileName: string
+): Promise<CardAttachment> => {
+  try {
+    const id = crypto.randomUUID();
+    const path = getAttachmentPath(userId, id, fileName);
+    const contentType = file.type || 'application/octet-stream';
+    const snapshot = await uploadBytes(ref(await getStorage(), path), file, { contentType });
+    return {
+      id,
+      side,
+      kind,
+      path,
+      url: await getDownloadURL(snapshot.ref),
+      name: fileName,
+      contentType,
+      size: file.size
+    };
+  } catch (error) {
+    console.error('Error uploading attachment:', error);
+    throw new Error('Failed to upload attachment');
+  }
+};
+
+// Remove attachment files from Storage. Missing files are ignored and other failures
+// are only logged, so a card can always be deleted even if its files can't be.
+export const deleteAttachments = async (attachments: CardAttachment[]): Promise<void> => {
+  await Promise.all(attachments.map(async (attachment) => {
+    try {
+      await deleteObject(ref(await getStorage(), attachment.path));
+    } catch (error) {
+      if (!(error instanceof FirebaseError && error.code === 'storage/object-not-found')) {
+        console.error('Error deleting attachment:', error);
+      }
+    }
+  }));
+};
@@ -0,0 +1,33 @@
+import type { FlashcardData } from './flashcard';
+import type { Deck } from './deck';
+import type { ReviewLogEntry } from './review';
+import type { QuizRound } from './quiz';
+import type { UserSettings } from './settings';
+
+// Everything stored for one user
+export interface AccountData {
+  flashcards: FlashcardData[];
+  decks: Deck[];
+  reviews: ReviewLogEntry[];
+  quizRounds: QuizRound[];
+  settings: UserSettings;
+}
+
+// A downloadable snapshot of an account; dates are ISO strings in the file
+export interface AccountBackup extends AccountData {
+  format: 'flashcards-backup';
+  version: number;
+  exportedAt: Date;
+  userId: string;
+}
+
+// Merge adds the backup to what's there, replace deletes the account's data first
+export type RestoreMode = 'merge' | 'replace';
+
+// Which copy wins when a merged card or deck already exists
+export type RestoreConflictStrategy = 'keep-existing' | 'use-backup';
+
+export interface BackupConflicts {
+  flashcardIds: string[];
+  deckIds: string[];
+}
@@ -0,0 +1,28 @@
+import type { RevisionSettings } from './flashcard';
+
+// Owners manage a deck and its members, editors add, edit and delete its cards, viewers only study them
+export type DeckRole = 'owner' | 'editor' | 'viewer';
+
+export interface DeckMember {
+  name: string;
+  role: DeckRole;
+}
+
+export interface Deck {
+  id: string;
+  name: string;
+  description?: string;
+  userId?: string;
+  createdAt: Date;
+  revisionSettings?: RevisionSettings; // default schedule for new cards in this deck
+  // Set on decks cloned from a shared deck
+  clonedFrom?: string; // the shared deck's id
+  clonedFromOwner?: string; // display name of the person who shared it
+  clonedAt?: Date;
+  // Set on decks shared with a team. The creator (userId) is always an owner.
+  members?: Record<string, DeckMember>; // by user id
+  invites?: Record<string, DeckRole>; // by lowercased email, until accepted or declined
+}
+
+// What to do with a deck's cards when the deck is deleted
+export type DeckCardAction = 'move' | 'delete';
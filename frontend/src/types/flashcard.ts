@@ -5,15 +5,55 @@ export interface RevisionSettings {
   unit: TimeUnit;
 }
 
+// How card faces are rendered; markdown also enables code highlighting and LaTeX math
+export type CardFormat = 'plain' | 'markdown';
+
+// Cloze cards keep the note text with {{c1::...}} deletions in `front` and optional extra notes in `back`.
+// Reverse cards hold the same content as the basic card they were generated from and are shown back to front.
+export type CardType = 'basic' | 'cloze' | 'reverse';
+
+export type CardSide = 'front' | 'back';
+
+export type AttachmentKind = 'image' | 'audio';
+
+// A file in Firebase Storage shown on one side of a card
+export interface CardAttachment {
+  id: string;
+  side: CardSide;
+  kind: AttachmentKind;
+  path: string; // Storage object path, used to delete the file
+  url: string; // download URL
+  name: string; // original file name
+  contentType: string;
+  size: number; // bytes, after resizing
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
 export interface FlashcardData {
   id: string;
   front: string;
   back: string;
+  acceptedAnswers?: string[]; // alternatives to `back` accepted in quiz modes
+  format?: CardFormat; // plain text when unset
+  cardType?: CardType; // basic when unset
+  clozeIndex?: number; // the deletion a cloze card asks for
+  noteId?: string; // shared by cards generated from the same note, which are edited together
+  attachments?: CardAttachment[];
   createdAt: Date;
   userId?: string;
+  deckId?: string;
+  tags?: string[];
   nextRevision?: Date;
   revisionInterval?: number; // in days (legacy support)
   revisionSettings?: RevisionSettings; // new flexible revision settings
   lastReviewed?: Date;
   reviewCount?: number;
+  easeFactor?: number; // multiplier applied to the interval on a successful recall
+  stability?: number; // current interval in days
+  lapses?: number; // number of times the card was forgotten
 }
+
+// The review state of a card. A card holds its creator's; the other members of a shared deck
+// keep their own for it, so studying someone else's card never moves theirs.
+export type CardSchedule = Pick<FlashcardData, 'nextRevision' | 'lastReviewed' | 'reviewCount' | 'easeFactor' | 'stability' | 'lapses'>;
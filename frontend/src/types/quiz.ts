@@ -0,0 +1,51 @@
+import type { CardSide, FlashcardData } from './flashcard';
+import type { AnswerMatchResult } from '../utils/answerMatching';
+
+export type QuizCardSource = 'all' | 'due' | 'selection' | 'weakest';
+
+export type QuizDirection = 'front-to-back' | 'back-to-front';
+
+// Typed answers are checked leniently; multiple choice picks from four options
+export type QuizAnswerMode = 'typed' | 'multiple-choice';
+
+export interface RapidFireSettings {
+  timePerQuestion: number | null; // in seconds, null for untimed
+  questionCount: number | null; // null for every available card
+  cardSource: QuizCardSource;
+  direction: QuizDirection;
+  answerMode: QuizAnswerMode;
+  affectScheduling: boolean; // let answers move cards' next revision
+}
+
+export interface QuizQuestion {
+  flashcard: FlashcardData;
+  prompt: string;
+  promptSide: CardSide; // which side of the card is asked, for its attachments
+  answer: string; // the face shown as the correct answer
+  answers: string[]; // accepted answers for the prompt
+  options?: string[]; // multiple-choice options in display order, including `answer`
+}
+
+// What a question shows: the question without the rest of its card
+export type QuizPrompt = Omit<QuizQuestion, 'flashcard'> & {
+  flashcard: Pick<FlashcardData, 'id' | 'format' | 'cardType' | 'attachments'>;
+};
+
+export interface QuizOutcome {
+  flashcardId: string;
+  result: AnswerMatchResult;
+  responseTimeMs: number;
+  timedOut?: boolean;
+}
+
+export interface QuizRound {
+  id: string;
+  userId: string;
+  completedAt: Date;
+  settings: RapidFireSettings;
+  score: number; // partially correct answers count half
+  total: number;
+  accuracy: number; // percentage
+  timeSpent: number; // in seconds
+  outcomes: QuizOutcome[];
+}
@@ -0,0 +1,19 @@
+import type { ReviewGrade } from './flashcard';
+
+// Where a review attempt came from
+export type ReviewSource = 'manual' | 'study-session' | 'rapid-fire';
+
+// Graded reviews record the grade, quiz modes record whether the answer was right
+export type ReviewOutcome = ReviewGrade | 'correct' | 'partial' | 'incorrect';
+
+export interface ReviewLogEntry {
+  id: string;
+  flashcardId: string;
+  userId: string;
+  reviewedAt: Date;
+  source: ReviewSource;
+  outcome: ReviewOutcome;
+  responseTimeMs?: number;
+  scheduledInterval?: number; // in days, when the attempt rescheduled the card
+  nextRevision?: Date;
+}
@@ -0,0 +1,60 @@
+import type { CardAttachment } from './flashcard';
+import type { QuizAnswerMode, QuizDirection, QuizPrompt } from './quiz';
+import type { AnswerMatchResult } from '../utils/answerMatching';
+
+// A room waits in the lobby, then alternates between asking a question and revealing its answer
+export type RoomStatus = 'lobby' | 'question' | 'reveal' | 'finished';
+
+export interface RoomSettings {
+  timePerQuestion: number; // in seconds; rooms are always timed so everyone moves on together
+  answerMode: QuizAnswerMode;
+  direction: QuizDirection;
+}
+
+// A question as players see it. Its answers, and the files on the answer side of its card,
+// stay with the host until the question is revealed.
+export type RoomQuestion = Omit<QuizPrompt, 'answer' | 'answers'>;
+
+// The answers to a question, kept by the host and published at its reveal
+export type RoomAnswerKey = Pick<QuizPrompt, 'answer' | 'answers'> & {
+  attachments?: CardAttachment[]; // the answer side's files
+};
+
+// A multiplayer Rapid Fire room. The id is the join code players type in.
+export interface QuizRoom {
+  id: string;
+  hostId: string;
+  hostName: string;
+  title: string; // the deck the questions came from
+  settings: RoomSettings;
+  questions: RoomQuestion[];
+  reveals: Record<number, RoomAnswerKey>; // by question index, once revealed
+  status: RoomStatus;
+  currentIndex: number;
+  questionStartedAt?: Date; // server time the current question was asked
+  createdAt: Date;
+}
+
+// A player's answer as sent, stamped by the server; only the host and the player can read it
+export interface RoomSubmission {
+  userId: string;
+  questionIndex: number;
+  answer: string; // the typed text or the chosen option
+  submittedAt: Date;
+}
+
+// A submission once the host has scored it
+export interface RoomAnswer {
+  result: AnswerMatchResult;
+  responseTimeMs: number;
+  points: number;
+}
+
+// Everyone in a room, the host included, keyed by user id
+export interface RoomPlayer {
+  id: string;
+  name: string;
+  score: number;
+  answers: Record<number, RoomAnswer>; // by question index, scored by the host at each reveal
+  joinedAt: Date;
+}
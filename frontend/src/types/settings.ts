@@ -0,0 +1,6 @@
+import type { RapidFireSettings } from './quiz';
+
+// Per-user preferences stored in the `settings` collection, keyed by user id
+export interface UserSettings {
+  rapidFire?: RapidFireSettings;
+}
@@ -0,0 +1,23 @@
+import type { FlashcardData, RevisionSettings } from './flashcard';
+
+// Card content copied into a shared deck. Scheduling stays with the owner, and attachment
+// files are left out because they can only be read from the owner's storage.
+export type SharedCard = Pick<FlashcardData, 'id' | 'front' | 'back' | 'format' | 'acceptedAnswers' | 'tags' | 'cardType' | 'clozeIndex' | 'noteId'>;
+
+// A snapshot of a deck that anyone with its link can preview and clone. The id is the link's token.
+export interface SharedDeck {
+  id: string;
+  ownerId: string;
+  ownerName: string;
+  sourceDeckId: string;
+  name: string;
+  description?: string;
+  revisionSettings?: RevisionSettings; // starting schedule for cloned cards
+  cardCount: number;
+  createdAt: Date;
+}
+
+export interface SharedDeckContent {
+  deck: SharedDeck;
+  cards: SharedCard[];
+}
@@ -0,0 +1,7 @@
+export type SyncState = 'synced' | 'pending' | 'error';
+
+// Whether local changes have reached the server
+export interface SyncStatus {
+  state: SyncState; // pending while writes applied locally wait for the server
+  error?: string;
+}
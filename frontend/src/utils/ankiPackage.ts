@@ -0,0 +1,371 @@
+import { strToU8, unzipSync, zipSync } from 'fflate';
+import type { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import type { FlashcardData } from '../types/flashcard';
+import type { Deck } from '../types/deck';
+import type { ImportRow, ImportedSchedule } from './csvImport';
+import { getCardFaces } from './cardFaces';
+import { getSchedulingState } from './scheduler';
+import { convertToMilliseconds } from './timeUtils';
+
+// An .apkg is a zip holding an Anki collection (SQLite, schema 11) and a media index.
+// Only basic front/back notes are read and written; media and review logs are not carried over.
+
+const DAY_MS = convertToMilliseconds(1, 'days');
+const DAY_SECONDS = DAY_MS / 1000;
+const FIELD_SEPARATOR = '\x1f';
+
+// Anki's built-in deck, used for cards that are not in any deck here
+const ANKI_DEFAULT_DECK_ID = 1;
+
+// Card types in the cards table
+const ANKI_CARD_NEW = 0;
+const ANKI_CARD_REVIEW = 2;
+const ANKI_CARD_RELEARNING = 3;
+const ANKI_MODEL_CLOZE = 1;
+
+interface AnkiModel {
+  type: number;
+}
+
+interface AnkiDeck {
+  name: string;
+}
+
+interface AnkiCard {
+  did: number;
+  odid: number;
+  type: number;
+  due: number;
+  odue: number;
+  ivl: number;
+  factor: number;
+  reps: number;
+  lapses: number;
+}
+
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+// sql.js and its wasm binary are only downloaded the first time a package is read or written
+const loadSqlJs = (): Promise<SqlJsStatic> => {
+  if (!sqlJsPromise) {
+    sqlJsPromise = Promise.all([import('sql.js'), import('sql.js/dist/sql-wasm-browser.wasm?url')])
+      .then(([{ default: initSqlJs }, { default: wasmUrl }]) => initSqlJs({ locateFile: () => wasmUrl }));
+  }
+  return sqlJsPromise;
+};
+
+const queryRows = (db: Database, sql: string): SqlValue[][] => {
+  const [result] = db.exec(sql);
+  return result ? result.values : [];
+};
+
+// Anki fields are HTML; cards here are plain text
+const htmlToText = (html: string): string => {
+  const withBreaks = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li)>/gi, '\n')
+    .replace(/\[sound:[^\]]*\]/g, '');
+  const parsed = new DOMParser().parseFromString(withBreaks, 'text/html');
+  return (parsed.body.textContent || '').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+const textToHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n/g, '<br>');
+
+// Map an Anki card's scheduling onto ours; new cards get none and start on their deck's interval
+const toImportedSchedule = (card: AnkiCard, collectionCreated: number): ImportedSchedule | undefined => {
+  if (card.type === ANKI_CARD_NEW) return undefined;
+
+  // Cards pulled into a filtered deck keep their real due date in odue
+  const due = card.odid ? card.odue : card.due;
+  const schedule: ImportedSchedule = {
+    ...(card.factor > 0 ? { easeFactor: card.factor / 1000 } : {}),
+    lapses: card.lapses,
+    reviewCount: card.reps
+  };
+
+  if (card.type === ANKI_CARD_REVIEW) {
+    const nextRevision = new Date((collectionCreated + due * DAY_SECONDS) * 1000);
+    return {
+      ...schedule,
+      nextRevision,
+      // Anki doesn't store the last review on the card, so infer it from the interval
+      lastReviewed: new Date(nextRevision.getTime() - card.ivl * DAY_MS),
+      stability: card.ivl
+    };
+  }
+
+  // Learning cards are due at a timestamp, or on a day number once the step exceeds a day
+  const nextRevision = due > 1_000_000_000
+    ? new Date(due * 1000)
+    : new Date((collectionCreated + due * DAY_SECONDS) * 1000);
+  return {
+    ...schedule,
+    nextRevision,
+    stability: card.type === ANKI_CARD_RELEARNING ? card.ivl : 0
+  };
+};
+
+// Read an .apkg file into import rows, one per note
+export const readAnkiPackage = async (data: ArrayBuffer): Promise<ImportRow[]> => {
+  const files = unzipSync(new Uint8Array(data));
+  if (files['collection.anki21b'] && !files['collection.anki21']) {
+    throw new Error('This package uses the newest Anki format. Export it again with "Support older Anki versions" checked.');
+  }
+  const collection = files['collection.anki21'] || files['collection.anki2'];
+  if (!collection) {
+    throw new Error('This file is not an Anki package.');
+  }
+
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(collection);
+
+  try {
+    const [[crt, modelsJson, decksJson]] = queryRows(db, 'SELECT crt, models, decks FROM col');
+    const collectionCreated = Number(crt);
+    const models: Record<string, AnkiModel> = JSON.parse(String(modelsJson));
+    const decks: Record<string, AnkiDeck> = JSON.parse(String(decksJson));
+
+    // Each note's first card decides its deck and scheduling
+    const cardsByNote = new Map<number, AnkiCard>();
+    queryRows(db, 'SELECT nid, did, odid, type, due, odue, ivl, factor, reps, lapses FROM cards ORDER BY nid, ord')
+      .forEach(([nid, did, odid, type, due, odue, ivl, factor, reps, lapses]) => {
+        if (cardsByNote.has(Number(nid))) return;
+        cardsByNote.set(Number(nid), {
+          did: Number(did),
+          odid: Number(odid),
+          type: Number(type),
+          due: Number(due),
+          odue: Number(odue),
+          ivl: Number(ivl),
+          factor: Number(factor),
+          reps: Number(reps),
+          lapses: Number(lapses)
+        });
+      });
+
+    return queryRows(db, 'SELECT id, mid, tags, flds FROM notes ORDER BY id').map(([id, mid, tags, flds], index) => {
+      const [frontField = '', backField = ''] = String(flds).split(FIELD_SEPARATOR);
+      const card = cardsByNote.get(Number(id));
+      const deckId = card ? card.odid || card.did : ANKI_DEFAULT_DECK_ID;
+      const deckName = deckId !== ANKI_DEFAULT_DECK_ID ? decks[String(deckId)]?.name : undefined;
+      const schedule = card && toImportedSchedule(card, collectionCreated);
+      const front = htmlToText(frontField);
+      const back = htmlToText(backField);
+      const errors: string[] = [];
+
+      if (models[String(mid)]?.type === ANKI_MODEL_CLOZE) {
+        errors.push('Cloze notes are not supported');
+      } else {
+        if (!front) errors.push('Missing front');
+        if (!back) errors.push('Missing back');
+      }
+
+      return {
+        rowNumber: index + 1,
+        front,
+        back,
+        tags: String(tags).split(/\s+/).filter(Boolean),
+        ...(deckName ? { deckName } : {}),
+        ...(schedule ? { schedule } : {}),
+        errors
+      };
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const ANKI_SCHEMA = `
+  CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+  CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+  CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+  CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+  CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+  CREATE INDEX ix_notes_usn on notes (usn);
+  CREATE INDEX ix_cards_usn on cards (usn);
+  CREATE INDEX ix_revlog_usn on revlog (usn);
+  CREATE INDEX ix_cards_nid on cards (nid);
+  CREATE INDEX ix_cards_sched on cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid on revlog (cid);
+  CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const GUID_CHARS = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+const createGuid = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(10)), byte => GUID_CHARS[byte % GUID_CHARS.length]).join('');
+
+// Anki detects duplicates with the first 8 hex digits of the sort field's SHA-1
+const getFieldChecksum = async (text: string): Promise<number> => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return new DataView(digest).getUint32(0);
+};
+
+const createAnkiDeck = (id: number, name: string, modified: number) => ({
+  id,
+  name,
+  mod: modified,
+  usn: -1,
+  lrnToday: [0, 0],
+  revToday: [0, 0],
+  newToday: [0, 0],
+  timeToday: [0, 0],
+  collapsed: false,
+  browserCollapsed: false,
+  desc: '',
+  dyn: 0,
+  conf: 1,
+  extendNew: 0,
+  extendRev: 0
+});
+
+const createAnkiField = (name: string, ord: number) => ({
+  name,
+  ord,
+  sticky: false,
+  rtl: false,
+  font: 'Arial',
+  size: 20,
+  media: []
+});
+
+const createAnkiModel = (id: number, modified: number) => ({
+  id,
+  name: 'Basic (Flashcards)',
+  type: 0,
+  mod: modified,
+  usn: -1,
+  sortf: 0,
+  did: ANKI_DEFAULT_DECK_ID,
+  tmpls: [{
+    name: 'Card 1',
+    ord: 0,
+    qfmt: '{{Front}}',
+    afmt: '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}',
+    bqfmt: '',
+    bafmt: '',
+    did: null
+  }],
+  flds: [createAnkiField('Front', 0), createAnkiField('Back', 1)],
+  css: '.card {\n font-family: arial;\n font-size: 20px;\n text-align: center;\n color: black;\n background-color: white;\n}\n',
+  latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+  latexPost: '\\end{document}',
+  req: [[0, 'any', [0]]],
+  tags: [],
+  vers: []
+});
+
+const DEFAULT_DECK_CONFIG = {
+  1: {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: { delays: [1, 10], ints: [1, 4, 0], initialFactor: 2500, order: 1, perDay: 20, bury: false },
+    rev: { perDay: 200, ease4: 1.3, ivlFct: 1, maxIvl: 36500, bury: false, hardFactor: 1.2 },
+    lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 1 }
+  }
+};
+
+// Write cards into an .apkg; cards that were never reviewed are exported as new
+export const createAnkiPackage = async (flashcards: FlashcardData[], decks: Deck[], now: Date = new Date()): Promise<Blob> => {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+
+  try {
+    db.run(ANKI_SCHEMA);
+
+    const nowMs = now.getTime();
+    const nowSeconds = Math.floor(nowMs / 1000);
+    const startOfToday = new Date(now);
+    startOfToday.setHours(0, 0, 0, 0);
+    const collectionCreated = Math.floor(startOfToday.getTime() / 1000);
+    const modelId = nowMs;
+
+    const ankiDecks: Record<string, ReturnType<typeof createAnkiDeck>> = {
+      [ANKI_DEFAULT_DECK_ID]: createAnkiDeck(ANKI_DEFAULT_DECK_ID, 'Default', nowSeconds)
+    };
+    const ankiDeckIds = new Map<string, number>();
+    decks
+      .filter(deck => flashcards.some(card => card.deckId === deck.id))
+      .forEach((deck, index) => {
+        const ankiDeckId = nowMs + index + 1;
+        ankiDeckIds.set(deck.id, ankiDeckId);
+        ankiDecks[ankiDeckId] = createAnkiDeck(ankiDeckId, deck.name, nowSeconds);
+      });
+
+    for (const [index, card] of flashcards.entries()) {
+      const id = nowMs + index;
+      // Each cloze card is exported as a basic note with its blank and filled text
+      const faces = getCardFaces(card);
+      const front = textToHtml(faces.front);
+      // Anki tags are space separated
+      const tags = (card.tags || []).map(tag => tag.replace(/\s+/g, '_'));
+      db.run('INSERT INTO notes VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)', [
+        id, createGuid(), modelId, nowSeconds, -1,
+        tags.length > 0 ? ` ${tags.join(' ')} ` : '',
+        [front, textToHtml(faces.back)].join(FIELD_SEPARATOR),
+        faces.front, await getFieldChecksum(faces.front), 0, ''
+      ]);
+
+      const state = getSchedulingState(card);
+      const nextRevision = card.lastReviewed ? card.nextRevision : undefined;
+      const isReviewed = nextRevision !== undefined;
+      const due = nextRevision
+        ? Math.max(0, Math.floor((nextRevision.getTime() / 1000 - collectionCreated) / DAY_SECONDS))
+        : index;
+      db.run('INSERT INTO cards VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)', [
+        id, id, (card.deckId && ankiDeckIds.get(card.deckId)) || ANKI_DEFAULT_DECK_ID, 0, nowSeconds, -1,
+        isReviewed ? ANKI_CARD_REVIEW : ANKI_CARD_NEW,
+        isReviewed ? ANKI_CARD_REVIEW : ANKI_CARD_NEW,
+        due,
+        isReviewed ? Math.max(1, Math.round(state.stability)) : 0,
+        isReviewed ? Math.round(state.easeFactor * 1000) : 0,
+        state.reviewCount, state.lapses, 0, 0, 0, 0, ''
+      ]);
+    }
+
+    const conf = {
+      nextPos: flashcards.length,
+      estTimes: true,
+      activeDecks: [ANKI_DEFAULT_DECK_ID],
+      sortType: 'noteFld',
+      timeLim: 0,
+      sortBackwards: false,
+      addToCur: true,
+      curDeck: ANKI_DEFAULT_DECK_ID,
+      newSpread: 0,
+      dueCounts: true,
+      curModel: String(modelId),
+      collapseTime: 1200
+    };
+    db.run('INSERT INTO col VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)', [
+      1, collectionCreated, nowMs, nowMs, 11, 0, 0, 0,
+      JSON.stringify(conf),
+      JSON.stringify({ [modelId]: createAnkiModel(modelId, nowSeconds) }),
+      JSON.stringify(ankiDecks),
+      JSON.stringify(DEFAULT_DECK_CONFIG),
+      '{}'
+    ]);
+
+    const packageData = zipSync({
+      'collection.anki2': db.export(),
+      media: strToU8('{}')
+    });
+    return new Blob([packageData], { type: 'application/octet-stream' });
+  } finally {
+    db.close();
+  }
+};
+
+export const isAnkiPackage = (fileName: string): boolean => /\.apkg$/i.test(fileName);
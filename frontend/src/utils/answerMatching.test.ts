@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { getTypoTolerance, matchAnswer, normalizeAnswer } from './answerMatching';
+
+describe('normalizeAnswer', () => {
+  it('strips diacritics, case and punctuation', () => {
+    expect(normalizeAnswer('  Crème   Brûlée! ')).toBe('creme brulee');
+    expect(normalizeAnswer('São-Paulo')).toBe('sao paulo');
+  });
+
+  it('drops articles', () => {
+    expect(normalizeAnswer('The Eiffel Tower')).toBe('eiffel tower');
+    expect(normalizeAnswer('an apple')).toBe('apple');
+  });
+
+  it('keeps an answer that is only an article', () => {
+    expect(normalizeAnswer('A')).toBe('a');
+    expect(normalizeAnswer('the')).toBe('the');
+  });
+});
+
+describe('getTypoTolerance', () => {
+  it.each([
+    [1, 0],
+    [3, 0],
+    [4, 1],
+    [6, 1],
+    [7, 2],
+    [12, 2],
+    [13, 2],
+    [20, 3]
+  ])('allows %i characters %i typos', (length, typos) => {
+    expect(getTypoTolerance(length)).toBe(typos);
+  });
+});
+
+describe('matchAnswer', () => {
+  it('accepts small typos in longer answers only', () => {
+    expect(matchAnswer('Pariss', ['Paris']).result).toBe('correct');
+    expect(matchAnswer('cat', ['car']).result).toBe('incorrect');
+  });
+
+  it('gives partial credit for some parts of a multi-part answer', () => {
+    expect(matchAnswer('paris', ['Paris, France']).result).toBe('partial');
+    expect(matchAnswer('France and Paris', ['Paris, France']).result).toBe('correct');
+  });
+
+  it('gives no credit for a list of guesses at a single-part answer', () => {
+    expect(matchAnswer('london, paris, berlin', ['Paris']).result).toBe('incorrect');
+    expect(matchAnswer('london, paris', ['Paris, France']).result).toBe('partial');
+  });
+
+  it('does not accept a single letter found inside the answer', () => {
+    expect(matchAnswer('a', ['Paris']).result).toBe('incorrect');
+    expect(matchAnswer('a', ['A long time ago']).result).toBe('incorrect');
+  });
+
+  it('keeps the best result across accepted answers', () => {
+    expect(matchAnswer('gato', ['dog', 'gato'])).toEqual({ result: 'correct', matchedAnswer: 'gato' });
+    expect(matchAnswer('rome', ['Paris, France', 'Rome, Italy', 'Rome'])).toEqual({ result: 'correct', matchedAnswer: 'Rome' });
+    expect(matchAnswer('italy', ['Paris', 'Rome, Italy'])).toEqual({ result: 'partial', matchedAnswer: 'Rome, Italy' });
+  });
+});
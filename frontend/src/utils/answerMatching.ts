@@ -0,0 +1,152 @@
+import type { FlashcardData } from '../types/flashcard';
+import { getAnswerText } from './cardRendering';
+import { getClozeAnswer, isClozeCard } from './cloze';
+import { isReverseCard } from './cardFaces';
+
+export type AnswerMatchResult = 'correct' | 'partial' | 'incorrect';
+
+export interface AnswerMatch {
+  result: AnswerMatchResult;
+  matchedAnswer?: string; // the accepted answer the response was closest to
+}
+
+// Articles ignored when comparing answers
+const ARTICLES = ['the', 'a', 'an'];
+
+// Separators between the parts of a multi-part answer, e.g. "Paris, France"
+const PART_SEPARATOR = /[,;/]| and | & /;
+
+// Lowercase, strip diacritics and punctuation, collapse whitespace and drop articles
+export const normalizeAnswer = (text: string): string => {
+  const words = text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  // An answer that is only an article ("a") keeps it
+  const withoutArticles = words.filter(word => !ARTICLES.includes(word));
+  return (withoutArticles.length > 0 ? withoutArticles : words).join(' ');
+};
+
+export const levenshteinDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(current[j - 1] + 1, previous[j] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Number of typos tolerated for an answer of the given length
+export const getTypoTolerance = (length: number): number => {
+  if (length <= 3) return 0;
+  if (length <= 6) return 1;
+  if (length <= 12) return 2;
+  // Never fewer than shorter answers are allowed
+  return Math.max(2, Math.floor(length * 0.15));
+};
+
+const isCloseMatch = (response: string, answer: string): boolean => {
+  if (!response || !answer) return false;
+  return levenshteinDistance(response, answer) <= getTypoTolerance(answer.length);
+};
+
+const splitParts = (text: string): string[] =>
+  text.split(PART_SEPARATOR).map(normalizeAnswer).filter(Boolean);
+
+// Words that carry meaning, ignoring single letters
+const significantWords = (normalized: string): string[] =>
+  normalized.split(' ').filter(word => word.length > 1);
+
+const matchAgainst = (response: string, answer: string): AnswerMatchResult => {
+  const normalizedResponse = normalizeAnswer(response);
+  const normalizedAnswer = normalizeAnswer(answer);
+  if (!normalizedResponse) return 'incorrect';
+
+  if (isCloseMatch(normalizedResponse, normalizedAnswer)) {
+    return 'correct';
+  }
+
+  // Multi-part answers: every part given (in any order) is correct, some parts is partial.
+  // A list of guesses against a single-part answer earns nothing, or any list would score.
+  const answerParts = splitParts(answer);
+  if (answerParts.length > 1) {
+    const responseParts = splitParts(response);
+    const matchedParts = answerParts.filter(part =>
+      responseParts.some(responsePart => isCloseMatch(responsePart, part))
+    );
+    if (matchedParts.length === answerParts.length) {
+      return 'correct';
+    }
+    if (matchedParts.length > 0) {
+      return 'partial';
+    }
+  }
+
+  // Long answers: getting at least half of the meaningful words right is partial credit
+  const answerWords = significantWords(normalizedAnswer);
+  if (answerWords.length >= 3) {
+    const responseWords = significantWords(normalizedResponse);
+    const matchedWords = answerWords.filter(word =>
+      responseWords.some(responseWord => isCloseMatch(responseWord, word))
+    );
+    if (matchedWords.length * 2 >= answerWords.length) {
+      return 'partial';
+    }
+  }
+
+  return 'incorrect';
+};
+
+const RESULT_RANK: Record<AnswerMatchResult, number> = { incorrect: 0, partial: 1, correct: 2 };
+
+// Compare a response with every accepted answer and keep the best result
+export const matchAnswer = (response: string, acceptedAnswers: string[]): AnswerMatch => {
+  let best: AnswerMatch = { result: 'incorrect' };
+  for (const answer of acceptedAnswers) {
+    const result = matchAgainst(response, answer);
+    if (RESULT_RANK[result] > RESULT_RANK[best.result]) {
+      best = { result, matchedAnswer: answer };
+    }
+    if (result === 'correct') break;
+  }
+  return best;
+};
+
+// The stored back and its alternatives
+export const getBackAnswers = (flashcard: FlashcardData): string[] => {
+  return [getAnswerText(flashcard.back, flashcard.format), ...(flashcard.acceptedAnswers || [])]
+    .filter(answer => answer.trim() !== '');
+};
+
+// Answers accepted for the side a card shows as its answer
+export const getAcceptedAnswers = (flashcard: FlashcardData): string[] => {
+  if (isClozeCard(flashcard) && flashcard.clozeIndex) {
+    return [getClozeAnswer(flashcard.front, flashcard.clozeIndex, flashcard.format)];
+  }
+  // A reverse card asks for the stored front; the alternatives belong to the back it shows
+  if (isReverseCard(flashcard)) {
+    return [getAnswerText(flashcard.front, flashcard.format)];
+  }
+  return getBackAnswers(flashcard);
+};
+
+export const checkFlashcardAnswer = (response: string, flashcard: FlashcardData): AnswerMatch => {
+  return matchAnswer(response, getAcceptedAnswers(flashcard));
+};
+
+// Parse the "also accept" field, one alternative per line or separated by "|"
+export const parseAcceptedAnswers = (input: string): string[] => {
+  return input.split(/\n|\|/).map(answer => answer.trim()).filter(Boolean);
+};
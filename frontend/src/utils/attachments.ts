@@ -0,0 +1,100 @@
+import type { AttachmentKind, CardAttachment, CardSide, FlashcardData } from '../types/flashcard';
+import { getContentSide } from './cardFaces';
+
+// Largest file accepted after resizing
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+// Images are scaled down so their longest edge fits within this many pixels
+export const MAX_IMAGE_DIMENSION = 1600;
+const RESIZED_IMAGE_TYPE = 'image/jpeg';
+const RESIZED_IMAGE_QUALITY = 0.85;
+
+// Animated and vector images would lose their animation or sharpness on a canvas
+const UNRESIZABLE_IMAGE_TYPES = ['image/gif', 'image/svg+xml'];
+
+export const ATTACHMENT_ACCEPT = 'image/*,audio/*';
+
+export const getAttachmentKind = (contentType: string): AttachmentKind | null => {
+  if (contentType.startsWith('image/')) return 'image';
+  if (contentType.startsWith('audio/')) return 'audio';
+  return null;
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// The attachments shown on one side of a card
+export const getSideAttachments = (flashcard: Pick<FlashcardData, 'attachments' | 'cardType'>, side: CardSide): CardAttachment[] => {
+  const contentSide = getContentSide(flashcard, side);
+  return (flashcard.attachments || []).filter(attachment => attachment.side === contentSide);
+};
+
+// Attachments in `before` that are no longer referenced in `after`
+export const getRemovedAttachments = (before: CardAttachment[] = [], after: CardAttachment[] = []): CardAttachment[] => {
+  const kept = new Set(after.map(attachment => attachment.path));
+  return before.filter(attachment => !kept.has(attachment.path));
+};
+
+const loadImage = (file: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The image could not be read'));
+    };
+    image.src = url;
+  });
+
+// Scale an image down to MAX_IMAGE_DIMENSION and re-encode it; small images are returned untouched
+export const resizeImage = async (file: File): Promise<Blob> => {
+  if (UNRESIZABLE_IMAGE_TYPES.includes(file.type)) return file;
+
+  const image = await loadImage(file);
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight));
+  if (scale === 1 && file.size <= MAX_ATTACHMENT_BYTES) return file;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Images cannot be resized in this browser');
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('The image could not be resized'))),
+      RESIZED_IMAGE_TYPE,
+      RESIZED_IMAGE_QUALITY
+    );
+  });
+};
+
+// Check the file type, resize images, then enforce the size limit.
+// Returns the blob to upload or a message explaining why the file was rejected.
+export const prepareAttachmentFile = async (file: File): Promise<{ blob?: Blob; kind?: AttachmentKind; error?: string }> => {
+  const kind = getAttachmentKind(file.type);
+  if (!kind) {
+    return { error: `${file.name} is not an image or audio file` };
+  }
+
+  let blob: Blob = file;
+  if (kind === 'image') {
+    try {
+      blob = await resizeImage(file);
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'The image could not be read' };
+    }
+  }
+
+  if (blob.size > MAX_ATTACHMENT_BYTES) {
+    return { error: `${file.name} is ${formatFileSize(blob.size)}; the limit is ${formatFileSize(MAX_ATTACHMENT_BYTES)}` };
+  }
+  return { blob, kind };
+};
@@ -0,0 +1,248 @@
+import type { FlashcardData } from '../types/flashcard';
+import type { Deck } from '../types/deck';
+import type { AccountBackup, AccountData, BackupConflicts } from '../types/backup';
+
+export const BACKUP_FORMAT = 'flashcards-backup';
+// Bump when the file layout changes; older files must keep restoring
+export const BACKUP_VERSION = 1;
+
+// Stop listing problems once it's clear the file is wrong
+const MAX_VALIDATION_ERRORS = 20;
+
+const TIME_UNITS = ['seconds', 'minutes', 'hours', 'days', 'weeks', 'months'];
+const REVIEW_SOURCES = ['manual', 'study-session', 'rapid-fire'];
+const CARD_FORMATS = ['plain', 'markdown'];
+const CARD_TYPES = ['basic', 'cloze', 'reverse'];
+const REVIEW_OUTCOMES = ['again', 'hard', 'good', 'easy', 'correct', 'partial', 'incorrect'];
+
+type FieldCheck = (value: unknown) => boolean;
+
+interface FieldSpec {
+  check: FieldCheck;
+  expected: string;
+  optional?: boolean;
+  isDate?: boolean;
+}
+
+type RecordSchema = Record<string, FieldSpec>;
+
+const isString: FieldCheck = value => typeof value === 'string';
+const isNumber: FieldCheck = value => typeof value === 'number' && Number.isFinite(value);
+const isStringArray: FieldCheck = value => Array.isArray(value) && value.every(isString);
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isDateString: FieldCheck = value => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+const isOneOf = (values: string[]): FieldCheck => value => typeof value === 'string' && values.includes(value);
+const isRevisionSettings: FieldCheck = value =>
+  isObject(value) && isNumber(value.interval) && isOneOf(TIME_UNITS)(value.unit);
+
+const isAttachmentList: FieldCheck = value =>
+  Array.isArray(value) && value.every(item => isObject(item) && isString(item.path) && isString(item.url));
+
+const field = (check: FieldCheck, expected: string): FieldSpec => ({ check, expected });
+const optional = (check: FieldCheck, expected: string): FieldSpec => ({ check, expected, optional: true });
+const dateField: FieldSpec = { check: isDateString, expected: 'a date', isDate: true };
+const optionalDateField: FieldSpec = { ...dateField, optional: true };
+
+const FLASHCARD_SCHEMA: RecordSchema = {
+  id: field(isString, 'a string'),
+  front: field(isString, 'a string'),
+  back: field(isString, 'a string'),
+  format: optional(isOneOf(CARD_FORMATS), `one of ${CARD_FORMATS.join(', ')}`),
+  attachments: optional(isAttachmentList, 'a list of attachments'),
+  cardType: optional(isOneOf(CARD_TYPES), `one of ${CARD_TYPES.join(', ')}`),
+  clozeIndex: optional(isNumber, 'a number'),
+  noteId: optional(isString, 'a string'),
+  createdAt: dateField,
+  acceptedAnswers: optional(isStringArray, 'a list of strings'),
+  deckId: optional(isString, 'a string'),
+  tags: optional(isStringArray, 'a list of strings'),
+  nextRevision: optionalDateField,
+  revisionInterval: optional(isNumber, 'a number'),
+  revisionSettings: optional(isRevisionSettings, 'an interval and time unit'),
+  lastReviewed: optionalDateField,
+  reviewCount: optional(isNumber, 'a number'),
+  easeFactor: optional(isNumber, 'a number'),
+  stability: optional(isNumber, 'a number'),
+  lapses: optional(isNumber, 'a number')
+};
+
+const DECK_SCHEMA: RecordSchema = {
+  id: field(isString, 'a string'),
+  name: field(isString, 'a string'),
+  createdAt: dateField,
+  description: optional(isString, 'a string'),
+  revisionSettings: optional(isRevisionSettings, 'an interval and time unit'),
+  clonedFrom: optional(isString, 'a string'),
+  clonedFromOwner: optional(isString, 'a string'),
+  clonedAt: optionalDateField
+};
+
+const REVIEW_SCHEMA: RecordSchema = {
+  id: field(isString, 'a string'),
+  flashcardId: field(isString, 'a string'),
+  reviewedAt: dateField,
+  source: field(isOneOf(REVIEW_SOURCES), `one of ${REVIEW_SOURCES.join(', ')}`),
+  outcome: field(isOneOf(REVIEW_OUTCOMES), `one of ${REVIEW_OUTCOMES.join(', ')}`),
+  responseTimeMs: optional(isNumber, 'a number'),
+  scheduledInterval: optional(isNumber, 'a number'),
+  nextRevision: optionalDateField
+};
+
+const QUIZ_ROUND_SCHEMA: RecordSchema = {
+  id: field(isString, 'a string'),
+  completedAt: dateField,
+  settings: field(isObject, 'an object'),
+  score: field(isNumber, 'a number'),
+  total: field(isNumber, 'a number'),
+  accuracy: field(isNumber, 'a number'),
+  timeSpent: field(isNumber, 'a number'),
+  outcomes: field(value => Array.isArray(value) && value.every(isObject), 'a list of answers')
+};
+
+const validateRecords = (value: unknown, path: string, schema: RecordSchema, errors: string[]) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be a list`);
+    return;
+  }
+
+  value.forEach((item, index) => {
+    if (!isObject(item)) {
+      errors.push(`${path}[${index}] must be an object`);
+      return;
+    }
+    Object.entries(schema).forEach(([key, spec]) => {
+      const fieldValue = item[key];
+      if (fieldValue === undefined || fieldValue === null) {
+        if (!spec.optional) errors.push(`${path}[${index}].${key} is missing`);
+      } else if (!spec.check(fieldValue)) {
+        errors.push(`${path}[${index}].${key} must be ${spec.expected}`);
+      }
+    });
+  });
+};
+
+// Turn the schema's date strings back into Dates and drop null optionals
+const reviveRecords = <T>(items: Record<string, unknown>[], schema: RecordSchema): T[] =>
+  items.map(item => {
+    const revived: Record<string, unknown> = { ...item };
+    Object.entries(schema).forEach(([key, spec]) => {
+      if (revived[key] === null) {
+        delete revived[key];
+      } else if (spec.isDate && revived[key] !== undefined) {
+        revived[key] = new Date(revived[key] as string);
+      }
+    });
+    return revived as T;
+  });
+
+export const createBackup = (userId: string, data: AccountData, now: Date = new Date()): AccountBackup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: now,
+  userId,
+  ...data
+});
+
+export const serializeBackup = (backup: AccountBackup): string => JSON.stringify(backup, null, 2);
+
+// Parse and validate a backup file, listing every problem found (up to a limit)
+export const parseBackup = (text: string): { backup?: AccountBackup; errors: string[] } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { errors: ['The file is not valid JSON'] };
+  }
+
+  if (!isObject(raw) || raw.format !== BACKUP_FORMAT) {
+    return { errors: ['The file is not a flashcards backup'] };
+  }
+  if (!isNumber(raw.version) || (raw.version as number) < 1) {
+    return { errors: ['The backup has no valid version number'] };
+  }
+  if ((raw.version as number) > BACKUP_VERSION) {
+    return { errors: [`The backup was made by a newer version of the app (format ${raw.version}); please update first`] };
+  }
+
+  const errors: string[] = [];
+  if (!isDateString(raw.exportedAt)) errors.push('exportedAt must be a date');
+  if (!isString(raw.userId)) errors.push('userId must be a string');
+  if (!isObject(raw.settings)) errors.push('settings must be an object');
+  validateRecords(raw.flashcards, 'flashcards', FLASHCARD_SCHEMA, errors);
+  validateRecords(raw.decks, 'decks', DECK_SCHEMA, errors);
+  validateRecords(raw.reviews, 'reviews', REVIEW_SCHEMA, errors);
+  validateRecords(raw.quizRounds, 'quizRounds', QUIZ_ROUND_SCHEMA, errors);
+
+  if (errors.length > 0) {
+    return {
+      errors: errors.length > MAX_VALIDATION_ERRORS
+        ? [...errors.slice(0, MAX_VALIDATION_ERRORS), `...and ${errors.length - MAX_VALIDATION_ERRORS} more`]
+        : errors
+    };
+  }
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      version: raw.version as number,
+      exportedAt: new Date(raw.exportedAt as string),
+      userId: raw.userId as string,
+      flashcards: reviveRecords(raw.flashcards as Record<string, unknown>[], FLASHCARD_SCHEMA),
+      decks: reviveRecords(raw.decks as Record<string, unknown>[], DECK_SCHEMA),
+      reviews: reviveRecords(raw.reviews as Record<string, unknown>[], REVIEW_SCHEMA),
+      quizRounds: reviveRecords(raw.quizRounds as Record<string, unknown>[], QUIZ_ROUND_SCHEMA),
+      settings: raw.settings as AccountData['settings']
+    },
+    errors: []
+  };
+};
+
+// Cards and decks in the backup whose ids already exist in the account.
+// A backup from another account is restored under new ids, so it never conflicts.
+export const getBackupConflicts = (
+  backup: AccountBackup,
+  userId: string,
+  flashcards: FlashcardData[],
+  decks: Deck[]
+): BackupConflicts => {
+  if (backup.userId !== userId) {
+    return { flashcardIds: [], deckIds: [] };
+  }
+  const flashcardIds = new Set(flashcards.map(card => card.id));
+  const deckIds = new Set(decks.map(deck => deck.id));
+  return {
+    flashcardIds: backup.flashcards.filter(card => flashcardIds.has(card.id)).map(card => card.id),
+    deckIds: backup.decks.filter(deck => deckIds.has(deck.id)).map(deck => deck.id)
+  };
+};
+
+// Give every record a new id, keeping references between them intact.
+// Used when restoring into a different account so the original account's documents are never touched.
+export const withFreshIds = (backup: AccountBackup, createId: () => string): AccountBackup => {
+  const flashcardIds = new Map(backup.flashcards.map(card => [card.id, createId()]));
+  const deckIds = new Map(backup.decks.map(deck => [deck.id, createId()]));
+
+  return {
+    ...backup,
+    flashcards: backup.flashcards.map(card => ({
+      ...card,
+      id: flashcardIds.get(card.id) as string,
+      ...(card.deckId ? { deckId: deckIds.get(card.deckId) } : {})
+    })),
+    decks: backup.decks.map(deck => ({ ...deck, id: deckIds.get(deck.id) as string })),
+    reviews: backup.reviews.map(review => ({
+      ...review,
+      id: createId(),
+      flashcardId: flashcardIds.get(review.flashcardId) || review.flashcardId
+    })),
+    quizRounds: backup.quizRounds.map(round => ({
+      ...round,
+      id: createId(),
+      outcomes: round.outcomes.map(outcome => ({
+        ...outcome,
+        flashcardId: flashcardIds.get(outcome.flashcardId) || outcome.flashcardId
+      }))
+    }))
+  };
+};
@@ -0,0 +1,26 @@
+import type { CardSide, FlashcardData } from '../types/flashcard';
+import { isClozeCard, renderClozeBack, renderClozeFront } from './cloze';
+
+export const isReverseCard = (flashcard: Pick<FlashcardData, 'cardType'>): boolean => flashcard.cardType === 'reverse';
+
+// The stored side holding what is shown on `side`; a reverse card shows its content back to front
+export const getContentSide = (flashcard: Pick<FlashcardData, 'cardType'>, side: CardSide): CardSide =>
+  isReverseCard(flashcard) ? (side === 'front' ? 'back' : 'front') : side;
+
+// The text shown on each side of a card. Cloze cards are rendered from the note text,
+// with the note's back kept as extra information under the filled text.
+export const getCardFaces = (
+  flashcard: Pick<FlashcardData, 'front' | 'back' | 'format' | 'cardType' | 'clozeIndex'>
+): { front: string; back: string } => {
+  if (isReverseCard(flashcard)) {
+    return { front: flashcard.back, back: flashcard.front };
+  }
+  if (!isClozeCard(flashcard) || !flashcard.clozeIndex) {
+    return { front: flashcard.front, back: flashcard.back };
+  }
+  const filled = renderClozeBack(flashcard.front, flashcard.clozeIndex, flashcard.format);
+  return {
+    front: renderClozeFront(flashcard.front, flashcard.clozeIndex, flashcard.format),
+    back: flashcard.back.trim() ? `${filled}\n\n${flashcard.back}` : filled
+  };
+};
@@ -0,0 +1,91 @@
+import { Marked } from 'marked';
+import type { MarkedExtension, Tokens } from 'marked';
+import DOMPurify from 'dompurify';
+import katex from 'katex';
+import hljs from 'highlight.js/lib/common';
+import type { CardFormat } from '../types/flashcard';
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const renderMath = (tex: string, displayMode: boolean): string =>
+  katex.renderToString(tex, { displayMode, throwOnError: false, output: 'htmlAndMathml' });
+
+// $$...$$ on its own lines is display math; $...$ and inline $$...$$ stay in the text.
+// Implemented as marked extensions so math inside code spans and blocks is left alone.
+const mathExtension: MarkedExtension = {
+  extensions: [
+    {
+      name: 'blockMath',
+      level: 'block',
+      start: (src: string) => src.match(/^\$\$/m)?.index,
+      tokenizer: (src: string) => {
+        const match = /^\$\$\n?([\s\S]+?)\n?\$\$(?:\n+|$)/.exec(src);
+        if (match) {
+          return { type: 'blockMath', raw: match[0], text: match[1].trim() };
+        }
+        return undefined;
+      },
+      renderer: (token: Tokens.Generic) => `${renderMath(token.text, true)}\n`
+    },
+    {
+      name: 'inlineMath',
+      level: 'inline',
+      start: (src: string) => src.indexOf('$'),
+      tokenizer: (src: string) => {
+        // A single $ must hug its content so prices like "$5 and $10" stay text
+        const match = /^\$\$([^$]+?)\$\$|^\$([^\s$](?:[^$\n]*?[^\s$])?)\$(?!\d)/.exec(src);
+        if (match) {
+          return { type: 'inlineMath', raw: match[0], text: match[1] ?? match[2], displayMode: match[1] !== undefined };
+        }
+        return undefined;
+      },
+      renderer: (token: Tokens.Generic) => renderMath(token.text, token.displayMode)
+    }
+  ]
+};
+
+const markdown = new Marked(
+  { gfm: true, breaks: true, async: false },
+  mathExtension,
+  {
+    renderer: {
+      // Raw HTML in a card is shown as text rather than injected
+      html: ({ text }: Tokens.HTML | Tokens.Tag) => escapeHtml(text),
+      code: ({ text, lang }: Tokens.Code) => {
+        const language = lang?.trim().split(/\s+/)[0];
+        const highlighted = language && hljs.getLanguage(language)
+          ? hljs.highlight(text, { language, ignoreIllegals: true }).value
+          : escapeHtml(text);
+        return `<pre><code class="hljs${language ? ` language-${escapeHtml(language)}` : ''}">${highlighted}</code></pre>\n`;
+      }
+    }
+  }
+);
+
+// Render a markdown card face to sanitized HTML; inline rendering leaves out block elements
+// such as paragraphs, for a face shown within a line of text
+export const renderCardHtml = (text: string, inline = false): string => {
+  const html = inline ? markdown.parseInline(text, { async: false }) : markdown.parse(text, { async: false });
+  return DOMPurify.sanitize(html, { USE_PROFILES: { html: true, mathMl: true, svg: true } });
+};
+
+// Reduce a markdown face to the words a learner would type, for quiz answer checking
+export const stripMarkdown = (text: string): string =>
+  text
+    .replace(/```[^\n]*\n([\s\S]*?)```/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/(\*\*|__|~~|\*|_)(?=\S)([\s\S]*?\S)\1/g, '$2')
+    .replace(/\$\$?([^$]+?)\$\$?/g, '$1')
+    .trim();
+
+// The text of a card face as it should be compared against typed answers
+export const getAnswerText = (text: string, format?: CardFormat): string =>
+  format === 'markdown' ? stripMarkdown(text) : text;
@@ -0,0 +1,41 @@
+import type { CardFormat, FlashcardData } from '../types/flashcard';
+import { getAnswerText } from './cardRendering';
+
+// {{c1::answer}} or {{c1::answer::hint}}
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+const BLANK = '[...]';
+
+export const isClozeCard = (flashcard: Pick<FlashcardData, 'cardType'>): boolean => flashcard.cardType === 'cloze';
+
+// The distinct cloze numbers in a note, in ascending order; each becomes its own card
+export const getClozeIndices = (text: string): number[] => {
+  const indices = new Set<number>();
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    const index = Number(match[1]);
+    if (index > 0) indices.add(index);
+  }
+  return [...indices].sort((a, b) => a - b);
+};
+
+const emphasize = (text: string, format?: CardFormat): string =>
+  format === 'markdown' ? `**${text}**` : text;
+
+// The question side: the spans for `index` become blanks (or their hint), the others are shown
+export const renderClozeFront = (text: string, index: number, format?: CardFormat): string =>
+  text.replace(CLOZE_PATTERN, (_match, number: string, answer: string, hint?: string) =>
+    Number(number) === index ? emphasize(hint ? `[${hint}]` : BLANK, format) : answer
+  );
+
+// The answer side: the full text with the spans for `index` filled in
+export const renderClozeBack = (text: string, index: number, format?: CardFormat): string =>
+  text.replace(CLOZE_PATTERN, (_match, number: string, answer: string) =>
+    Number(number) === index ? emphasize(answer, format) : answer
+  );
+
+// Only the hidden spans, as the answer a learner should type; repeated spans become a multi-part answer
+export const getClozeAnswer = (text: string, index: number, format?: CardFormat): string =>
+  [...text.matchAll(CLOZE_PATTERN)]
+    .filter(match => Number(match[1]) === index)
+    .map(match => getAnswerText(match[2], format))
+    .join(', ');
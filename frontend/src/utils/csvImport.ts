@@ -0,0 +1,151 @@
+import type { FlashcardData } from '../types/flashcard';
+import { parseTags } from './flashcardFilters';
+
+export type ImportDelimiter = ',' | '\t' | ';';
+export type ImportField = 'front' | 'back' | 'tags' | 'deck' | 'ignore';
+
+// Scheduling carried over from another app; cards without it start on their deck's interval
+export type ImportedSchedule = Partial<Pick<FlashcardData, 'nextRevision' | 'lastReviewed' | 'easeFactor' | 'stability' | 'lapses' | 'reviewCount'>>;
+
+export interface ImportRow {
+  rowNumber: number;
+  front: string;
+  back: string;
+  tags: string[];
+  deckName?: string;
+  schedule?: ImportedSchedule;
+  errors: string[];
+}
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  front: 'Front',
+  back: 'Back',
+  tags: 'Tags',
+  deck: 'Deck',
+  ignore: "Don't import"
+};
+
+export const DELIMITER_LABELS: Record<ImportDelimiter, string> = {
+  ',': 'Comma (CSV)',
+  '\t': 'Tab (TSV)',
+  ';': 'Semicolon'
+};
+
+// Pick whichever delimiter appears most often in the first line
+export const detectDelimiter = (text: string): ImportDelimiter => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates = Object.keys(DELIMITER_LABELS) as ImportDelimiter[];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+};
+
+// Parse delimited text into rows of cells, following RFC 4180 quoting
+// (quoted cells may contain delimiters, newlines and "" escaped quotes)
+export const parseDelimitedText = (text: string, delimiter: ImportDelimiter): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines carry no card
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+// Guess a field for each column from header names, falling back to front, back, tags, deck order
+export const guessColumnMapping = (firstRow: string[], hasHeader: boolean): ImportField[] => {
+  const fallback: ImportField[] = ['front', 'back', 'tags', 'deck'];
+  const used = new Set<ImportField>();
+
+  const guessed = firstRow.map((header): ImportField => {
+    if (!hasHeader) return 'ignore';
+    const name = header.trim().toLowerCase();
+    const field = (Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).find(candidate =>
+      candidate !== 'ignore' && (name === candidate || (candidate === 'front' && name === 'question') || (candidate === 'back' && name === 'answer'))
+    );
+    if (field && !used.has(field)) {
+      used.add(field);
+      return field;
+    }
+    return 'ignore';
+  });
+
+  if (used.size > 0) return guessed;
+  return firstRow.map((_, index) => fallback[index] || 'ignore');
+};
+
+// Tags may be comma separated, or space separated as in Anki exports
+const parseImportTags = (value: string): string[] =>
+  parseTags(value.includes(',') ? value : value.replace(/\s+/g, ','));
+
+// Turn parsed cells into card rows using the column mapping, flagging rows that can't be imported
+export const buildImportRows = (rows: string[][], mapping: ImportField[], hasHeader: boolean): ImportRow[] => {
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const firstRowNumber = hasHeader ? 2 : 1;
+  const seenFronts = new Map<string, number>();
+
+  return dataRows.map((cells, index) => {
+    const rowNumber = index + firstRowNumber;
+    const valueFor = (field: ImportField) => {
+      const column = mapping.indexOf(field);
+      return column >= 0 ? (cells[column] || '').trim() : '';
+    };
+
+    const front = valueFor('front');
+    const back = valueFor('back');
+    const deckName = valueFor('deck');
+    const errors: string[] = [];
+
+    if (!front) errors.push('Missing front');
+    if (!back) errors.push('Missing back');
+
+    const key = front.toLowerCase();
+    if (front && seenFronts.has(key)) {
+      errors.push(`Duplicate of row ${seenFronts.get(key)}`);
+    } else if (front) {
+      seenFronts.set(key, rowNumber);
+    }
+
+    return {
+      rowNumber,
+      front,
+      back,
+      tags: parseImportTags(valueFor('tags')),
+      ...(deckName ? { deckName } : {}),
+      errors
+    };
+  });
+};
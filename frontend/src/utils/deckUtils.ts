@@ -0,0 +1,61 @@
+import type { CardSchedule, FlashcardData } from '../types/flashcard';
+import type { Deck, DeckRole } from '../types/deck';
+
+// Special deck selections that are not real decks
+export const ALL_DECKS = 'all';
+export const UNASSIGNED_DECK = 'unassigned';
+
+export const filterFlashcardsByDeck = (flashcards: FlashcardData[], deckSelection: string): FlashcardData[] => {
+  if (deckSelection === ALL_DECKS) {
+    return flashcards;
+  }
+  if (deckSelection === UNASSIGNED_DECK) {
+    return flashcards.filter(card => !card.deckId);
+  }
+  return flashcards.filter(card => card.deckId === deckSelection);
+};
+
+export const countFlashcardsByDeck = (flashcards: FlashcardData[]): Record<string, number> => {
+  const counts: Record<string, number> = { [ALL_DECKS]: flashcards.length, [UNASSIGNED_DECK]: 0 };
+  flashcards.forEach(card => {
+    const key = card.deckId || UNASSIGNED_DECK;
+    counts[key] = (counts[key] || 0) + 1;
+  });
+  return counts;
+};
+
+export const getDeckSelectionName = (decks: Deck[], deckSelection: string): string => {
+  if (deckSelection === ALL_DECKS) return 'All Flashcards';
+  if (deckSelection === UNASSIGNED_DECK) return 'No Deck';
+  return decks.find(deck => deck.id === deckSelection)?.name || 'Unknown Deck';
+};
+
+// The user's role in a deck, or null if they aren't a member
+export const getDeckRole = (deck: Deck | undefined, userId: string): DeckRole | null => {
+  if (!deck) return null;
+  if (deck.userId === userId) return 'owner';
+  return deck.members?.[userId]?.role ?? null;
+};
+
+export const isTeamDeck = (deck: Deck): boolean => Object.keys(deck.members || {}).length > 0;
+
+export const canEditDeckCards = (role: DeckRole | null): boolean => role === 'owner' || role === 'editor';
+
+// Cards in a deck need a role there that edits cards, even for whoever wrote them; cards outside
+// any deck belong to their author alone
+export const canEditFlashcard = (flashcard: FlashcardData, decks: Deck[], userId: string): boolean =>
+  flashcard.deckId !== undefined
+    ? canEditDeckCards(getDeckRole(decks.find(deck => deck.id === flashcard.deckId), userId))
+    : flashcard.userId === userId;
+
+// Another member's card as the user studies it: with the user's own schedule, or as a new card
+// that is due from when it was added
+export const withMemberSchedule = (flashcard: FlashcardData, schedule: CardSchedule | undefined): FlashcardData => ({
+  ...flashcard,
+  nextRevision: schedule?.nextRevision ?? flashcard.createdAt,
+  lastReviewed: schedule?.lastReviewed,
+  reviewCount: schedule?.reviewCount ?? 0,
+  easeFactor: schedule?.easeFactor,
+  stability: schedule?.stability,
+  lapses: schedule?.lapses
+});
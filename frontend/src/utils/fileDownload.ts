@@ -0,0 +1,17 @@
+// Save a generated file through a temporary download link
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Turn a display name into something safe to use as a file name
+export const toFileName = (name: string, extension: string): string => {
+  const base = name.trim().replace(/[\\/:*?"<>|]+/g, '-').replace(/\s+/g, ' ') || 'flashcards';
+  return `${base}.${extension}`;
+};
@@ -0,0 +1,114 @@
+import type { FlashcardData } from '../types/flashcard';
+
+export type RevisionState = 'overdue' | 'due-today' | 'upcoming' | 'never-reviewed';
+
+export type FlashcardSortOption = 'due' | 'created' | 'reviews' | 'alphabetical';
+
+export interface FlashcardFilters {
+  search: string;
+  revisionState: RevisionState | 'all';
+  tag: string; // empty string matches every tag
+  sort: FlashcardSortOption;
+}
+
+export const DEFAULT_FILTERS: FlashcardFilters = {
+  search: '',
+  revisionState: 'all',
+  tag: '',
+  sort: 'created'
+};
+
+// Split a comma separated tag list, dropping blanks and case-insensitive duplicates
+export const parseTags = (input: string): string[] => {
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  input.split(',').forEach(raw => {
+    const tag = raw.trim().replace(/^#/, '');
+    if (tag && !seen.has(tag.toLowerCase())) {
+      seen.add(tag.toLowerCase());
+      tags.push(tag);
+    }
+  });
+  return tags;
+};
+
+// Remove and add tags, comparing case-insensitively like parseTags
+export const changeTags = (tags: string[] = [], add: string[], remove: string[]): string[] => {
+  const removed = new Set(remove.map(tag => tag.toLowerCase()));
+  const kept = tags.filter(tag => !removed.has(tag.toLowerCase()));
+  const present = new Set(kept.map(tag => tag.toLowerCase()));
+  return [...kept, ...add.filter(tag => !present.has(tag.toLowerCase()))];
+};
+
+export const getAllTags =(flashcards: FlashcardData[]): string[] => {
+  const tags = new Map<string, string>();
+  flashcards.forEach(card => {
+    card.tags?.forEach(tag => {
+      if (!tags.has(tag.toLowerCase())) {
+        tags.set(tag.toLowerCase(), tag);
+      }
+    });
+  });
+  return [...tags.values()].sort((a, b) => a.localeCompare(b));
+};
+
+// Same buckets the Flashcard component uses for its revision status badge
+export const matchesRevisionState = (flashcard: FlashcardData, state: RevisionState, now: Date = new Date()): boolean => {
+  if (state === 'never-reviewed') {
+    return !flashcard.lastReviewed;
+  }
+  if (!flashcard.nextRevision) {
+    return false;
+  }
+
+  const isOverdue = flashcard.nextRevision < now;
+  const isDueToday = flashcard.nextRevision.toDateString() === now.toDateString();
+
+  switch (state) {
+    case 'overdue':
+      return isOverdue;
+    case 'due-today':
+      return !isOverdue && isDueToday;
+    case 'upcoming':
+      return !isOverdue && !isDueToday;
+  }
+};
+
+const matchesSearch = (flashcard: FlashcardData, search: string): boolean => {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const haystack = [flashcard.front, flashcard.back, ...(flashcard.tags || [])].join('\n').toLowerCase();
+  return terms.every(term => haystack.includes(term.replace(/^#/, '')));
+};
+
+const compareFlashcards = (sort: FlashcardSortOption) => (a: FlashcardData, b: FlashcardData): number => {
+  switch (sort) {
+    case 'due': {
+      // Cards without a schedule go last
+      const aTime = a.nextRevision?.getTime() ?? Number.POSITIVE_INFINITY;
+      const bTime = b.nextRevision?.getTime() ?? Number.POSITIVE_INFINITY;
+      return aTime === bTime ? 0 : aTime < bTime ? -1 : 1;
+    }
+    case 'created':
+      return b.createdAt.getTime() - a.createdAt.getTime();
+    case 'reviews':
+      return (b.reviewCount || 0) - (a.reviewCount || 0);
+    case 'alphabetical':
+      return a.front.localeCompare(b.front, undefined, { sensitivity: 'base' });
+  }
+};
+
+export const applyFlashcardFilters = (
+  flashcards: FlashcardData[],
+  filters: FlashcardFilters,
+  now: Date = new Date()
+): FlashcardData[] => {
+  const tag = filters.tag.toLowerCase();
+
+  return flashcards
+    .filter(card => matchesSearch(card, filters.search))
+    .filter(card => filters.revisionState === 'all' || matchesRevisionState(card, filters.revisionState, now))
+    .filter(card => !tag || card.tags?.some(t => t.toLowerCase() === tag))
+    .sort(compareFlashcards(filters.sort));
+};
@@ -0,0 +1,184 @@
+import type { FlashcardData } from '../types/flashcard';
+import type { QuizDirection, QuizPrompt, QuizQuestion, RapidFireSettings } from '../types/quiz';
+import type { ReviewLogEntry } from '../types/review';
+import { getAcceptedAnswers, getBackAnswers, matchAnswer, normalizeAnswer } from './answerMatching';
+import type { AnswerMatchResult } from './answerMatching';
+import { getAnswerText } from './cardRendering';
+import { isClozeCard } from './cloze';
+import { getCardFaces, isReverseCard } from './cardFaces';
+import { isFlashcardDue } from './scheduler';
+import { isSuccessfulOutcome } from './stats';
+
+export const DEFAULT_RAPID_FIRE_SETTINGS: RapidFireSettings = {
+  timePerQuestion: 30,
+  questionCount: null,
+  cardSource: 'all',
+  direction: 'front-to-back',
+  answerMode: 'typed',
+  affectScheduling: false
+};
+
+export const MULTIPLE_CHOICE_OPTIONS = 4;
+
+// Fisher-Yates shuffle; returns a new array
+export const shuffle = <T>(items: T[], random: () => number = Math.random): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Share of successful attempts per flashcard, from the review log
+export const getAccuracyByFlashcard = (reviews: ReviewLogEntry[]): Map<string, number> => {
+  const totals = new Map<string, { attempts: number; successes: number }>();
+  reviews.forEach(review => {
+    const total = totals.get(review.flashcardId) || { attempts: 0, successes: 0 };
+    total.attempts += 1;
+    if (isSuccessfulOutcome(review.outcome)) {
+      total.successes += 1;
+    }
+    totals.set(review.flashcardId, total);
+  });
+
+  const accuracy = new Map<string, number>();
+  totals.forEach((total, flashcardId) => accuracy.set(flashcardId, total.successes / total.attempts));
+  return accuracy;
+};
+
+// Cards never attempted rank between struggling and well-known cards
+const UNKNOWN_ACCURACY = 0.5;
+
+// Pick and order the cards for a round according to the settings
+export const selectQuizCards = (
+  flashcards: FlashcardData[],
+  settings: RapidFireSettings,
+  options: { selectedIds?: string[]; accuracy?: Map<string, number>; now?: Date; random?: () => number } = {}
+): FlashcardData[] => {
+  const { selectedIds = [], accuracy = new Map<string, number>(), now = new Date(), random = Math.random } = options;
+  let pool: FlashcardData[];
+
+  switch (settings.cardSource) {
+    case 'due':
+      pool = flashcards.filter(card => isFlashcardDue(card, now));
+      break;
+    case 'selection':
+      pool = flashcards.filter(card => selectedIds.includes(card.id));
+      break;
+    case 'weakest':
+      // Shuffle first so ties between equally weak cards are broken randomly
+      pool = shuffle(flashcards, random).sort((a, b) =>
+        (accuracy.get(a.id) ?? UNKNOWN_ACCURACY) - (accuracy.get(b.id) ?? UNKNOWN_ACCURACY)
+      );
+      break;
+    default:
+      pool = flashcards;
+  }
+
+  if (settings.cardSource === 'weakest') {
+    // Keep the weakest cards, then shuffle them so the round doesn't open with the hardest ones
+    const weakest = settings.questionCount ? pool.slice(0, settings.questionCount) : pool;
+    return shuffle(weakest, random);
+  }
+
+  const shuffled = shuffle(pool, random);
+  return settings.questionCount ? shuffled.slice(0, settings.questionCount) : shuffled;
+};
+
+export const toQuizQuestion = (flashcard: FlashcardData, direction: QuizDirection): QuizQuestion => {
+  // A cloze card always asks for its hidden span, whichever direction the round uses
+  if (isClozeCard(flashcard) && flashcard.clozeIndex) {
+    const answers = getAcceptedAnswers(flashcard);
+    return {
+      flashcard,
+      prompt: getCardFaces(flashcard).front,
+      promptSide: 'front',
+      answer: answers[0],
+      answers
+    };
+  }
+  const faces = getCardFaces(flashcard);
+  if (direction === 'back-to-front') {
+    return {
+      flashcard,
+      prompt: faces.back,
+      promptSide: 'back',
+      answer: faces.front,
+      // Asked the other way round, a reverse card wants its stored back again
+      answers: isReverseCard(flashcard) ? getBackAnswers(flashcard) : [getAnswerText(faces.front, flashcard.format)]
+    };
+  }
+  return {
+    flashcard,
+    prompt: faces.front,
+    promptSide: 'front',
+    answer: faces.back,
+    answers: getAcceptedAnswers(flashcard)
+  };
+};
+
+// Typed answers are matched leniently; a multiple-choice answer is right only if it is the correct option
+export const checkQuizAnswer = (question: QuizPrompt, answer: string): AnswerMatchResult => {
+  if (question.options) {
+    return answer === question.answer ? 'correct' : 'incorrect';
+  }
+  return matchAnswer(answer, question.answers).result;
+};
+
+// Partially correct answers earn half a point
+export const getQuizPoints = (result: AnswerMatchResult): number =>
+  result === 'correct' ? 1 : result === 'partial' ? 0.5 : 0;
+
+// Two options read the same if they match once case, accents and punctuation are ignored
+const getOptionKey = (answer: string): string => normalizeAnswer(answer) || answer.trim().toLowerCase();
+
+// Wrong answers for a multiple-choice question, taken from the other cards' answers in the same direction.
+// Cards from the same deck come first, then ones sharing a tag or with an answer of similar length.
+// Answers that read like the correct one or like each other are skipped, so every option is distinct.
+export const getDistractors = (
+  question: QuizQuestion,
+  flashcards: FlashcardData[],
+  direction: QuizDirection,
+  count: number = MULTIPLE_CHOICE_OPTIONS - 1,
+  random: () => number = Math.random
+): string[] => {
+  const { flashcard } = question;
+  const tags = new Set(flashcard.tags || []);
+  const answerLength = question.answer.length;
+
+  const candidates = shuffle(flashcards, random)
+    .filter(card => card.id !== flashcard.id && !(flashcard.noteId && card.noteId === flashcard.noteId))
+    .map(card => {
+      const answer = toQuizQuestion(card, direction).answer;
+      const lengthSimilarity = Math.min(answer.length, answerLength) / Math.max(answer.length, answerLength, 1);
+      const sharesTag = (card.tags || []).some(tag => tags.has(tag));
+      const score = (card.deckId === flashcard.deckId ? 2 : 0) + (sharesTag ? 1 : 0) + lengthSimilarity;
+      return { answer, score };
+    })
+    .filter(candidate => candidate.answer.trim() !== '')
+    .sort((a, b) => b.score - a.score);
+
+  const seen = new Set([getOptionKey(question.answer)]);
+  const distractors: string[] = [];
+  for (const { answer } of candidates) {
+    if (distractors.length >= count) break;
+    const key = getOptionKey(answer);
+    if (!seen.has(key)) {
+      seen.add(key);
+      distractors.push(answer);
+    }
+  }
+  return distractors;
+};
+
+// Add shuffled options to a question; fewer than four when there aren't enough distinct answers
+export const withChoiceOptions = (
+  question: QuizQuestion,
+  flashcards: FlashcardData[],
+  direction: QuizDirection,
+  random: () => number = Math.random
+): QuizQuestion => ({
+  ...question,
+  options: shuffle([question.answer, ...getDistractors(question, flashcards, direction, MULTIPLE_CHOICE_OPTIONS - 1, random)], random)
+});
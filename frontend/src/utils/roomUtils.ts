@@ -0,0 +1,104 @@
+import type { QuizPrompt, QuizQuestion } from '../types/quiz';
+import type { RoomAnswer, RoomAnswerKey, RoomPlayer, RoomQuestion, RoomSubmission } from '../types/room';
+import type { AnswerMatchResult } from './answerMatching';
+import { getSideAttachments } from './attachments';
+import { checkQuizAnswer, getQuizPoints } from './quizUtils';
+
+// Points for an instant correct answer; one given as time runs out earns half
+export const MAX_ROOM_POINTS = 1000;
+
+// Rooms keep their questions in one document, which Firestore limits to 1 MiB
+export const MAX_ROOM_QUESTIONS = 50;
+
+export const JOIN_CODE_LENGTH = 6;
+
+// Letters and digits that can't be mistaken for one another when read aloud or off a screen
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const createJoinCode = (random: () => number = Math.random): string =>
+  Array.from({ length: JOIN_CODE_LENGTH }, () =>
+    JOIN_CODE_ALPHABET[Math.floor(random() * JOIN_CODE_ALPHABET.length)]
+  ).join('');
+
+// Join codes are typed in, so accept lowercase and stray spaces or dashes
+export const normalizeJoinCode = (code: string): string => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Answers are worth more the faster they come; partially correct ones earn half
+export const getSpeedPoints = (
+  result: AnswerMatchResult,
+  responseTimeMs: number,
+  timeLimitMs: number
+): number => {
+  const elapsed = Math.min(Math.max(responseTimeMs / timeLimitMs, 0), 1);
+  return Math.round(MAX_ROOM_POINTS * getQuizPoints(result) * (1 - elapsed / 2));
+};
+
+// The part of a question a room stores: only what players see, without the rest of the host's card or the answers
+export const toRoomQuestion = ({ flashcard, prompt, promptSide, options }: QuizQuestion): RoomQuestion => {
+  const attachments = getSideAttachments(flashcard, promptSide);
+  return {
+    flashcard: {
+      id: flashcard.id,
+      ...(flashcard.format ? { format: flashcard.format } : {}),
+      ...(flashcard.cardType ? { cardType: flashcard.cardType } : {}),
+      ...(attachments.length ? { attachments } : {})
+    },
+    prompt,
+    promptSide,
+    ...(options ? { options } : {})
+  };
+};
+
+export const toRoomAnswerKey = ({ flashcard, promptSide, answer, answers }: QuizQuestion): RoomAnswerKey => {
+  const attachments = getSideAttachments(flashcard, promptSide === 'front' ? 'back' : 'front');
+  return { answer, answers, ...(attachments.length ? { attachments } : {}) };
+};
+
+// A question with its answer key put back, showing the files from both sides of its card
+export const toQuizPrompt = (question: RoomQuestion, { attachments = [], ...answerKey }: RoomAnswerKey): QuizPrompt => ({
+  ...question,
+  ...answerKey,
+  flashcard: {
+    ...question.flashcard,
+    attachments: [...(question.flashcard.attachments || []), ...attachments]
+  }
+});
+
+// Check a player's answer against the host's key, timing it by the server's clock
+export const scoreRoomSubmission = (
+  question: RoomQuestion,
+  answerKey: RoomAnswerKey,
+  submission: RoomSubmission,
+  questionStartedAt: Date,
+  timePerQuestion: number
+): RoomAnswer => {
+  const result = checkQuizAnswer(toQuizPrompt(question, answerKey), submission.answer);
+  const responseTimeMs = Math.max(submission.submittedAt.getTime() - questionStartedAt.getTime(), 0);
+  return { result, responseTimeMs, points: getSpeedPoints(result, responseTimeMs, timePerQuestion * 1000) };
+};
+
+export interface RankedPlayer {
+  player: RoomPlayer;
+  rank: number; // players on the same score share a rank
+}
+
+// Players by score, highest first, with ties listed by name
+export const rankPlayers = (players: RoomPlayer[]): RankedPlayer[] => {
+  const sorted = [...players].sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+  return sorted.map(player => ({
+    player,
+    rank: sorted.findIndex(other => other.score === player.score) + 1
+  }));
+};
+
+// Milliseconds left on the current question, given how far the local clock is behind the server's
+export const getTimeLeftMs = (
+  questionStartedAt: Date | undefined,
+  timePerQuestion: number,
+  clockOffsetMs: number,
+  now: number = Date.now()
+): number => {
+  if (!questionStartedAt) return timePerQuestion * 1000;
+  const elapsed = now + clockOffsetMs - questionStartedAt.getTime();
+  return Math.max(timePerQuestion * 1000 - elapsed, 0);
+};
@@ -0,0 +1,156 @@
+import type { FlashcardData, ReviewGrade } from '../types/flashcard';
+import type { AnswerMatchResult } from './answerMatching';
+import { convertToMilliseconds } from './timeUtils';
+
+const DAY_MS = convertToMilliseconds(1, 'days');
+
+export const DEFAULT_EASE = 2.5;
+export const MIN_EASE = 1.3;
+export const MAX_INTERVAL_DAYS = 3650;
+
+// Interval used after a lapse before the card is shown again (10 minutes)
+const RELEARN_INTERVAL_DAYS = convertToMilliseconds(10, 'minutes') / DAY_MS;
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export interface SchedulingState {
+  easeFactor: number;
+  stability: number; // in days, 0 for a card that has never been graded
+  lapses: number;
+  reviewCount: number;
+}
+
+export interface ScheduleResult extends SchedulingState {
+  interval: number; // in days
+  nextRevision: Date;
+}
+
+export interface Scheduler {
+  name: string;
+  schedule: (state: SchedulingState, grade: ReviewGrade, now?: Date) => ScheduleResult;
+}
+
+// Read the scheduling state stored on a card, seeding legacy cards from their revision settings
+export const getSchedulingState = (flashcard: FlashcardData): SchedulingState => {
+  let stability = flashcard.stability ?? 0;
+
+  if (flashcard.stability === undefined && flashcard.lastReviewed) {
+    if (flashcard.revisionSettings) {
+      stability = convertToMilliseconds(flashcard.revisionSettings.interval, flashcard.revisionSettings.unit) / DAY_MS;
+    } else if (flashcard.revisionInterval) {
+      stability = flashcard.revisionInterval;
+    }
+  }
+
+  return {
+    easeFactor: flashcard.easeFactor ?? DEFAULT_EASE,
+    stability,
+    lapses: flashcard.lapses ?? 0,
+    reviewCount: flashcard.reviewCount ?? 0
+  };
+};
+
+// SM-2 style scheduler: the interval grows by the card's ease on every successful recall
+export const sm2Scheduler: Scheduler = {
+  name: 'sm2',
+  schedule: (state, grade, now = new Date()) => {
+    let { easeFactor, stability, lapses } = state;
+    const isNew = stability <= 0;
+    let interval: number;
+
+    switch (grade) {
+      case 'again':
+        easeFactor -= 0.2;
+        lapses += 1;
+        interval = RELEARN_INTERVAL_DAYS;
+        stability = 0;
+        break;
+      case 'hard':
+        easeFactor -= 0.15;
+        interval = isNew ? 1 : stability * 1.2;
+        stability = interval;
+        break;
+      case 'good':
+        interval = isNew ? 1 : stability * easeFactor;
+        stability = interval;
+        break;
+      case 'easy':
+        easeFactor += 0.15;
+        interval = isNew ? 4 : stability * easeFactor * 1.3;
+        stability = interval;
+        break;
+    }
+
+    easeFactor = Math.max(MIN_EASE, Math.round(easeFactor * 100) / 100);
+    interval = Math.min(interval, MAX_INTERVAL_DAYS);
+    stability = Math.min(stability, MAX_INTERVAL_DAYS);
+
+    return {
+      easeFactor,
+      stability,
+      lapses,
+      reviewCount: state.reviewCount + 1,
+      interval,
+      nextRevision: new Date(now.getTime() + interval * DAY_MS)
+    };
+  }
+};
+
+let activeScheduler: Scheduler = sm2Scheduler;
+
+export const getScheduler = (): Scheduler => activeScheduler;
+
+// Swap the scheduling algorithm used by the app
+export const setScheduler = (scheduler: Scheduler): void => {
+  activeScheduler = scheduler;
+};
+
+// Compute the next schedule for a card given the recall grade
+export const scheduleReview = (
+  flashcard: FlashcardData,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): ScheduleResult => {
+  return activeScheduler.schedule(getSchedulingState(flashcard), grade, now);
+};
+
+// Short human readable interval, e.g. "10m", "3d", "2mo"
+export const formatIntervalDays = (days: number): string => {
+  const minutes = Math.round(days * 24 * 60);
+  if (minutes < 60) return `${Math.max(1, minutes)}m`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  const wholeDays = Math.round(days);
+  if (wholeDays < 30) return `${wholeDays}d`;
+  const months = Math.round(wholeDays / 30);
+  if (months < 12) return `${months}mo`;
+  return `${Math.round((wholeDays / 365) * 10) / 10}y`;
+};
+
+export const isFlashcardDue = (flashcard: FlashcardData, now: Date = new Date()): boolean => {
+  return flashcard.nextRevision !== undefined && flashcard.nextRevision <= now;
+};
+
+// Cards whose next revision has passed, most overdue first
+export const getDueFlashcards = (flashcards: FlashcardData[], now: Date = new Date()): FlashcardData[] => {
+  return flashcards
+    .filter(card => isFlashcardDue(card, now))
+    .sort((a, b) => a.nextRevision!.getTime() - b.nextRevision!.getTime());
+};
+
+// Reschedule a card from a quiz answer: a miss brings it back soon, a hit only counts once the card is due
+export const scheduleQuizOutcome = (
+  flashcard: FlashcardData,
+  result: AnswerMatchResult,
+  now: Date = new Date()
+): ScheduleResult | null => {
+  if (result === 'incorrect') {
+    const relapse = scheduleReview(flashcard, 'again', now);
+    // Never push a card further out than it already was
+    return !flashcard.nextRevision || relapse.nextRevision < flashcard.nextRevision ? relapse : null;
+  }
+  if (result === 'correct' && isFlashcardDue(flashcard, now)) {
+    return scheduleReview(flashcard, 'good', now);
+  }
+  return null;
+};
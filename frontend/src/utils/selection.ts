@@ -0,0 +1,26 @@
+// Toggle one id in a selection. Extending a range from the anchor (the last id clicked) gives
+// every id between the two, in list order, the new state of the clicked one.
+export const toggleSelection = (
+  selected: Set<string>,
+  orderedIds: string[],
+  id: string,
+  anchorId: string | null,
+  extendRange: boolean
+): Set<string> => {
+  const isSelecting = !selected.has(id);
+  const index = orderedIds.indexOf(id);
+  const anchorIndex = anchorId ? orderedIds.indexOf(anchorId) : -1;
+  const ids = extendRange && anchorIndex >= 0 && index >= 0
+    ? orderedIds.slice(Math.min(index, anchorIndex), Math.max(index, anchorIndex) + 1)
+    : [id];
+
+  const next = new Set(selected);
+  ids.forEach(rangeId => {
+    if (isSelecting) {
+      next.add(rangeId);
+    } else {
+      next.delete(rangeId);
+    }
+  });
+  return next;
+};
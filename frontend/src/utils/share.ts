@@ -0,0 +1,71 @@
+import type { FlashcardData, RevisionSettings } from '../types/flashcard';
+import type { SharedCard, SharedDeckContent } from '../types/share';
+import { getNextRevisionDate } from './timeUtils';
+
+// Query parameter that carries a shared deck's id in its link
+export const SHARE_PARAM = 'share';
+
+const DEFAULT_CLONE_SETTINGS: RevisionSettings = { interval: 7, unit: 'days' };
+
+export const getShareLink = (sharedDeckId: string): string => {
+  const url = new URL(window.location.href);
+  url.search = new URLSearchParams({ [SHARE_PARAM]: sharedDeckId }).toString();
+  url.hash = '';
+  return url.toString();
+};
+
+export const getSharedDeckIdFromUrl = (): string | null =>
+  new URLSearchParams(window.location.search).get(SHARE_PARAM);
+
+// Take the share link out of the address bar once it has been handled, so a reload opens the dashboard
+export const clearSharedDeckIdFromUrl = (): void => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(SHARE_PARAM);
+  window.history.replaceState(null, '', url.toString());
+};
+
+// The content of each card that goes into a shared deck
+export const toSharedCards = (flashcards: FlashcardData[]): SharedCard[] =>
+  flashcards.map(card => ({
+    id: card.id,
+    front: card.front,
+    back: card.back,
+    format: card.format,
+    acceptedAnswers: card.acceptedAnswers,
+    tags: card.tags,
+    cardType: card.cardType,
+    clozeIndex: card.clozeIndex,
+    noteId: card.noteId
+  }));
+
+// New cards for a clone of a shared deck. They start unreviewed on the shared deck's schedule,
+// and notes get new ids so the copies are edited together without reaching the owner's cards.
+export const toClonedFlashcards = (
+  { deck, cards }: SharedDeckContent,
+  deckId: string,
+  userId: string,
+  createId: () => string
+): Array<Omit<FlashcardData, 'id' | 'createdAt'>> => {
+  const settings = deck.revisionSettings || DEFAULT_CLONE_SETTINGS;
+  const noteIds = new Map<string, string>();
+  const getNoteId = (noteId: string) => {
+    if (!noteIds.has(noteId)) noteIds.set(noteId, createId());
+    return noteIds.get(noteId) as string;
+  };
+
+  return cards.map(card => ({
+    front: card.front,
+    back: card.back,
+    ...(card.format ? { format: card.format } : {}),
+    ...(card.acceptedAnswers ? { acceptedAnswers: card.acceptedAnswers } : {}),
+    ...(card.cardType ? { cardType: card.cardType } : {}),
+    ...(card.clozeIndex !== undefined ? { clozeIndex: card.clozeIndex } : {}),
+    ...(card.noteId ? { noteId: getNoteId(card.noteId) } : {}),
+    tags: card.tags || [],
+    userId,
+    deckId,
+    reviewCount: 0,
+    revisionSettings: settings,
+    nextRevision: getNextRevisionDate(settings.interval, settings.unit)
+  }));
+};
@@ -0,0 +1,135 @@
+import type { FlashcardData } from '../types/flashcard';
+import type { ReviewLogEntry, ReviewOutcome } from '../types/review';
+
+// Cards whose interval has reached this many days count as mature
+export const MATURE_INTERVAL_DAYS = 21;
+
+const FAILED_OUTCOMES: ReviewOutcome[] = ['again', 'incorrect'];
+
+export interface DayCount {
+  date: Date;
+  count: number;
+}
+
+export interface AccuracyPoint {
+  weekStart: Date;
+  attempts: number;
+  accuracy: number; // percentage, 0 when there were no attempts
+}
+
+export interface MaturityCounts {
+  new: number;
+  young: number;
+  mature: number;
+}
+
+const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+// Local calendar day key, e.g. "2024-03-09"
+export const toDayKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const isSuccessfulOutcome = (outcome: ReviewOutcome): boolean => !FAILED_OUTCOMES.includes(outcome);
+
+export const countReviewsByDay = (reviews: ReviewLogEntry[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  reviews.forEach(review => {
+    const key = toDayKey(review.reviewedAt);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  return counts;
+};
+
+// One entry per day for the last `days` days, oldest first
+export const getReviewHeatmap = (reviews: ReviewLogEntry[], days: number, now: Date = new Date()): DayCount[] => {
+  const counts = countReviewsByDay(reviews);
+  const today = startOfDay(now);
+  return Array.from({ length: days }, (_, i) => {
+    const date = addDays(today, i - days + 1);
+    return { date, count: counts.get(toDayKey(date)) || 0 };
+  });
+};
+
+// Consecutive days with at least one review, ending today (or yesterday if nothing yet today)
+export const getCurrentStreak = (reviews: ReviewLogEntry[], now: Date = new Date()): number => {
+  const counts = countReviewsByDay(reviews);
+  let day = startOfDay(now);
+  if (!counts.has(toDayKey(day))) {
+    day = addDays(day, -1);
+  }
+
+  let streak = 0;
+  while (counts.has(toDayKey(day))) {
+    streak += 1;
+    day = addDays(day, -1);
+  }
+  return streak;
+};
+
+// Weekly accuracy for the last `weeks` weeks, oldest first
+export const getWeeklyAccuracy = (reviews: ReviewLogEntry[], weeks: number, now: Date = new Date()): AccuracyPoint[] => {
+  const today = startOfDay(now);
+  const firstWeekStart = addDays(today, -(weeks * 7) + 1);
+  const points: AccuracyPoint[] = Array.from({ length: weeks }, (_, i) => ({
+    weekStart: addDays(firstWeekStart, i * 7),
+    attempts: 0,
+    accuracy: 0
+  }));
+  const successes = new Array<number>(weeks).fill(0);
+
+  reviews.forEach(review => {
+    const index = Math.floor((startOfDay(review.reviewedAt).getTime() - firstWeekStart.getTime()) / (7 * 24 * 60 * 60 * 1000));
+    if (index < 0 || index >= weeks) return;
+    points[index].attempts += 1;
+    if (isSuccessfulOutcome(review.outcome)) {
+      successes[index] += 1;
+    }
+  });
+
+  points.forEach((point, i) => {
+    point.accuracy = point.attempts > 0 ? Math.round((successes[i] / point.attempts) * 100) : 0;
+  });
+  return points;
+};
+
+export const getMaturityCounts = (flashcards: FlashcardData[]): MaturityCounts => {
+  const counts: MaturityCounts = { new: 0, young: 0, mature: 0 };
+  flashcards.forEach(card => {
+    if (!card.lastReviewed) {
+      counts.new += 1;
+    } else if ((card.stability || 0) >= MATURE_INTERVAL_DAYS) {
+      counts.mature += 1;
+    } else {
+      counts.young += 1;
+    }
+  });
+  return counts;
+};
+
+// Number of cards falling due on each of the next `days` days; overdue cards count towards today
+export const getDueForecast = (flashcards: FlashcardData[], days: number, now: Date = new Date()): DayCount[] => {
+  const today = startOfDay(now);
+  const forecast: DayCount[] = Array.from({ length: days }, (_, i) => ({ date: addDays(today, i), count: 0 }));
+
+  flashcards.forEach(card => {
+    if (!card.nextRevision) return;
+    const index = Math.max(0, Math.round((startOfDay(card.nextRevision).getTime() - today.getTime()) / (24 * 60 * 60 * 1000)));
+    if (index < days) {
+      forecast[index].count += 1;
+    }
+  });
+  return forecast;
+};
@@ -1,7 +1,11 @@
-import { defineConfig } from 'vite'
+import { configDefaults, defineConfig } from 'vitest/config'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  test: {
+    // The security rules tests need the Firestore emulator, which `npm run test:rules` starts
+    exclude: [...configDefaults.exclude, ...(process.env.FIRESTORE_EMULATOR_HOST ? [] : ['**/*.rules.test.ts'])],
+  },
 })